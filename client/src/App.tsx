@@ -5,50 +5,76 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { GlobalSearch } from "@/components/global-search";
+import { CommandPalette } from "@/components/command-palette";
 import { ThemeProvider } from "@/components/theme-provider";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Dashboard from "@/pages/dashboard";
 import Chat from "@/pages/chat";
 import Goals from "@/pages/goals";
 import Notes from "@/pages/notes";
 import ActivityPage from "@/pages/activity";
+import Reviews from "@/pages/reviews";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/chat" component={Chat} />
-      <Route path="/goals" component={Goals} />
-      <Route path="/notes" component={Notes} />
-      <Route path="/activity" component={ActivityPage} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/chat" component={Chat} />
+      <ProtectedRoute path="/goals" component={Goals} />
+      <ProtectedRoute path="/notes" component={Notes} />
+      <ProtectedRoute path="/activity" component={ActivityPage} />
+      <ProtectedRoute path="/reviews" component={Reviews} />
+      <ProtectedRoute path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
-export default function App() {
+function AppLayout() {
+  const { user } = useAuth();
+  useLiveUpdates(!!user);
+
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header className="flex items-center justify-between gap-4 p-4 border-b shrink-0">
+            <SidebarTrigger data-testid="button-sidebar-toggle" />
+            <GlobalSearch />
+          </header>
+          <main className="flex-1 overflow-hidden">
+            <Router />
+          </main>
+        </div>
+      </div>
+      <CommandPalette />
+    </SidebarProvider>
+  );
+}
+
+export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="dark">
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 overflow-hidden">
-                <header className="flex items-center justify-between gap-4 p-4 border-b shrink-0">
-                  <SidebarTrigger data-testid="button-sidebar-toggle" />
-                </header>
-                <main className="flex-1 overflow-hidden">
-                  <Router />
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <AuthProvider>
+            <Switch>
+              <Route path="/auth" component={AuthPage} />
+              <Route component={AppLayout} />
+            </Switch>
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
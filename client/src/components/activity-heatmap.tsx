@@ -0,0 +1,67 @@
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+import type { Analytics } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const WEEKDAYS = ["Mon", "", "Wed", "", "Fri", "", ""];
+
+// Shades from no activity to the busiest day of the range
+const LEVELS = ["bg-muted", "bg-primary/25", "bg-primary/50", "bg-primary/75", "bg-primary"];
+
+function level(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0;
+  return Math.min(LEVELS.length - 1, Math.ceil((count / max) * (LEVELS.length - 1)));
+}
+
+// Activities per day as a contribution-style grid: one column per week,
+// Monday at the top. Days outside the range are left blank.
+export function ActivityHeatmap({ analytics }: { analytics: Analytics }) {
+  const counts = new Map(analytics.heatmap.map((day) => [day.date, day.count]));
+  const max = Math.max(0, ...analytics.heatmap.map((day) => day.count));
+
+  const weeks: string[][] = [];
+  for (
+    let day = startOfWeek(parseISO(analytics.from), { weekStartsOn: 1 });
+    format(day, "yyyy-MM-dd") <= analytics.to;
+    day = addDays(day, 1)
+  ) {
+    if (weeks.length === 0 || weeks[weeks.length - 1].length === 7) weeks.push([]);
+    weeks[weeks.length - 1].push(format(day, "yyyy-MM-dd"));
+  }
+
+  return (
+    <div className="overflow-x-auto" data-testid="activity-heatmap">
+      <div className="inline-flex gap-1">
+        <div className="grid grid-rows-7 gap-1 pr-1 text-[10px] text-muted-foreground">
+          {WEEKDAYS.map((label, index) => (
+            <div key={index} className="h-3 leading-3">
+              {label}
+            </div>
+          ))}
+        </div>
+        {weeks.map((week) => (
+          <div key={week[0]} className="grid grid-rows-7 gap-1">
+            {week.map((date) => {
+              if (date < analytics.from || date > analytics.to) return <div key={date} className="h-3 w-3" />;
+              const count = counts.get(date) ?? 0;
+              return (
+                <div
+                  key={date}
+                  className={cn("h-3 w-3 rounded-sm", LEVELS[level(count, max)])}
+                  title={`${format(parseISO(date), "EEE, MMM d, yyyy")}: ${count} ${count === 1 ? "activity" : "activities"}`}
+                  data-testid={`heatmap-day-${date}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div className="mt-3 flex items-center gap-1 text-xs text-muted-foreground">
+        Less
+        {LEVELS.map((shade) => (
+          <div key={shade} className={cn("h-3 w-3 rounded-sm", shade)} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
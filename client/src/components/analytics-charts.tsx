@@ -0,0 +1,73 @@
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import type { Analytics, AnalyticsBucket } from "@shared/schema";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+const activityConfig = {
+  chats: { label: "Chats", color: "hsl(var(--chart-1))" },
+  completions: { label: "Completions", color: "hsl(var(--chart-5))" },
+  notes: { label: "Notes", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const progressConfig = {
+  progress: { label: "Progress gained (%)", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const tickFormats: Record<AnalyticsBucket, string> = { day: "MMM d", week: "MMM d", month: "MMM yyyy" };
+const labelFormats: Record<AnalyticsBucket, string> = {
+  day: "EEE, MMM d",
+  week: "'Week of' MMM d",
+  month: "MMMM yyyy",
+};
+
+// Chats, completions and notes per bucket, and the goal progress gained
+export function AnalyticsCharts({ analytics }: { analytics: Analytics }) {
+  const { series, bucket } = analytics;
+  const tick = (start: string) => format(parseISO(start), tickFormats[bucket]);
+  const label = (start: string) => format(parseISO(start), labelFormats[bucket]);
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Activity</h4>
+        <ChartContainer config={activityConfig} className="h-64 w-full aspect-auto" data-testid="chart-activity">
+          <BarChart data={series}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="start" tickFormatter={tick} tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={label} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="chats" stackId="activity" fill="var(--color-chats)" />
+            <Bar dataKey="completions" stackId="activity" fill="var(--color-completions)" />
+            <Bar dataKey="notes" stackId="activity" fill="var(--color-notes)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">Goal progress</h4>
+        <ChartContainer config={progressConfig} className="h-64 w-full aspect-auto" data-testid="chart-progress">
+          <AreaChart data={series}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="start" tickFormatter={tick} tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={label} />} />
+            <Area
+              dataKey="progress"
+              type="monotone"
+              stroke="var(--color-progress)"
+              fill="var(--color-progress)"
+              fillOpacity={0.2}
+            />
+          </AreaChart>
+        </ChartContainer>
+      </div>
+    </div>
+  );
+}
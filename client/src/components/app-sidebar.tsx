@@ -1,4 +1,4 @@
-import { Home, MessageSquare, Target, StickyNote, BarChart3, Sparkles } from "lucide-react";
+import { Home, MessageSquare, Target, StickyNote, BarChart3, ScrollText, Settings, Sparkles, LogOut, User } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import {
   Sidebar,
@@ -12,8 +12,11 @@ import {
   SidebarHeader,
   SidebarFooter,
 } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
 
-const menuItems = [
+// Also listed in the command palette
+export const menuItems = [
   {
     title: "Dashboard",
     url: "/",
@@ -39,10 +42,21 @@ const menuItems = [
     url: "/activity",
     icon: BarChart3,
   },
+  {
+    title: "Reviews",
+    url: "/reviews",
+    icon: ScrollText,
+  },
+  {
+    title: "Settings",
+    url: "/settings",
+    icon: Settings,
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
+  const { user, logoutMutation } = useAuth();
 
   return (
     <Sidebar>
@@ -85,7 +99,25 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
-      <SidebarFooter className="p-4">
+      <SidebarFooter className="p-4 space-y-3">
+        {user && (
+          <div className="flex items-center gap-2">
+            <User className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 min-w-0 truncate text-sm" data-testid="text-username">
+              {user.username}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Sign out"
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
         <p className="text-xs text-muted-foreground text-center font-mono">
           Growing smarter every day
         </p>
@@ -0,0 +1,47 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { BranchMessage } from "@shared/schema";
+
+// "‹ 2/3 ›" arrows between the versions of a message: its edits, or the
+// regenerated replies to the same prompt
+export function BranchSwitcher({
+  message,
+  onSwitch,
+  disabled,
+}: {
+  message: BranchMessage;
+  onSwitch: (messageId: string) => void;
+  disabled?: boolean;
+}) {
+  const index = message.siblingIds.indexOf(message.id);
+  const count = message.siblingIds.length;
+  if (count < 2) return null;
+
+  return (
+    <div className="flex items-center gap-0.5 text-xs text-muted-foreground" data-testid={`branch-switcher-${message.id}`}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || index <= 0}
+        onClick={() => onSwitch(message.siblingIds[index - 1])}
+        data-testid={`button-previous-branch-${message.id}`}
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="font-mono">
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        disabled={disabled || index >= count - 1}
+        onClick={() => onSwitch(message.siblingIds[index + 1])}
+        data-testid={`button-next-branch-${message.id}`}
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Target, StickyNote, Search, Undo2, Wrench } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatAction, Message } from "@shared/schema";
+
+const entityRoutes = {
+  goal: "/goals",
+  note: "/notes",
+};
+
+function getActionIcon(action: ChatAction) {
+  if (action.entityType === "goal") return Target;
+  if (action.entityType === "note") return StickyNote;
+  if (action.tool.startsWith("search") || action.tool.startsWith("list")) return Search;
+  return Wrench;
+}
+
+// A tool call the assistant made, shown under its reply. `messageId` is absent
+// while the reply is still streaming, which hides the undo link.
+export function ChatActionCard({ action, messageId }: { action: ChatAction; messageId?: string }) {
+  const { toast } = useToast();
+  const Icon = getActionIcon(action);
+
+  const undoMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<Message>("POST", `/api/messages/${messageId}/actions/${action.id}/undo`),
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations", message.conversationId, "messages"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Action undone",
+        description: action.summary,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Undo failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div
+      className="flex items-center gap-3 rounded-lg border bg-muted/40 px-3 py-2 text-sm"
+      data-testid={`action-${action.id}`}
+    >
+      <Icon className="h-4 w-4 shrink-0 text-primary" />
+      <span className={`flex-1 min-w-0 truncate ${action.undone ? "line-through text-muted-foreground" : ""}`}>
+        {action.entityType && action.entityId && !action.undone ? (
+          <Link href={entityRoutes[action.entityType]} className="hover:underline">
+            {action.summary}
+          </Link>
+        ) : (
+          action.summary
+        )}
+      </span>
+      {action.undone ? (
+        <span className="text-xs text-muted-foreground font-mono">Undone</span>
+      ) : (
+        action.undo &&
+        messageId && (
+          <button
+            type="button"
+            onClick={() => undoMutation.mutate()}
+            disabled={undoMutation.isPending}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+            data-testid={`button-undo-action-${action.id}`}
+          >
+            <Undo2 className="h-3 w-3" />
+            Undo
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { defaultFilter } from "cmdk";
+import { CheckCircle2, MessageSquare, Sparkles, StickyNote, Target, type LucideIcon } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { DialogTitle } from "@/components/ui/dialog";
+import { menuItems } from "@/components/app-sidebar";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChatResponse, Conversation, Goal, Note } from "@shared/schema";
+
+// Actions that take the rest of the input as their text
+type Prompt = "new-note" | "new-goal" | "ask";
+type Mode = "root" | "complete-goal" | Prompt;
+
+const prompts: Record<Prompt, { placeholder: string; label: string; icon: LucideIcon }> = {
+  "new-note": { placeholder: "Note title...", label: "Create note", icon: StickyNote },
+  "new-goal": { placeholder: "Goal title...", label: "Create goal", icon: Target },
+  ask: { placeholder: "Ask AstraMind anything...", label: "Ask AstraMind", icon: Sparkles },
+};
+
+function isPrompt(mode: Mode): mode is Prompt {
+  return mode in prompts;
+}
+
+// Item values are ids, so match against the keywords (titles) when there are any
+function filterByKeywords(value: string, search: string, keywords?: string[]) {
+  return defaultFilter(keywords?.length ? keywords.join(" ") : value, search);
+}
+
+// Ctrl/Cmd+K palette: jump to pages, conversations, goals and notes by fuzzy
+// title, or run quick actions against the API
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>("root");
+  const [input, setInput] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((wasOpen) => !wasOpen);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Every time the palette opens it starts over at the root list
+  useEffect(() => {
+    if (!open) {
+      setMode("root");
+      setInput("");
+    }
+  }, [open]);
+
+  const { data: conversations } = useQuery<Conversation[]>({
+    queryKey: ["/api/conversations"],
+    enabled: open,
+  });
+
+  const { data: goals } = useQuery<Goal[]>({
+    queryKey: ["/api/goals"],
+    enabled: open,
+  });
+
+  const { data: notes } = useQuery<Note[]>({
+    queryKey: ["/api/notes"],
+    enabled: open,
+  });
+
+  const onError = () => {
+    toast({
+      title: "Error",
+      description: "That didn't work. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createNoteMutation = useMutation({
+    mutationFn: (title: string) => apiRequest<Note>("POST", "/api/notes", { title, content: "", tags: [] }),
+    onSuccess: (note) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      // The notes page opens ?note= in its editor
+      setLocation(`/notes?note=${note.id}`);
+    },
+    onError,
+  });
+
+  const createGoalMutation = useMutation({
+    mutationFn: (title: string) => apiRequest<Goal>("POST", "/api/goals", { title, category: "personal" }),
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      setLocation(`/goals?goal=${goal.id}`);
+    },
+    onError,
+  });
+
+  const completeGoalMutation = useMutation({
+    mutationFn: (goal: Goal) =>
+      apiRequest<Goal>("PATCH", `/api/goals/${goal.id}`, { completed: true, progress: 100 }),
+    onSuccess: (goal) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      toast({
+        title: "Goal completed",
+        description: goal.title,
+      });
+    },
+    onError,
+  });
+
+  const askMutation = useMutation({
+    mutationFn: (message: string) => apiRequest<ChatResponse>("POST", "/api/chat", { message }),
+    onMutate: () => {
+      toast({
+        title: "Asking AstraMind...",
+        description: "The conversation opens when the reply is ready.",
+      });
+    },
+    onSuccess: ({ conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      setLocation(`/chat?conversation=${conversationId}`);
+    },
+    onError,
+  });
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const startMode = (next: Mode) => {
+    setMode(next);
+    setInput("");
+  };
+
+  const submitPrompt = (prompt: Prompt) => {
+    const text = input.trim();
+    if (!text) return;
+    run(() => {
+      if (prompt === "new-note") createNoteMutation.mutate(text);
+      else if (prompt === "new-goal") createGoalMutation.mutate(text);
+      else askMutation.mutate(text);
+    });
+  };
+
+  const activeGoals = goals?.filter((g) => !g.completed && g.kind !== "habit") ?? [];
+  const PromptIcon = isPrompt(mode) ? prompts[mode].icon : null;
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen} filter={filterByKeywords}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        onKeyDown={(e) => {
+          // Backspace on an empty input leaves a sub-list
+          if (e.key === "Backspace" && !input && mode !== "root") {
+            e.preventDefault();
+            startMode("root");
+          }
+        }}
+        placeholder={
+          isPrompt(mode)
+            ? prompts[mode].placeholder
+            : mode === "complete-goal"
+              ? "Which goal did you complete?"
+              : "Search pages, conversations, goals and notes..."
+        }
+        data-testid="input-command-palette"
+      />
+      <CommandList>
+        {isPrompt(mode) ? (
+          input.trim() ? (
+            // The input itself is the value, so the filter always keeps this item
+            <CommandItem value={input} onSelect={() => submitPrompt(mode)} data-testid="command-submit-prompt">
+              {PromptIcon && <PromptIcon className="mr-2" />}
+              <span className="truncate">
+                {prompts[mode].label}: <span className="font-medium">{input.trim()}</span>
+              </span>
+              <CommandShortcut>↵</CommandShortcut>
+            </CommandItem>
+          ) : (
+            <p className="py-6 text-center text-sm text-muted-foreground">Type, then press Enter</p>
+          )
+        ) : mode === "complete-goal" ? (
+          <>
+            <CommandEmpty>No active goals found.</CommandEmpty>
+            <CommandGroup heading="Active goals">
+              {activeGoals.map((goal) => (
+                <CommandItem
+                  key={goal.id}
+                  value={`complete-${goal.id}`}
+                  keywords={[goal.title]}
+                  onSelect={() => run(() => completeGoalMutation.mutate(goal))}
+                  data-testid={`command-complete-goal-${goal.id}`}
+                >
+                  <CheckCircle2 className="mr-2" />
+                  <span className="truncate">{goal.title}</span>
+                  <CommandShortcut>{goal.progress}%</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        ) : (
+          <>
+            <CommandEmpty>No results found.</CommandEmpty>
+            <CommandGroup heading="Actions">
+              <CommandItem value="action-new-note" keywords={["New note", "create"]} onSelect={() => startMode("new-note")}>
+                <StickyNote className="mr-2" />
+                New note
+              </CommandItem>
+              <CommandItem value="action-new-goal" keywords={["New goal", "create"]} onSelect={() => startMode("new-goal")}>
+                <Target className="mr-2" />
+                New goal
+              </CommandItem>
+              <CommandItem
+                value="action-complete-goal"
+                keywords={["Mark goal complete", "finish done"]}
+                onSelect={() => startMode("complete-goal")}
+              >
+                <CheckCircle2 className="mr-2" />
+                Mark goal complete
+              </CommandItem>
+              <CommandItem value="action-ask" keywords={["Ask AstraMind", "chat question"]} onSelect={() => startMode("ask")}>
+                <Sparkles className="mr-2" />
+                Ask AstraMind…
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+            <CommandGroup heading="Go to">
+              {menuItems.map((item) => (
+                <CommandItem
+                  key={item.url}
+                  value={`page-${item.url}`}
+                  keywords={[item.title]}
+                  onSelect={() => run(() => setLocation(item.url))}
+                >
+                  <item.icon className="mr-2" />
+                  {item.title}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {conversations && conversations.length > 0 && (
+              <CommandGroup heading="Conversations">
+                {conversations.map((conversation) => (
+                  <CommandItem
+                    key={conversation.id}
+                    value={`conversation-${conversation.id}`}
+                    keywords={[conversation.title]}
+                    onSelect={() => run(() => setLocation(`/chat?conversation=${conversation.id}`))}
+                  >
+                    <MessageSquare className="mr-2" />
+                    <span className="truncate">{conversation.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {goals && goals.length > 0 && (
+              <CommandGroup heading="Goals">
+                {goals.map((goal) => (
+                  <CommandItem
+                    key={goal.id}
+                    value={`goal-${goal.id}`}
+                    keywords={[goal.title]}
+                    onSelect={() => run(() => setLocation(`/goals?goal=${goal.id}`))}
+                  >
+                    <Target className="mr-2" />
+                    <span className="truncate">{goal.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {notes && notes.length > 0 && (
+              <CommandGroup heading="Notes">
+                {notes.map((note) => (
+                  <CommandItem
+                    key={note.id}
+                    value={`note-${note.id}`}
+                    keywords={[note.title]}
+                    onSelect={() => run(() => setLocation(`/notes?note=${note.id}`))}
+                  >
+                    <StickyNote className="mr-2" />
+                    <span className="truncate">{note.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
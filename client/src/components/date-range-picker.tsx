@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+// A button showing a range of days that opens a two-month calendar to pick
+// another. The range is only passed on once both ends are chosen.
+export function DateRangePicker({
+  value,
+  onChange,
+  maxDays,
+}: {
+  value: { from: Date; to: Date };
+  onChange: (range: { from: Date; to: Date }) => void;
+  maxDays?: number;
+}) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(value);
+
+  const select = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ from: range.from, to: range.to });
+      setOpen(false);
+    }
+  };
+
+  const tooLong = (day: Date) =>
+    !!maxDays &&
+    !!draft?.from &&
+    !draft.to &&
+    Math.abs(day.getTime() - draft.from.getTime()) >= maxDays * 24 * 60 * 60 * 1000;
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setDraft(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal" data-testid="button-date-range">
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {format(value.from, "MMM d, yyyy")} – {format(value.to, "MMM d, yyyy")}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={value.from}
+          selected={draft}
+          onSelect={select}
+          disabled={[{ after: new Date() }, tooLong]}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
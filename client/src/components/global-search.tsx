@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Loader2, MessageSquare, Search, StickyNote, Target } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useSearchResults } from "@/hooks/use-search-results";
+import type { SearchResult, SearchSnippetPart } from "@shared/schema";
+
+const resultIcons = {
+  note: StickyNote,
+  goal: Target,
+  message: MessageSquare,
+};
+
+export function searchResultHref(result: SearchResult) {
+  switch (result.type) {
+    case "note":
+      return `/notes?note=${result.id}`;
+    case "goal":
+      return `/goals?goal=${result.id}`;
+    case "message":
+      return `/chat?conversation=${result.conversationId}`;
+  }
+}
+
+// Snippet text with the query's hits marked
+export function SearchSnippet({ parts, className }: { parts: SearchSnippetPart[]; className?: string }) {
+  return (
+    <span className={className}>
+      {parts.map((part, i) =>
+        part.match ? (
+          <mark key={i} className="rounded-sm bg-primary/25 px-0.5 text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </span>
+  );
+}
+
+// Header search box over notes, goals and chat messages. Arrow keys move
+// through the results and Enter opens one.
+export function GlobalSearch() {
+  const [input, setInput] = useState("");
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const [, setLocation] = useLocation();
+  const { query, results, isSearching } = useSearchResults(input);
+
+  const openResult = (result: SearchResult) => {
+    setLocation(searchResultHref(result));
+    setOpen(false);
+    setInput("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setOpen(false);
+      e.currentTarget.blur();
+      return;
+    }
+    if (!results?.length) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => (i + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (i - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(results[Math.min(active, results.length - 1)]);
+    }
+  };
+
+  return (
+    <div className="relative w-full max-w-md">
+      <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        value={input}
+        onChange={(e) => {
+          setInput(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search notes, goals and chats..."
+        className="pl-9"
+        data-testid="input-global-search"
+      />
+      {isSearching && input.trim() && (
+        <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+      )}
+
+      {open && query && results && (
+        <div
+          className="absolute left-0 right-0 top-full z-50 mt-2 max-h-[60vh] overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          // Keep focus in the input so clicking a result doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          data-testid="global-search-results"
+        >
+          {results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">No results for "{query}"</p>
+          ) : (
+            results.map((result, i) => {
+              const Icon = resultIcons[result.type];
+              return (
+                <button
+                  key={`${result.type}-${result.id}`}
+                  type="button"
+                  onClick={() => openResult(result)}
+                  onMouseEnter={() => setActive(i)}
+                  className={`flex w-full items-start gap-3 rounded-sm px-3 py-2 text-left ${
+                    i === active ? "bg-accent text-accent-foreground" : ""
+                  }`}
+                  data-testid={`search-result-${result.type}-${result.id}`}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <p className="truncate text-sm font-medium">{result.title}</p>
+                    {result.snippet.length > 0 && (
+                      <SearchSnippet parts={result.snippet} className="block line-clamp-2 text-xs text-muted-foreground" />
+                    )}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
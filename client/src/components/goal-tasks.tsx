@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ChevronDown, ListChecks, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Goal, GoalTask, InsertGoalTask } from "@shared/schema";
+
+// Expandable checklist of a goal's tasks. In "tasks" progress mode the server
+// derives the goal's progress from the completed tasks' weights.
+export function GoalTasks({ goal }: { goal: Goal }) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [weight, setWeight] = useState("1");
+  const { toast } = useToast();
+  const tasksKey = ["/api/goals", goal.id, "tasks"];
+
+  const { data: tasks } = useQuery<GoalTask[]>({
+    queryKey: tasksKey,
+    enabled: open,
+  });
+
+  // Task changes can move the goal's progress and add activity entries
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: tasksKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals"], exact: true });
+    queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+  };
+
+  const onError = () => {
+    toast({
+      title: "Error",
+      description: "Failed to update the checklist. Please try again.",
+      variant: "destructive",
+    });
+  };
+
+  const createTaskMutation = useMutation({
+    mutationFn: (data: InsertGoalTask) => apiRequest<GoalTask>("POST", `/api/goals/${goal.id}/tasks`, data),
+    onSuccess: () => {
+      invalidate();
+      setTitle("");
+      setWeight("1");
+    },
+    onError,
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<InsertGoalTask> }) =>
+      apiRequest<GoalTask>("PATCH", `/api/goals/${goal.id}/tasks/${id}`, data),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/goals/${goal.id}/tasks/${id}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const progressModeMutation = useMutation({
+    mutationFn: (progressMode: Goal["progressMode"]) =>
+      apiRequest<Goal>("PATCH", `/api/goals/${goal.id}`, { progressMode }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError,
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    createTaskMutation.mutate({ title: title.trim(), weight: Math.max(1, parseInt(weight) || 1) });
+  };
+
+  const completedCount = tasks?.filter((t) => t.completed).length ?? 0;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen}>
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+          data-testid={`button-toggle-tasks-${goal.id}`}
+        >
+          <ListChecks className="h-4 w-4" />
+          <span>Checklist</span>
+          {tasks && tasks.length > 0 && (
+            <span className="font-mono text-xs">
+              {completedCount}/{tasks.length}
+            </span>
+          )}
+          <ChevronDown className={`ml-auto h-4 w-4 transition-transform ${open ? "rotate-180" : ""}`} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`progress-mode-${goal.id}`}
+            checked={goal.progressMode === "tasks"}
+            onCheckedChange={(checked) => progressModeMutation.mutate(checked ? "tasks" : "manual")}
+            disabled={progressModeMutation.isPending}
+            data-testid={`switch-progress-mode-${goal.id}`}
+          />
+          <Label htmlFor={`progress-mode-${goal.id}`} className="text-xs text-muted-foreground">
+            Calculate progress from tasks
+          </Label>
+        </div>
+
+        {tasks?.length === 0 && <p className="text-xs text-muted-foreground">No tasks yet.</p>}
+        <ul className="space-y-1">
+          {tasks?.map((task) => (
+            <li key={task.id} className="group flex items-center gap-2 text-sm" data-testid={`task-${task.id}`}>
+              <Checkbox
+                checked={task.completed}
+                onCheckedChange={(checked) =>
+                  updateTaskMutation.mutate({ id: task.id, data: { completed: checked === true } })
+                }
+                data-testid={`checkbox-task-${task.id}`}
+              />
+              <span className={`flex-1 min-w-0 truncate ${task.completed ? "line-through text-muted-foreground" : ""}`}>
+                {task.title}
+              </span>
+              {task.weight !== 1 && (
+                <span className="font-mono text-xs text-muted-foreground" title="Weight">
+                  ×{task.weight}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={() => deleteTaskMutation.mutate(task.id)}
+                className="text-muted-foreground opacity-0 hover:text-foreground group-hover:opacity-100"
+                data-testid={`button-delete-task-${task.id}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Add a task..."
+            className="h-8 text-sm"
+            data-testid={`input-task-title-${goal.id}`}
+          />
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            title="Weight"
+            className="h-8 w-16 text-sm"
+            data-testid={`input-task-weight-${goal.id}`}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            className="h-8"
+            disabled={!title.trim() || createTaskMutation.isPending}
+            data-testid={`button-add-task-${goal.id}`}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </form>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
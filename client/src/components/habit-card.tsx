@@ -0,0 +1,169 @@
+import { useMutation } from "@tanstack/react-query";
+import { Check, Flame, Repeat, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Goal, HabitStatus } from "@shared/schema";
+import { addDays, describeRecurrence, isScheduled, parseRecurrence, startOfWeek } from "@shared/recurrence";
+
+const weekdayLabels = ["M", "T", "W", "T", "F", "S", "S"];
+
+function formatStreak(count: number, unit: "days" | "weeks") {
+  const noun = unit === "weeks" ? "week" : "day";
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// One column per week (Monday on top), oldest on the left, ending with this week.
+// Past days can be toggled to backfill or undo a check-in.
+function HabitGrid({
+  goal,
+  status,
+  weeks,
+  onToggle,
+  disabled,
+}: {
+  goal: Goal;
+  status: HabitStatus;
+  weeks: number;
+  onToggle: (date: string, checkedIn: boolean) => void;
+  disabled: boolean;
+}) {
+  const recurrence = parseRecurrence(goal.recurrence ?? "");
+  const checkins = new Set(status.checkins);
+  const firstWeek = addDays(startOfWeek(status.today), -7 * (weeks - 1));
+
+  return (
+    <div className="flex gap-1" data-testid={`habit-grid-${goal.id}`}>
+      <div className="flex flex-col gap-1 pr-1">
+        {weekdayLabels.map((label, i) => (
+          <span key={i} className="h-3 text-[9px] leading-3 text-muted-foreground font-mono">
+            {i % 2 === 0 ? label : ""}
+          </span>
+        ))}
+      </div>
+      {Array.from({ length: weeks }, (_, week) => (
+        <div key={week} className="flex flex-col gap-1">
+          {Array.from({ length: 7 }, (_, day) => {
+            const date = addDays(firstWeek, week * 7 + day);
+            if (date > status.today) return <span key={day} className="h-3 w-3" />;
+
+            const checkedIn = checkins.has(date);
+            const active = date >= status.start;
+            const scheduled = active && !!recurrence && isScheduled(recurrence, status.start, date);
+            return (
+              <button
+                key={day}
+                type="button"
+                title={date}
+                disabled={!active || disabled}
+                onClick={() => onToggle(date, checkedIn)}
+                className={`h-3 w-3 rounded-sm ${
+                  checkedIn
+                    ? "bg-primary"
+                    : scheduled
+                      ? "bg-muted-foreground/30 hover:bg-muted-foreground/50"
+                      : active
+                        ? "bg-muted hover:bg-muted-foreground/30"
+                        : "bg-muted/40"
+                } ${date === status.today ? "ring-1 ring-foreground/50" : ""}`}
+                data-testid={`habit-day-${goal.id}-${date}`}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// A habit with today's check-in button, its streaks and a grid of recent weeks
+export function HabitCard({
+  goal,
+  status,
+  weeks = 12,
+  onDelete,
+}: {
+  goal: Goal;
+  status: HabitStatus;
+  weeks?: number;
+  onDelete?: () => void;
+}) {
+  const { toast } = useToast();
+
+  const checkinMutation = useMutation({
+    mutationFn: ({ date, checkedIn }: { date: string; checkedIn: boolean }) =>
+      checkedIn
+        ? apiRequest<HabitStatus>("DELETE", `/api/goals/${goal.id}/checkins/${date}`)
+        : apiRequest<HabitStatus>("POST", `/api/goals/${goal.id}/checkins`, { date }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<HabitStatus[]>(["/api/habits"], (old) =>
+        old?.map((s) => (s.goalId === updated.goalId ? updated : s))
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check-in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkedInToday = status.checkins.includes(status.today);
+
+  return (
+    <Card data-testid={`habit-${goal.id}`}>
+      <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
+        <div className="flex-1 min-w-0 space-y-1">
+          <CardTitle className="text-lg leading-tight truncate">{goal.title}</CardTitle>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Repeat className="h-3 w-3" />
+            <span>{describeRecurrence(goal.recurrence ?? "")}</span>
+          </div>
+        </div>
+        <Badge variant="secondary">{goal.category}</Badge>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4 text-sm">
+          <div className="flex items-center gap-1" data-testid={`habit-streak-${goal.id}`}>
+            <Flame className={`h-4 w-4 ${status.streak.current > 0 ? "text-orange-500" : "text-muted-foreground"}`} />
+            <span className="font-mono font-medium">{formatStreak(status.streak.current, status.streak.unit)}</span>
+          </div>
+          <span className="text-xs text-muted-foreground font-mono">
+            Best: {formatStreak(status.streak.longest, status.streak.unit)}
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <HabitGrid
+            goal={goal}
+            status={status}
+            weeks={weeks}
+            disabled={checkinMutation.isPending}
+            onToggle={(date, checkedIn) => checkinMutation.mutate({ date, checkedIn })}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant={checkedInToday ? "secondary" : "outline"}
+            size="sm"
+            className="flex-1"
+            disabled={checkinMutation.isPending}
+            onClick={() => checkinMutation.mutate({ date: status.today, checkedIn: checkedInToday })}
+            data-testid={`button-checkin-${goal.id}`}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            {checkedInToday ? "Done today" : "Check in"}
+          </Button>
+          {onDelete && (
+            <Button variant="ghost" size="sm" onClick={onDelete} data-testid={`button-delete-habit-${goal.id}`}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
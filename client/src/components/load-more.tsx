@@ -0,0 +1,44 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PagedList } from "@/hooks/use-paged-list";
+
+// Loads the next page of a list once the end of it scrolls into view. The
+// button is there for when that can't happen on its own: a failed load, or
+// no IntersectionObserver.
+export function LoadMore({ list }: { list: PagedList }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const { hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage } = list;
+
+  useEffect(() => {
+    const sentinel = ref.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage || isFetchNextPageError) return;
+    if (typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) fetchNextPage();
+      },
+      { rootMargin: "300px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, isFetchNextPageError, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center pt-4">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => fetchNextPage()}
+        disabled={isFetchingNextPage}
+        data-testid="button-load-more"
+      >
+        {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {isFetchNextPageError ? "Try again" : "Load more"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useRef, useState } from "react";
+import ReactMarkdown, { type Components, type Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { Link } from "wouter";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { findWikiLinks, wikiLinkHref } from "@shared/wiki-links";
+
+// Sanitize first so raw HTML never reaches the page; highlighting then adds
+// its own token classes
+const remarkPlugins: Options["remarkPlugins"] = [remarkGfm];
+const rehypePlugins: Options["rehypePlugins"] = [rehypeSanitize, rehypeHighlight];
+
+// The parts of the markdown syntax tree the wiki link plugin touches
+type MdNode = { type: string; value?: string; url?: string; children?: MdNode[] };
+
+// Splits text nodes around [[links]], leaving existing links and code alone
+function linkWikiLinks(node: MdNode) {
+  if (!node.children || node.type === "link" || node.type === "linkReference") return;
+
+  node.children = node.children.flatMap((child): MdNode[] => {
+    if (child.type !== "text") {
+      linkWikiLinks(child);
+      return [child];
+    }
+
+    const text = child.value ?? "";
+    const parts: MdNode[] = [];
+    let end = 0;
+    for (const link of findWikiLinks(text)) {
+      if (link.index > end) parts.push({ type: "text", value: text.slice(end, link.index) });
+      parts.push({ type: "link", url: wikiLinkHref(link.title), children: [{ type: "text", value: link.label }] });
+      end = link.index + link.length;
+    }
+    if (end === 0) return [child];
+    if (end < text.length) parts.push({ type: "text", value: text.slice(end) });
+    return parts;
+  });
+}
+
+const remarkWikiLinks = () => (tree: MdNode) => linkWikiLinks(tree);
+const wikiRemarkPlugins: Options["remarkPlugins"] = [remarkGfm, remarkWikiLinks];
+
+function CodeBlock({ children, ...props }: React.ComponentProps<"pre">) {
+  const ref = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(ref.current?.textContent ?? "");
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="group/code relative not-prose my-3">
+      <pre ref={ref} {...props} className="overflow-x-auto rounded-md border bg-muted p-3 text-xs leading-relaxed">
+        {children}
+      </pre>
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        onClick={copy}
+        className="absolute right-1.5 top-1.5 h-7 w-7 opacity-0 group-hover/code:opacity-100 focus-visible:opacity-100"
+        title={copied ? "Copied" : "Copy code"}
+        data-testid="button-copy-code"
+      >
+        {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+      </Button>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ node: _node, ...props }) => <CodeBlock {...props} />,
+  // Links within the app navigate in place; links to other sites open in a new tab
+  a: ({ node: _node, href, ...props }) =>
+    href?.startsWith("/") ? (
+      <Link href={href} {...props} />
+    ) : href?.startsWith("#") ? (
+      <a href={href} {...props} />
+    ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer" {...props} />
+    ),
+  table: ({ node: _node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+// Markdown (GitHub flavored: tables, task lists, strikethrough, autolinks)
+// rendered with the typography styles; raw HTML is stripped. With `wikiLinks`,
+// [[Note Title]] becomes a link to that note.
+export function Markdown({
+  content,
+  className,
+  wikiLinks = false,
+}: {
+  content: string;
+  className?: string;
+  wikiLinks?: boolean;
+}) {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm dark:prose-invert max-w-none break-words",
+        "prose-code:rounded prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:font-normal prose-code:before:content-none prose-code:after:content-none",
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={wikiLinks ? wikiRemarkPlugins : remarkPlugins}
+        rehypePlugins={rehypePlugins}
+        components={components}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Link } from "wouter";
+import { Target, StickyNote, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { MemoryCitation } from "@shared/schema";
+
+const citationIcons = {
+  note: StickyNote,
+  goal: Target,
+  conversation: MessageSquare,
+};
+
+function citationHref(citation: MemoryCitation) {
+  switch (citation.type) {
+    case "note":
+      return `/notes?note=${citation.id}`;
+    case "goal":
+      return `/goals?goal=${citation.id}`;
+    case "conversation":
+      return `/chat?conversation=${citation.id}`;
+  }
+}
+
+// "Used: ..." chips under a reply, linking to the memories it was given
+export function MemoryCitations({ citations }: { citations: MemoryCitation[] }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-1" data-testid="memory-citations">
+      <span className="text-xs text-muted-foreground">Used:</span>
+      {citations.map((citation) => {
+        const Icon = citationIcons[citation.type];
+        return (
+          <Link key={`${citation.type}-${citation.id}`} href={citationHref(citation)}>
+            <Badge
+              variant="outline"
+              className="cursor-pointer hover-elevate gap-1 font-normal max-w-[14rem]"
+              data-testid={`citation-${citation.type}-${citation.id}`}
+            >
+              <Icon className="h-3 w-3 shrink-0" />
+              <span className="truncate">{citation.title}</span>
+            </Badge>
+          </Link>
+        );
+      })}
+    </div>
+  );
+}
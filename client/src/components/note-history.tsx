@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { diffLines, type DiffLine } from "@/lib/line-diff";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { Note, NoteRevision } from "@shared/schema";
+
+// Unchanged lines shown around each change; longer runs are folded
+const CONTEXT_LINES = 3;
+
+// "current" or a revision number
+type VersionKey = string;
+
+type Version = { key: VersionKey; label: string; title: string; content: string; tags: string[]; savedAt: Date };
+
+function versionsOf(note: Note, revisions: NoteRevision[]): Version[] {
+  return [
+    { key: "current", label: "Current", title: note.title, content: note.content, tags: note.tags ?? [], savedAt: note.updatedAt },
+    ...revisions.map((r) => ({
+      key: String(r.revision),
+      label: `Revision ${r.revision}`,
+      title: r.title,
+      content: r.content,
+      tags: r.tags ?? [],
+      savedAt: r.savedAt,
+    })),
+  ];
+}
+
+// Diff lines with long unchanged runs replaced by a count
+function foldUnchanged(lines: DiffLine[]): (DiffLine | { type: "folded"; count: number })[] {
+  const changed = lines.map((line) => line.type !== "same");
+  const nearChange = (i: number) =>
+    changed.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1).some(Boolean);
+
+  const folded: (DiffLine | { type: "folded"; count: number })[] = [];
+  lines.forEach((line, i) => {
+    if (nearChange(i)) {
+      folded.push(line);
+      return;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.type === "folded") last.count++;
+    else folded.push({ type: "folded", count: 1 });
+  });
+  return folded;
+}
+
+function DiffView({ before, after }: { before: Version; after: Version }) {
+  const lines = foldUnchanged(diffLines(before.content, after.content));
+  const tagsBefore = before.tags.join(", ");
+  const tagsAfter = after.tags.join(", ");
+
+  return (
+    <div className="space-y-3" data-testid="note-diff">
+      {before.title !== after.title && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">Title: </span>
+          <del className="text-destructive">{before.title}</del> → <ins className="no-underline">{after.title}</ins>
+        </p>
+      )}
+      {tagsBefore !== tagsAfter && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">Tags: </span>
+          <del className="text-destructive">{tagsBefore || "none"}</del> →{" "}
+          <ins className="no-underline">{tagsAfter || "none"}</ins>
+        </p>
+      )}
+      {before.content === after.content ? (
+        <p className="text-sm text-muted-foreground">The content is the same.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border font-mono text-xs">
+          {lines.map((line, i) =>
+            line.type === "folded" ? (
+              <div key={i} className="bg-muted px-3 py-1 text-muted-foreground">
+                ⋯ {line.count} unchanged {line.count === 1 ? "line" : "lines"}
+              </div>
+            ) : (
+              <div
+                key={i}
+                className={cn(
+                  "flex whitespace-pre",
+                  line.type === "added" && "bg-green-500/15",
+                  line.type === "removed" && "bg-red-500/15"
+                )}
+              >
+                <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+                  {line.oldLine ?? ""}
+                </span>
+                <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">
+                  {line.newLine ?? ""}
+                </span>
+                <span className="w-4 shrink-0 select-none">
+                  {line.type === "added" ? "+" : line.type === "removed" ? "-" : ""}
+                </span>
+                <span className="pr-3">{line.text || " "}</span>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Earlier versions of a note, a diff between any two of them, and restoring one
+export function NoteHistory({
+  note,
+  open,
+  onOpenChange,
+}: {
+  note: Note;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  // Defaults to the latest change: the newest revision against the current version
+  const [fromKey, setFromKey] = useState<VersionKey | null>(null);
+  const [toKey, setToKey] = useState<VersionKey>("current");
+  const { toast } = useToast();
+
+  const { data: revisions, isLoading } = useQuery<NoteRevision[]>({
+    queryKey: ["/api/notes", note.id, "revisions"],
+    enabled: open,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: number) =>
+      apiRequest<Note>("POST", `/api/notes/${note.id}/revisions/${revision}/restore`),
+    onSuccess: (_restored, revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      setFromKey(null);
+      setToKey("current");
+      toast({
+        title: "Revision restored",
+        description: `Revision ${revision} is now the current version.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const versions = versionsOf(note, revisions ?? []);
+  const from = versions.find((v) => v.key === fromKey) ?? versions[1];
+  const to = versions.find((v) => v.key === toKey) ?? versions[0];
+
+  const versionSelect = (value: VersionKey | undefined, onChange: (key: VersionKey) => void, testId: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.key} value={version.key}>
+            {version.label} · {format(new Date(version.savedAt), "MMM d, h:mm a")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            History
+          </SheetTitle>
+          <SheetDescription className="truncate">{note.title}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {isLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : !from ? (
+            <p className="py-12 text-center text-sm text-muted-foreground" data-testid="text-no-revisions">
+              No earlier versions yet. Each time the note is edited, the version it replaces is kept here.
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>From</Label>
+                  {versionSelect(from.key, setFromKey, "select-revision-from")}
+                </div>
+                <div className="space-y-1.5">
+                  <Label>To</Label>
+                  {versionSelect(to.key, setToKey, "select-revision-to")}
+                </div>
+              </div>
+
+              {from.key !== "current" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => restoreMutation.mutate(Number(from.key))}
+                  disabled={restoreMutation.isPending}
+                  data-testid="button-restore-revision"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore {from.label.toLowerCase()}
+                </Button>
+              )}
+
+              {from.key === to.key ? (
+                <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+              ) : (
+                <DiffView before={from} after={to} />
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { describeRecurrence, isValidRecurrence } from "@shared/recurrence";
+
+type Preset = "daily" | "weekdays" | "per_week" | "custom";
+
+function presetOf(rule: string): Preset {
+  if (rule === "daily" || rule === "weekdays") return rule;
+  if (/^weekly:\d$/.test(rule)) return "per_week";
+  return "custom";
+}
+
+// Picks a habit's recurrence rule (see shared/recurrence.ts): a preset, a
+// number of days per week, or a custom RRULE such as FREQ=WEEKLY;BYDAY=MO,WE,FR
+export function RecurrencePicker({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (rule: string) => void;
+}) {
+  const [preset, setPreset] = useState<Preset>(presetOf(value));
+  const [custom, setCustom] = useState(presetOf(value) === "custom" ? value : "");
+  const perWeek = preset === "per_week" ? Number(value.split(":")[1]) || 3 : 3;
+
+  const choosePreset = (next: Preset) => {
+    setPreset(next);
+    if (next === "daily" || next === "weekdays") onChange(next);
+    else if (next === "per_week") onChange(`weekly:${perWeek}`);
+    else onChange(custom);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select value={preset} onValueChange={(v) => choosePreset(v as Preset)}>
+          <SelectTrigger data-testid="select-habit-recurrence">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="daily">Every day</SelectItem>
+            <SelectItem value="weekdays">Weekdays</SelectItem>
+            <SelectItem value="per_week">Times per week</SelectItem>
+            <SelectItem value="custom">Custom rule</SelectItem>
+          </SelectContent>
+        </Select>
+        {preset === "per_week" && (
+          <Input
+            type="number"
+            min={1}
+            max={7}
+            value={perWeek}
+            onChange={(e) => onChange(`weekly:${Math.min(7, Math.max(1, parseInt(e.target.value) || 1))}`)}
+            className="w-20"
+            data-testid="input-habit-per-week"
+          />
+        )}
+      </div>
+      {preset === "custom" && (
+        <Input
+          placeholder="e.g., FREQ=WEEKLY;BYDAY=MO,WE,FR"
+          value={custom}
+          onChange={(e) => {
+            setCustom(e.target.value);
+            onChange(e.target.value.trim());
+          }}
+          className="font-mono text-sm"
+          data-testid="input-habit-rrule"
+        />
+      )}
+      {value && isValidRecurrence(value) && (
+        <p className="text-xs text-muted-foreground">{describeRecurrence(value)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { ArrowRight, Lightbulb, RefreshCw, ScrollText, Sparkles } from "lucide-react";
+import type { Summary, SummaryPeriod } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export const SUMMARIES_PATH = "/api/summaries";
+
+export const periodNames: Record<SummaryPeriod, string> = { day: "Day", week: "Week", month: "Month" };
+
+// e.g. "Tuesday, March 4, 2025", "Mar 3 - Mar 9, 2025", "March 2025"
+export function periodLabel({ period, start, end }: Pick<Summary, "period" | "start" | "end">): string {
+  const day = (date: string, pattern: string) => format(parseISO(date), pattern);
+  switch (period) {
+    case "day":
+      return day(start, "EEEE, MMMM d, yyyy");
+    case "week":
+      return `${day(start, "MMM d")} - ${day(end, "MMM d, yyyy")}`;
+    case "month":
+      return day(start, "MMMM yyyy");
+  }
+}
+
+// Writes the review of the period again, from what has happened since
+export function useRegenerateSummary() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: ({ period, date }: { period: SummaryPeriod; date: string }) =>
+      apiRequest<Summary>("POST", `${SUMMARIES_PATH}/${period}/${date}/regenerate`, {}),
+    onSuccess: (summary, { date }) => {
+      queryClient.setQueryData([SUMMARIES_PATH, summary.period, date], summary);
+      queryClient.invalidateQueries({ queryKey: [SUMMARIES_PATH], exact: true });
+    },
+    onError: (error) => {
+      toast({
+        title: "Couldn't write the review",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+export function SummaryContent({ summary }: { summary: Summary }) {
+  const { stats } = summary;
+  const figures = [
+    { label: "Chats", value: stats.chats },
+    { label: "Completions", value: stats.completions },
+    { label: "Progress", value: `+${stats.progress}%` },
+    { label: "Notes", value: stats.notesUpdated },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-lg font-medium leading-snug" data-testid={`summary-headline-${summary.id}`}>
+        {summary.headline}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {figures.map((figure) => (
+          <Badge key={figure.label} variant="secondary" className="font-mono">
+            {figure.label}: {figure.value}
+          </Badge>
+        ))}
+      </div>
+      {summary.highlights.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <Sparkles className="h-4 w-4 text-primary" />
+            Highlights
+          </h4>
+          <ul className="list-disc space-y-1 pl-6 text-sm text-muted-foreground">
+            {summary.highlights.map((line, idx) => (
+              <li key={idx}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {summary.suggestions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="flex items-center gap-2 text-sm font-medium">
+            <Lightbulb className="h-4 w-4 text-yellow-500" />
+            Suggestions
+          </h4>
+          <ul className="list-disc space-y-1 pl-6 text-sm text-muted-foreground">
+            {summary.suggestions.map((line, idx) => (
+              <li key={idx}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The review of the current day, week or month. Each is written on first
+// view and kept; Regenerate brings one still under way up to date.
+export function ReviewCard() {
+  const [period, setPeriod] = useState<SummaryPeriod>("day");
+  const { data: summary, isLoading, isError } = useQuery<Summary>({
+    queryKey: [SUMMARIES_PATH, period, "current"],
+  });
+  const regenerate = useRegenerateSummary();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-4">
+        <div className="space-y-1">
+          <CardTitle className="text-2xl">Your Review</CardTitle>
+          <CardDescription>{summary ? periodLabel(summary) : "An AI look back at your progress"}</CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as SummaryPeriod)}>
+            <TabsList>
+              {(Object.keys(periodNames) as SummaryPeriod[]).map((p) => (
+                <TabsTrigger key={p} value={p} data-testid={`tab-review-${p}`}>
+                  {periodNames[p]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => regenerate.mutate({ period, date: "current" })}
+            disabled={!summary || regenerate.isPending}
+            title="Regenerate"
+            data-testid="button-regenerate-review"
+          >
+            <RefreshCw className={`h-4 w-4 ${regenerate.isPending ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-6 w-3/4" />
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : isError || !summary ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">The review couldn't be written right now.</p>
+        ) : (
+          <SummaryContent summary={summary} />
+        )}
+        <Button variant="ghost" size="sm" asChild data-testid="link-view-all-reviews">
+          <Link href="/reviews">
+            <ScrollText className="mr-2 h-4 w-4" />
+            Past reviews
+            <ArrowRight className="ml-2 h-4 w-4" />
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+import { forwardRef, useRef, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+const MAX_SUGGESTIONS = 8;
+
+// An unfinished [[link right before the caret
+const OPEN_LINK = /\[\[([^\[\]|\n]*)$/;
+
+type WikiLinkTextareaProps = Omit<React.ComponentProps<"textarea">, "value" | "onChange"> & {
+  value: string;
+  onValueChange: (value: string) => void;
+  titles: string[]; // note titles to suggest
+};
+
+// A textarea that suggests note titles after [[ and completes the link. It has
+// aria-expanded set while suggestions show, so that a dialog around it can
+// leave Escape to close them (see isClosingSuggestions).
+export const WikiLinkTextarea = forwardRef<HTMLTextAreaElement, WikiLinkTextareaProps>(
+  ({ value, onValueChange, titles, onKeyDown, onBlur, className, ...props }, ref) => {
+    const innerRef = useRef<HTMLTextAreaElement | null>(null);
+    // Where the typed part of the title starts, while a link is open
+    const [linkStart, setLinkStart] = useState<number | null>(null);
+    const [query, setQuery] = useState("");
+    const [highlighted, setHighlighted] = useState(0);
+
+    const needle = query.trim().toLowerCase();
+    const suggestions =
+      linkStart === null
+        ? []
+        : titles.filter((title) => title.toLowerCase().includes(needle)).slice(0, MAX_SUGGESTIONS);
+
+    const setRefs = (element: HTMLTextAreaElement | null) => {
+      innerRef.current = element;
+      if (typeof ref === "function") ref(element);
+      else if (ref) ref.current = element;
+    };
+
+    // Opens or closes the suggestions for the text before the caret
+    const track = (text: string, caret: number) => {
+      const match = OPEN_LINK.exec(text.slice(0, caret));
+      if (match) {
+        setLinkStart(caret - match[1].length);
+        if (match[1] !== query) setHighlighted(0);
+        setQuery(match[1]);
+      } else {
+        setLinkStart(null);
+      }
+    };
+
+    const complete = (title: string) => {
+      const textarea = innerRef.current;
+      if (!textarea || linkStart === null) return;
+
+      const caret = textarea.selectionStart;
+      const after = value.slice(caret);
+      const closing = after.startsWith("]]") ? "" : "]]";
+      const next = value.slice(0, linkStart) + title + closing + after;
+      const position = linkStart + title.length + 2;
+
+      onValueChange(next);
+      setLinkStart(null);
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(position, position);
+      });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length > 0) {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          setHighlighted((i) => (i + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if (e.key === "Enter" || e.key === "Tab") {
+          e.preventDefault();
+          complete(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+          return;
+        }
+      }
+      if (e.key === "Escape" && linkStart !== null) {
+        setLinkStart(null);
+        return;
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative">
+        <Textarea
+          ref={setRefs}
+          value={value}
+          onChange={(e) => {
+            onValueChange(e.target.value);
+            track(e.target.value, e.target.selectionStart);
+          }}
+          onClick={(e) => track(value, e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onBlur={(e) => {
+            setLinkStart(null);
+            onBlur?.(e);
+          }}
+          className={className}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          {...props}
+        />
+        {suggestions.length > 0 && (
+          <div
+            className="absolute left-0 right-0 top-full z-50 mt-1 max-h-60 overflow-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+            role="listbox"
+            data-testid="wiki-link-suggestions"
+          >
+            {suggestions.map((title, i) => (
+              <div
+                key={title}
+                role="option"
+                aria-selected={i === highlighted}
+                // Keep focus in the textarea so the caret stays put
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  complete(title);
+                }}
+                onMouseEnter={() => setHighlighted(i)}
+                className={cn(
+                  "cursor-pointer truncate rounded-sm px-2 py-1.5 text-sm",
+                  i === highlighted && "bg-accent text-accent-foreground"
+                )}
+                data-testid={`wiki-link-suggestion-${i}`}
+              >
+                {title}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+WikiLinkTextarea.displayName = "WikiLinkTextarea";
+
+// For a dialog's onEscapeKeyDown: whether Escape was pressed to close the
+// suggestions rather than the dialog
+export function isClosingSuggestions(event: KeyboardEvent): boolean {
+  return event.target instanceof HTMLTextAreaElement && event.target.getAttribute("aria-expanded") === "true";
+}
@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Analytics, AnalyticsBucket } from "@shared/schema";
+import { throwIfResNotOk } from "@/lib/queryClient";
+
+export const ANALYTICS_PATH = "/api/analytics";
+
+// Local days, YYYY-MM-DD, both included
+export type AnalyticsParams = { from: string; to: string; bucket: AnalyticsBucket };
+
+// /api/analytics for a range. Keyed under the path, so that invalidating
+// ["/api/analytics"] reloads every range.
+export function useAnalytics(params: AnalyticsParams) {
+  return useQuery<Analytics>({
+    queryKey: [ANALYTICS_PATH, params],
+    queryFn: async () => {
+      const res = await fetch(`${ANALYTICS_PATH}?${new URLSearchParams(params)}`, { credentials: "include" });
+      await throwIfResNotOk(res);
+      return res.json();
+    },
+    // Every mutation logs activity; re-check whenever the page is opened
+    staleTime: 0,
+    placeholderData: (previous) => previous,
+  });
+}
@@ -0,0 +1,108 @@
+import { createContext, type ReactNode, useContext, useEffect } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import type { InsertUser, PublicUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient, throwIfResNotOk } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<PublicUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+// Habit days and streaks are counted in the user's timezone, taken from the browser
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Keep the stored timezone in step with the browser, e.g. after travelling
+  useEffect(() => {
+    if (!user || !browserTimeZone || user.timezone === browserTimeZone) return;
+    apiRequest<PublicUser>("PATCH", "/api/user", { timezone: browserTimeZone })
+      .then((updated) => {
+        queryClient.setQueryData(["/api/user"], updated);
+        queryClient.invalidateQueries({ queryKey: ["/api/habits"] });
+      })
+      .catch(() => {
+        // Unknown to the server's Intl data; streaks keep using the stored timezone
+      });
+  }, [user?.id, user?.timezone]);
+
+  // Signing in or out switches whose data the cache holds, so drop everything
+  const setSignedInUser = (user: PublicUser | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: InsertUser) => apiRequest<PublicUser>("POST", "/api/login", credentials),
+    onSuccess: setSignedInUser,
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: InsertUser) =>
+      apiRequest<PublicUser>("POST", "/api/register", { timezone: browserTimeZone, ...credentials }),
+    onSuccess: setSignedInUser,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/logout", { method: "POST", credentials: "include" });
+      await throwIfResNotOk(res);
+    },
+    onSuccess: () => setSignedInUser(null),
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,143 @@
+import { useEffect } from "react";
+import { hashKey, type QueryKey } from "@tanstack/react-query";
+import type { Activity, ChangeEntity, ChangeEvent } from "@shared/schema";
+import { queryClient, CLIENT_ID } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import { ANALYTICS_PATH } from "@/hooks/use-analytics";
+
+// Invalidations are gathered for this long, so that a burst of changes (an
+// import, a chat reply with tool calls) refetches each query once
+const BATCH_MS = 100;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// The list route whose queries hold each kind of record; detail and
+// sub-resource queries are keyed under it, e.g. ["/api/notes", id, "revisions"]
+const listPaths: Partial<Record<ChangeEntity, string>> = {
+  conversation: "/api/conversations",
+  goal: "/api/goals",
+  note: "/api/notes",
+  activity: "/api/activities",
+};
+
+// Queries to refetch: those under `queryKey`, apart from the exact keys in `keep`
+type Invalidation = { queryKey: QueryKey; keep?: QueryKey[] };
+
+// Swaps an updated record into the list and detail queries that hold it
+function patchRecord(path: string, record: { id: string }) {
+  queryClient.setQueryData<{ id: string }[]>([path], (list) =>
+    list?.map((item) => (item.id === record.id ? record : item))
+  );
+  queryClient.setQueryData([path, record.id], (current) => (current ? record : undefined));
+}
+
+function applyChange(event: ChangeEvent): Invalidation[] {
+  switch (event.entity) {
+    case "workspace":
+      return [{ queryKey: [] }];
+    case "user":
+      return [{ queryKey: ["/api/user"] }];
+    case "message":
+      return [{ queryKey: event.parentId ? ["/api/conversations", event.parentId, "messages"] : ["/api/conversations"] }];
+    case "goal_task":
+      return [{ queryKey: event.parentId ? ["/api/goals", event.parentId, "tasks"] : ["/api/goals"] }];
+    case "habit_checkin":
+      return [{ queryKey: ["/api/habits"] }];
+    case "summary":
+      return [{ queryKey: ["/api/summaries"] }];
+  }
+
+  const path = listPaths[event.entity];
+  if (!path) return [];
+  // Habit status is worked out from the goals, and analytics from activities
+  const related =
+    event.entity === "goal"
+      ? [{ queryKey: ["/api/habits"] }]
+      : event.entity === "activity"
+        ? [{ queryKey: [ANALYTICS_PATH] }]
+        : [];
+
+  // An updated record is patched in place. Pages, counts and sub-resources
+  // may depend on what changed, so they are still refetched.
+  if (event.op === "update" && event.data) {
+    patchRecord(path, event.data as { id: string });
+    return [{ queryKey: [path], keep: [[path], [path, event.id]] }, ...related];
+  }
+  return [{ queryKey: [path] }, ...related];
+}
+
+// Goal reminders come from a background job (server/jobs.ts) and are shown
+// as they arrive
+function notify(event: ChangeEvent) {
+  const activity = event.data as Activity | undefined;
+  if (event.entity === "activity" && event.op === "create" && activity?.type === "goal_reminder") {
+    toast({ title: "Goal reminder", description: activity.description });
+  }
+}
+
+// Keeps the query cache in step with changes made elsewhere: in another tab,
+// on another device, or by the server itself. Listens on the /api/ws
+// WebSocket while `enabled` (i.e. signed in), reconnecting with backoff, and
+// refetches everything after a reconnect since events may have been missed.
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | undefined;
+    let attempts = 0;
+    let stopped = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let flushTimer: ReturnType<typeof setTimeout> | undefined;
+    const pending = new Map<string, Invalidation>();
+
+    const flush = () => {
+      flushTimer = undefined;
+      pending.forEach(({ queryKey, keep }) => {
+        const kept = keep?.map(hashKey);
+        queryClient.invalidateQueries({
+          queryKey,
+          predicate: kept && ((query) => !kept.includes(query.queryHash)),
+        });
+      });
+      pending.clear();
+    };
+
+    const receive = (message: MessageEvent) => {
+      let event: ChangeEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      // This tab's own mutations update the cache themselves
+      if (event.origin === CLIENT_ID) return;
+
+      notify(event);
+      applyChange(event).forEach((invalidation) => pending.set(JSON.stringify(invalidation), invalidation));
+      if (pending.size > 0) flushTimer ??= setTimeout(flush, BATCH_MS);
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/api/ws`);
+      socket.onmessage = receive;
+      socket.onopen = () => {
+        if (attempts > 0) queryClient.invalidateQueries();
+        attempts = 0;
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts += 1;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      clearTimeout(flushTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,62 @@
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { throwIfResNotOk } from "@/lib/queryClient";
+
+const DEFAULT_PAGE_SIZE = 30;
+
+// Query parameters of a list route (sort, order, filters); empty ones are left out
+export type ListParams = Record<string, string | undefined>;
+
+type ListPage<T> = { items: T[]; total: number; nextCursor: string | null };
+
+// One page of a list route. The route answers with the items; the number
+// matching and the next page's cursor come in headers, see server/lists.ts.
+async function fetchListPage<T>(path: string, params: ListParams, cursor?: string): Promise<ListPage<T>> {
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) search.set(key, value);
+  });
+  if (cursor) search.set("cursor", cursor);
+
+  const res = await fetch(`${path}?${search}`, { credentials: "include" });
+  await throwIfResNotOk(res);
+  return {
+    items: await res.json(),
+    total: Number(res.headers.get("X-Total-Count") ?? 0),
+    nextCursor: res.headers.get("X-Next-Cursor"),
+  };
+}
+
+// A list route read a page at a time. Keyed under `path`, so invalidating
+// the plain list (e.g. ["/api/notes"]) reloads it too.
+export function usePagedList<T>(path: string, params: ListParams = {}, pageSize = DEFAULT_PAGE_SIZE) {
+  const query = useInfiniteQuery({
+    queryKey: [path, "pages", params, pageSize],
+    queryFn: ({ pageParam }) => fetchListPage<T>(path, { ...params, limit: String(pageSize) }, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  return {
+    items: query.data?.pages.flatMap((page) => page.items),
+    total: query.data?.pages[0].total,
+    isLoading: query.isLoading,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    isFetchNextPageError: query.isFetchNextPageError,
+    fetchNextPage: query.fetchNextPage,
+  };
+}
+
+export type PagedList = Pick<
+  ReturnType<typeof usePagedList>,
+  "hasNextPage" | "isFetchingNextPage" | "isFetchNextPageError" | "fetchNextPage"
+>;
+
+// How many records of a list route match `params`, without loading them
+export function useListCount(path: string, params: ListParams = {}) {
+  const { data } = useQuery({
+    queryKey: [path, "count", params],
+    queryFn: async () => (await fetchListPage(path, { ...params, limit: "1" })).total,
+  });
+  return data;
+}
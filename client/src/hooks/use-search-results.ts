@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SearchResult, SearchResultType } from "@shared/schema";
+
+const DEBOUNCE_MS = 200;
+
+// Ranked /api/search results for `input`, queried once typing pauses
+export function useSearchResults(input: string, types?: SearchResultType[]) {
+  const [query, setQuery] = useState(input.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const params = new URLSearchParams({ q: query });
+  if (types) params.set("types", types.join(","));
+
+  const { data, isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?${params}`],
+    enabled: query.length > 0,
+    // Notes, goals and messages change all the time; always re-check
+    staleTime: 0,
+    placeholderData: (previous) => previous,
+  });
+
+  return {
+    query,
+    results: query ? data : undefined,
+    isSearching: isFetching || query !== input.trim(),
+  };
+}
@@ -0,0 +1,48 @@
+import type { ChatStreamEvent } from "@shared/schema";
+import { apiRequest, throwIfResNotOk, CLIENT_ID } from "./queryClient";
+
+// Posts a chat message to the streaming endpoint and invokes `onEvent` for every
+// Server-Sent Event until the server closes the stream.
+export async function streamChat(
+  // `edit` sends the message as a new version of an earlier user message;
+  // `regenerate` asks for another reply in place of an assistant message
+  body: { message?: string; conversationId?: string | null; edit?: string; regenerate?: string },
+  onEvent: (event: ChatStreamEvent) => void,
+): Promise<void> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Client-Id": CLIENT_ID },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) return;
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => line.slice(6))
+        .join("\n");
+      if (data) onEvent(JSON.parse(data) as ChatStreamEvent);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
+// Asks the server to stop generating; it saves the partial reply and ends the stream
+export async function stopChatStream(streamId: string): Promise<void> {
+  await apiRequest("POST", `/api/chat/stream/${streamId}/stop`);
+}
@@ -0,0 +1,19 @@
+import type { FieldValues, Path, UseFormReturn } from "react-hook-form";
+import { ApiError } from "@/lib/queryClient";
+
+// Shows the field errors of a failed request under the form's own fields
+// ("tags.2" goes to "tags"). Returns whether it showed any; other failures
+// are left to the caller.
+export function showServerErrors<T extends FieldValues>(form: UseFormReturn<T>, error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+
+  const names = Object.keys(form.getValues());
+  let shown = false;
+  Object.entries(error.fields).forEach(([path, messages]) => {
+    const name = path.split(".")[0];
+    if (!names.includes(name) || !messages.length) return;
+    form.setError(name as Path<T>, { type: "server", message: messages[0] });
+    shown = true;
+  });
+  return shown;
+}
@@ -0,0 +1,68 @@
+export type DiffLine = {
+  type: "same" | "added" | "removed";
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+};
+
+// Past this many cells the LCS table costs too much memory; the changed
+// middle is then shown as removed in full and added in full
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Line-level diff of two texts in reading order, from their longest common
+// subsequence of lines. Where lines were replaced, removals come first.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Only the part between the common prefix and suffix needs the table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: DiffLine[] = [];
+  const same = (i: number, j: number) => lines.push({ type: "same", text: a[i], oldLine: i + 1, newLine: j + 1 });
+  const removed = (i: number) => lines.push({ type: "removed", text: a[i], oldLine: i + 1 });
+  const added = (j: number) => lines.push({ type: "added", text: b[j], newLine: j + 1 });
+
+  for (let k = 0; k < start; k++) same(k, k);
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_TABLE_CELLS) {
+    for (let i = start; i < endA; i++) removed(i);
+    for (let j = start; j < endB; j++) added(j);
+  } else {
+    // common[i * width + j]: LCS length of a[start + i..endA) and b[start + j..endB)
+    const width = m + 1;
+    const common = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        common[i * width + j] =
+          a[start + i] === b[start + j]
+            ? common[(i + 1) * width + j + 1] + 1
+            : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        same(start + i++, start + j++);
+      } else if (i < n && (j === m || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+        removed(start + i++);
+      } else {
+        added(start + j++);
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) same(endA + k, endB + k);
+  return lines;
+}
@@ -1,26 +1,65 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ApiErrorBody, ApiErrorCode, ValidationErrorDetails } from "@shared/schema";
 
-async function throwIfResNotOk(res: Response) {
+// A failed API request, from the error body the API answers with (see
+// server/errors.ts). `fields` holds the messages for each invalid field of a
+// validation_failed error.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code: ApiErrorCode | undefined,
+    public details: unknown,
+    public requestId: string | undefined,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  get fields(): ValidationErrorDetails["fields"] {
+    const details = this.code === "validation_failed" ? (this.details as ValidationErrorDetails | undefined) : undefined;
+    return details?.fields ?? {};
+  }
+}
+
+function errorBodyOf(text: string): ApiErrorBody | undefined {
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body.code === "string" && typeof body.message === "string" ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Identifies this tab to the server. Requests send it as X-Client-Id, and the
+// live updates they cause come back tagged with it, so the tab can skip
+// changes its own mutations have already applied (see use-live-updates).
+export const CLIENT_ID = Math.random().toString(36).slice(2, 12);
+
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    const body = errorBodyOf(text);
+    // Anything else, e.g. a proxy's error page, keeps its status and text
+    if (!body) throw new ApiError(res.status, `${res.status}: ${text}`, undefined, undefined, undefined);
+    throw new ApiError(res.status, body.message, body.code, body.details, body.requestId);
   }
 }
 
-export async function apiRequest(
+export async function apiRequest<T = unknown>(
   method: string,
   url: string,
   data?: unknown | undefined,
-): Promise<Response> {
+): Promise<T> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: { "X-Client-Id": CLIENT_ID, ...(data ? { "Content-Type": "application/json" } : {}) },
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
   await throwIfResNotOk(res);
-  return res;
+  return await res.json();
 }
 
 type UnauthorizedBehavior = "returnNull" | "throw";
@@ -42,6 +81,15 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // A 401 from any query means the session has ended; clearing the user sends
+  // the app back to the sign-in page
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error instanceof ApiError && error.status === 401) {
+        queryClient.setQueryData(["/api/user"], null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
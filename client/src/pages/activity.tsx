@@ -1,47 +1,192 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { Link } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { TrendingUp, MessageSquare, Target, StickyNote, CheckCircle2 } from "lucide-react";
-import type { Activity } from "@shared/schema";
+import {
+  TrendingUp,
+  MessageSquare,
+  Target,
+  StickyNote,
+  CheckCircle2,
+  Flame,
+  Database,
+  Undo2,
+  CalendarClock,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  analyticsBuckets,
+  DEFAULT_ANALYTICS_DAYS,
+  MAX_ANALYTICS_DAYS,
+  type Activity,
+  type ActivityType,
+  type AnalyticsBucket,
+} from "@shared/schema";
 import { format, startOfDay, endOfDay, subDays } from "date-fns";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LoadMore } from "@/components/load-more";
+import { DateRangePicker } from "@/components/date-range-picker";
+import { ActivityHeatmap } from "@/components/activity-heatmap";
+import { AnalyticsCharts } from "@/components/analytics-charts";
+import { useListCount, usePagedList } from "@/hooks/use-paged-list";
+import { useAnalytics } from "@/hooks/use-analytics";
 
-export default function ActivityPage() {
-  const { data: activities, isLoading } = useQuery<Activity[]>({
-    queryKey: ["/api/activities"],
+const ACTIVITIES_PATH = "/api/activities";
+
+const activityStyles: Record<ActivityType, { icon: LucideIcon; color: string }> = {
+  chat: { icon: MessageSquare, color: "text-primary" },
+  chat_action_undone: { icon: Undo2, color: "text-muted-foreground" },
+  conversations_imported: { icon: MessageSquare, color: "text-primary" },
+  goal_created: { icon: Target, color: "text-blue-600 dark:text-blue-500" },
+  goal_updated: { icon: Target, color: "text-blue-600 dark:text-blue-500" },
+  goal_completed: { icon: Target, color: "text-green-600 dark:text-green-500" },
+  task_completed: { icon: Target, color: "text-green-600 dark:text-green-500" },
+  habit_checkin: { icon: Flame, color: "text-orange-500" },
+  note_created: { icon: StickyNote, color: "text-purple-600 dark:text-purple-500" },
+  note_updated: { icon: StickyNote, color: "text-purple-600 dark:text-purple-500" },
+  notes_imported: { icon: StickyNote, color: "text-purple-600 dark:text-purple-500" },
+  workspace_restored: { icon: Database, color: "text-muted-foreground" },
+  goal_reminder: { icon: CalendarClock, color: "text-orange-500" },
+};
+
+// Activity types counted by the stat cards
+const GOAL_TYPES: ActivityType[] = ["goal_created", "goal_updated", "goal_completed"];
+const NOTE_TYPES: ActivityType[] = ["note_created", "note_updated", "notes_imported"];
+
+// The page showing the goal, note or conversation an activity is about.
+// Activities logged before these were recorded have none.
+function activityHref({ entityType, entityId }: Activity): string | undefined {
+  if (!entityId) return undefined;
+  switch (entityType) {
+    case "conversation":
+      return `/chat?conversation=${entityId}`;
+    case "goal":
+      return `/goals?goal=${entityId}`;
+    case "note":
+      return `/notes?note=${entityId}`;
+    default:
+      return undefined;
+  }
+}
+
+// A progress change, when the activity recorded one
+function progressChange({ metadata }: Activity): string | undefined {
+  const from = metadata?.oldProgress;
+  const to = metadata?.newProgress;
+  if (typeof from !== "number" || typeof to !== "number" || from === to) return undefined;
+  return `${from}% → ${to}%`;
+}
+
+function ActivityItem({ activity, isLast, timeFormat }: { activity: Activity; isLast: boolean; timeFormat: string }) {
+  const { icon: Icon, color } = activityStyles[activity.type] ?? { icon: TrendingUp, color: "text-muted-foreground" };
+  const href = activityHref(activity);
+  const change = progressChange(activity);
+
+  return (
+    <div className="flex gap-4" data-testid={`activity-${activity.id}`}>
+      <div className="flex flex-col items-center">
+        <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
+          <Icon className={`h-4 w-4 ${color}`} />
+        </div>
+        {!isLast && <div className="w-px flex-1 bg-border mt-2" />}
+      </div>
+      <div className="flex-1 pb-4">
+        <p className="text-sm leading-relaxed">
+          {href ? (
+            <Link href={href} className="hover:underline" data-testid={`link-activity-${activity.id}`}>
+              {activity.description}
+            </Link>
+          ) : (
+            activity.description
+          )}
+          {change && <span className="ml-2 text-xs text-muted-foreground font-mono">{change}</span>}
+        </p>
+        <p className="text-xs text-muted-foreground font-mono mt-1">
+          {format(new Date(activity.createdAt), timeFormat)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+const bucketLabels: Record<AnalyticsBucket, string> = { day: "Daily", week: "Weekly", month: "Monthly" };
+
+// Heatmap and trend charts for a chosen range of days
+function Trends() {
+  const [range, setRange] = useState(() => ({
+    from: startOfDay(subDays(new Date(), DEFAULT_ANALYTICS_DAYS - 1)),
+    to: startOfDay(new Date()),
+  }));
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const { data: analytics, isLoading } = useAnalytics({
+    from: format(range.from, "yyyy-MM-dd"),
+    to: format(range.to, "yyyy-MM-dd"),
+    bucket,
   });
 
-  const getActivityIcon = (type: string) => {
-    switch (type) {
-      case "chat":
-        return MessageSquare;
-      case "goal_created":
-      case "goal_updated":
-      case "goal_completed":
-        return Target;
-      case "note_created":
-      case "note_updated":
-        return StickyNote;
-      default:
-        return TrendingUp;
-    }
-  };
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl">Trends</CardTitle>
+          <CardDescription>
+            {analytics
+              ? `${analytics.totals.activities} activities, ${analytics.totals.completions} completions and ${analytics.totals.progress}% goal progress in this range`
+              : "Your activity over time"}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket)}>
+            <SelectTrigger className="w-32" data-testid="select-analytics-bucket">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {analyticsBuckets.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {bucketLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DateRangePicker value={range} onChange={setRange} maxDays={MAX_ANALYTICS_DAYS} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading || !analytics ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <>
+            <ActivityHeatmap analytics={analytics} />
+            <AnalyticsCharts analytics={analytics} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
 
-  const getActivityColor = (type: string) => {
-    switch (type) {
-      case "chat":
-        return "text-primary";
-      case "goal_created":
-      case "goal_updated":
-        return "text-blue-600 dark:text-blue-500";
-      case "goal_completed":
-        return "text-green-600 dark:text-green-500";
-      case "note_created":
-      case "note_updated":
-        return "text-purple-600 dark:text-purple-500";
-      default:
-        return "text-muted-foreground";
-    }
-  };
+function ActivitySection({ title, activities, timeFormat }: { title: string; activities: Activity[]; timeFormat: string }) {
+  if (activities.length === 0) return null;
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+      <div className="space-y-4">
+        {activities.map((activity, idx) => (
+          <ActivityItem
+            key={activity.id}
+            activity={activity}
+            isLast={idx === activities.length - 1}
+            timeFormat={timeFormat}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function ActivityPage() {
+  const timeline = usePagedList<Activity>(ACTIVITIES_PATH);
+  const { items: activities, isLoading } = timeline;
 
   const today = new Date();
   const todayActivities =
@@ -59,12 +204,13 @@ export default function ActivityPage() {
   const olderActivities =
     activities?.filter((a) => new Date(a.createdAt) < startOfDay(subDays(today, 1))) || [];
 
+  // Counted on the server, as the timeline only holds the pages loaded so far
   const activityStats = {
-    total: activities?.length || 0,
-    today: todayActivities.length,
-    chats: activities?.filter((a) => a.type === "chat").length || 0,
-    goals: activities?.filter((a) => a.type.includes("goal")).length || 0,
-    notes: activities?.filter((a) => a.type.includes("note")).length || 0,
+    total: useListCount(ACTIVITIES_PATH) ?? 0,
+    today: useListCount(ACTIVITIES_PATH, { from: startOfDay(today).toISOString() }) ?? 0,
+    chats: useListCount(ACTIVITIES_PATH, { type: "chat" }) ?? 0,
+    goals: useListCount(ACTIVITIES_PATH, { type: GOAL_TYPES.join(",") }) ?? 0,
+    notes: useListCount(ACTIVITIES_PATH, { type: NOTE_TYPES.join(",") }) ?? 0,
   };
 
   return (
@@ -141,6 +287,8 @@ export default function ActivityPage() {
           </Card>
         </div>
 
+        <Trends />
+
         {/* Timeline */}
         <Card>
           <CardHeader>
@@ -164,101 +312,11 @@ export default function ActivityPage() {
               </div>
             ) : (
               <div className="space-y-8">
-                {/* Today */}
-                {todayActivities.length > 0 && (
-                  <div className="space-y-4">
-                    <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                      Today
-                    </h3>
-                    <div className="space-y-4">
-                      {todayActivities.map((activity, idx) => {
-                        const Icon = getActivityIcon(activity.type);
-                        return (
-                          <div key={activity.id} className="flex gap-4" data-testid={`activity-${activity.id}`}>
-                            <div className="flex flex-col items-center">
-                              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
-                                <Icon className={`h-4 w-4 ${getActivityColor(activity.type)}`} />
-                              </div>
-                              {idx < todayActivities.length - 1 && (
-                                <div className="w-px flex-1 bg-border mt-2" />
-                              )}
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <p className="text-sm leading-relaxed">{activity.description}</p>
-                              <p className="text-xs text-muted-foreground font-mono mt-1">
-                                {format(new Date(activity.createdAt), "h:mm a")}
-                              </p>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
-
-                {/* Yesterday */}
-                {yesterdayActivities.length > 0 && (
-                  <div className="space-y-4">
-                    <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                      Yesterday
-                    </h3>
-                    <div className="space-y-4">
-                      {yesterdayActivities.map((activity, idx) => {
-                        const Icon = getActivityIcon(activity.type);
-                        return (
-                          <div key={activity.id} className="flex gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
-                                <Icon className={`h-4 w-4 ${getActivityColor(activity.type)}`} />
-                              </div>
-                              {idx < yesterdayActivities.length - 1 && (
-                                <div className="w-px flex-1 bg-border mt-2" />
-                              )}
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <p className="text-sm leading-relaxed">{activity.description}</p>
-                              <p className="text-xs text-muted-foreground font-mono mt-1">
-                                {format(new Date(activity.createdAt), "h:mm a")}
-                              </p>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
+                <ActivitySection title="Today" activities={todayActivities} timeFormat="h:mm a" />
+                <ActivitySection title="Yesterday" activities={yesterdayActivities} timeFormat="h:mm a" />
+                <ActivitySection title="Earlier" activities={olderActivities} timeFormat="MMM d, h:mm a" />
 
-                {/* Older */}
-                {olderActivities.length > 0 && (
-                  <div className="space-y-4">
-                    <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
-                      Earlier
-                    </h3>
-                    <div className="space-y-4">
-                      {olderActivities.map((activity, idx) => {
-                        const Icon = getActivityIcon(activity.type);
-                        return (
-                          <div key={activity.id} className="flex gap-4">
-                            <div className="flex flex-col items-center">
-                              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-muted">
-                                <Icon className={`h-4 w-4 ${getActivityColor(activity.type)}`} />
-                              </div>
-                              {idx < olderActivities.length - 1 && (
-                                <div className="w-px flex-1 bg-border mt-2" />
-                              )}
-                            </div>
-                            <div className="flex-1 pb-4">
-                              <p className="text-sm leading-relaxed">{activity.description}</p>
-                              <p className="text-xs text-muted-foreground font-mono mt-1">
-                                {format(new Date(activity.createdAt), "MMM d, h:mm a")}
-                              </p>
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                )}
+                <LoadMore list={timeline} />
               </div>
             )}
           </CardContent>
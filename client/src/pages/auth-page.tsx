@@ -0,0 +1,130 @@
+import { Redirect } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Sparkles, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { insertUserSchema, type InsertUser } from "@shared/schema";
+
+function CredentialsForm({
+  mode,
+  onSubmit,
+  isPending,
+}: {
+  mode: "login" | "register";
+  onSubmit: (data: InsertUser) => void;
+  isPending: boolean;
+}) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(insertUserSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" data-testid={`input-${mode}-username`} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete={mode === "login" ? "current-password" : "new-password"}
+                  data-testid={`input-${mode}-password`}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending} data-testid={`button-${mode}`}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {mode === "login" ? "Sign in" : "Create account"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center p-6">
+      <div className="w-full max-w-md space-y-6">
+        <div className="flex items-center justify-center gap-3">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary">
+            <Sparkles className="h-5 w-5 text-primary-foreground" />
+          </div>
+          <div className="flex flex-col">
+            <h1 className="text-lg font-semibold leading-tight">AstraMind</h1>
+            <p className="text-xs text-muted-foreground font-mono">Your AI Life OS</p>
+          </div>
+        </div>
+
+        <Card>
+          <Tabs defaultValue="login">
+            <CardHeader>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Sign in</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+            </CardHeader>
+            <CardContent>
+              <TabsContent value="login" className="mt-0 space-y-4">
+                <div className="space-y-1">
+                  <CardTitle className="text-xl">Welcome back</CardTitle>
+                  <CardDescription>Sign in to your goals, notes and conversations.</CardDescription>
+                </div>
+                <CredentialsForm
+                  mode="login"
+                  onSubmit={(data) => loginMutation.mutate(data)}
+                  isPending={loginMutation.isPending}
+                />
+              </TabsContent>
+              <TabsContent value="register" className="mt-0 space-y-4">
+                <div className="space-y-1">
+                  <CardTitle className="text-xl">Create an account</CardTitle>
+                  <CardDescription>Your data stays private to your account.</CardDescription>
+                </div>
+                <CredentialsForm
+                  mode="register"
+                  onSubmit={(data) => registerMutation.mutate(data)}
+                  isPending={registerMutation.isPending}
+                />
+              </TabsContent>
+            </CardContent>
+          </Tabs>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,79 +1,226 @@
 import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Send, Sparkles, User, Plus } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Send, Sparkles, User, Plus, Square, Pencil, RefreshCw, Download, Upload } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Message, Conversation, ChatResponse } from "@shared/schema";
+import { streamChat, stopChatStream } from "@/lib/chatStream";
+import { ChatActionCard } from "@/components/chat-action-card";
+import { MemoryCitations } from "@/components/memory-citations";
+import { BranchSwitcher } from "@/components/branch-switcher";
+import { Markdown } from "@/components/markdown";
+import type {
+  BranchMessage,
+  Conversation,
+  ChatAction,
+  ConversationExportFormat,
+  ConversationImportResult,
+  MemoryCitation,
+} from "@shared/schema";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 
+const messagesKey = (conversationId: string | null) => ["/api/conversations", conversationId, "messages"];
+
+const exportFormats: { format: ConversationExportFormat; label: string }[] = [
+  { format: "md", label: "Markdown" },
+  { format: "html", label: "HTML" },
+  { format: "json", label: "JSON (all branches)" },
+];
+
+type StreamingReply = {
+  streamId: string | null;
+  userMessage: string | null; // null when regenerating a reply to an existing message
+  reply: string;
+  actions: ChatAction[];
+  citations: MemoryCitation[];
+};
+
 export default function Chat() {
   const [input, setInput] = useState("");
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [streaming, setStreaming] = useState<StreamingReply | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  // Set by memory citation links, e.g. /chat?conversation=<id>
+  const linkedConversationId = new URLSearchParams(useSearch()).get("conversation");
 
   const { data: conversations } = useQuery<Conversation[]>({
     queryKey: ["/api/conversations"],
   });
 
-  const { data: messages, isLoading: messagesLoading } = useQuery<Message[]>({
-    queryKey: ["/api/conversations", currentConversationId, "messages"],
+  // The selected branch of the conversation
+  const { data: messages, isLoading: messagesLoading } = useQuery<BranchMessage[]>({
+    queryKey: messagesKey(currentConversationId),
     enabled: !!currentConversationId,
   });
 
-  const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest<ChatResponse>("POST", "/api/chat", {
-        message: content,
-        conversationId: currentConversationId,
+  const handleStop = () => {
+    if (streaming?.streamId) {
+      stopChatStream(streaming.streamId).catch(() => undefined);
+    }
+  };
+
+  const newConversationMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<Conversation>("POST", "/api/conversations", {
+        title: "New Conversation",
       });
     },
     onSuccess: (data) => {
-      if (!currentConversationId) {
-        setCurrentConversationId(data.conversationId);
+      setCurrentConversationId(data.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  // Accepts our JSON export or ChatGPT's conversations.json
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error("That file isn't valid JSON.");
       }
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", data.conversationId, "messages"] });
+      return apiRequest<ConversationImportResult>("POST", "/api/conversations/import", data);
+    },
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      if (result.conversations[0]) {
+        setCurrentConversationId(result.conversations[0].id);
+      }
+      toast({
+        title: "Conversations imported",
+        description: `${result.conversations.length} conversation(s), ${result.messages} messages`,
+      });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
+        title: "Import failed",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const newConversationMutation = useMutation({
-    mutationFn: async () => {
-      return apiRequest<Conversation>("POST", "/api/conversations", {
-        title: "New Conversation",
-      });
+  const switchBranchMutation = useMutation({
+    mutationFn: (messageId: string) =>
+      apiRequest<BranchMessage[]>("POST", `/api/conversations/${currentConversationId}/branch`, { messageId }),
+    onSuccess: (path) => {
+      queryClient.setQueryData(messagesKey(currentConversationId), path);
     },
-    onSuccess: (data) => {
-      setCurrentConversationId(data.id);
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    onError: (error) => {
+      toast({
+        title: "Couldn't switch versions",
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
-  const handleSend = async () => {
-    if (!input.trim() || sendMessageMutation.isPending) return;
+  // Sends a new message, an edited version of `edit`, or asks for another
+  // version of the reply `regenerate`. Edits and regenerations start a new
+  // branch, so the shown path is cut back to where it forks.
+  const sendTurn = async (request: { message?: string; edit?: string; regenerate?: string }) => {
+    if (streaming) return;
+
+    let conversationId = currentConversationId;
+    const forkAt = request.edit ?? request.regenerate;
+    if (forkAt && conversationId) {
+      queryClient.setQueryData<BranchMessage[]>(messagesKey(conversationId), (old) =>
+        old?.slice(0, Math.max(0, old.findIndex((m) => m.id === forkAt)))
+      );
+    }
+
+    setEditing(null);
+    setStreaming({
+      streamId: null,
+      userMessage: request.regenerate ? null : request.message ?? "",
+      reply: "",
+      actions: [],
+      citations: [],
+    });
+
+    try {
+      await streamChat({ ...request, conversationId }, (event) => {
+        switch (event.type) {
+          case "start":
+            conversationId = event.conversationId;
+            setCurrentConversationId(event.conversationId);
+            if (!request.regenerate) {
+              queryClient.setQueryData<BranchMessage[]>(messagesKey(event.conversationId), (old) => [
+                ...(old ?? []),
+                { ...event.userMessage, siblingIds: [event.userMessage.id] },
+              ]);
+            }
+            setStreaming((s) => s && { ...s, streamId: event.streamId });
+            break;
+          case "citations":
+            setStreaming((s) => s && { ...s, citations: event.citations });
+            break;
+          case "delta":
+            setStreaming((s) => s && { ...s, reply: s.reply + event.text });
+            break;
+          case "action":
+            setStreaming((s) => s && { ...s, actions: [...s.actions, event.action] });
+            break;
+          case "error":
+            toast({
+              title: "Error",
+              description: "Failed to send message. Please try again.",
+              variant: "destructive",
+            });
+            break;
+        }
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to send message. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      if (conversationId) {
+        await queryClient.invalidateQueries({ queryKey: messagesKey(conversationId) });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      setStreaming(null);
+    }
+  };
+
+  const handleSend = () => {
+    if (!input.trim() || streaming) return;
 
     const message = input.trim();
     setInput("");
-    
+
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
     }
 
-    await sendMessageMutation.mutateAsync(message);
+    sendTurn({ message });
+  };
+
+  const handleEditSubmit = () => {
+    if (!editing?.text.trim()) return;
+    sendTurn({ message: editing.text.trim(), edit: editing.id });
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -91,7 +238,13 @@ export default function Chat() {
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streaming?.reply]);
+
+  useEffect(() => {
+    if (linkedConversationId) {
+      setCurrentConversationId(linkedConversationId);
+    }
+  }, [linkedConversationId]);
 
   useEffect(() => {
     if (conversations && conversations.length > 0 && !currentConversationId) {
@@ -115,6 +268,28 @@ export default function Chat() {
             <Plus className="mr-2 h-4 w-4" />
             New Chat
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full mt-2 text-muted-foreground"
+            onClick={() => importInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-conversations"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : "Import"}
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importMutation.mutate(file);
+              e.target.value = "";
+            }}
+          />
         </div>
         <div className="flex-1 overflow-auto p-4 space-y-2">
           {conversations?.map((conv) => (
@@ -152,15 +327,40 @@ export default function Chat() {
               </p>
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            className="md:hidden"
-            onClick={() => newConversationMutation.mutate()}
-            data-testid="button-new-conversation-mobile"
-          >
-            <Plus className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {currentConversation && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" data-testid="button-export-conversation">
+                    <Download className="h-4 w-4 md:mr-2" />
+                    <span className="hidden md:inline">Export</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {exportFormats.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} asChild>
+                      <a
+                        href={`/api/conversations/${currentConversation.id}/export?format=${format}`}
+                        download
+                        data-testid={`link-export-${format}`}
+                      >
+                        {label}
+                      </a>
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              className="md:hidden"
+              onClick={() => newConversationMutation.mutate()}
+              data-testid="button-new-conversation-mobile"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
         {/* Messages */}
@@ -171,7 +371,7 @@ export default function Chat() {
                 <Skeleton className="h-20 w-full" />
                 <Skeleton className="h-32 w-full" />
               </>
-            ) : !messages || messages.length === 0 ? (
+            ) : (!messages || messages.length === 0) && !streaming ? (
               <div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center">
                 <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-primary/10 mb-6">
                   <Sparkles className="h-8 w-8 text-primary" />
@@ -209,7 +409,7 @@ export default function Chat() {
               </div>
             ) : (
               <>
-                {messages.map((message) => (
+                {messages?.map((message) => (
                   <div
                     key={message.id}
                     className={`flex gap-4 ${
@@ -227,20 +427,95 @@ export default function Chat() {
                         message.role === "user" ? "items-end" : "items-start"
                       }`}
                     >
-                      <Card
-                        className={`p-4 ${
-                          message.role === "user"
-                            ? "bg-primary text-primary-foreground border-primary"
-                            : ""
+                      {editing?.id === message.id ? (
+                        <Card className="p-3 space-y-2 w-[min(36rem,80vw)]">
+                          <Textarea
+                            value={editing.text}
+                            onChange={(e) => setEditing({ id: message.id, text: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter" && !e.shiftKey) {
+                                e.preventDefault();
+                                handleEditSubmit();
+                              } else if (e.key === "Escape") {
+                                setEditing(null);
+                              }
+                            }}
+                            className="resize-none text-sm"
+                            rows={3}
+                            autoFocus
+                            data-testid={`input-edit-message-${message.id}`}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={handleEditSubmit}
+                              disabled={!editing.text.trim()}
+                              data-testid={`button-submit-edit-${message.id}`}
+                            >
+                              Send
+                            </Button>
+                          </div>
+                        </Card>
+                      ) : (
+                        <Card
+                          className={`p-4 ${
+                            message.role === "user"
+                              ? "bg-primary text-primary-foreground border-primary"
+                              : ""
+                          }`}
+                        >
+                          {message.role === "assistant" ? (
+                            <Markdown content={message.content} />
+                          ) : (
+                            <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                              {message.content}
+                            </p>
+                          )}
+                        </Card>
+                      )}
+                      {message.actions?.map((action) => (
+                        <ChatActionCard key={action.id} action={action} messageId={message.id} />
+                      ))}
+                      {message.citations && message.citations.length > 0 && (
+                        <MemoryCitations citations={message.citations} />
+                      )}
+                      <div
+                        className={`group flex items-center gap-1 px-1 ${
+                          message.role === "user" ? "justify-end" : ""
                         }`}
                       >
-                        <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                          {message.content}
+                        <BranchSwitcher
+                          message={message}
+                          onSwitch={(id) => switchBranchMutation.mutate(id)}
+                          disabled={!!streaming || switchBranchMutation.isPending}
+                        />
+                        <p className="text-xs text-muted-foreground font-mono">
+                          {format(new Date(message.createdAt), "h:mm a")}
                         </p>
-                      </Card>
-                      <p className="text-xs text-muted-foreground font-mono px-1">
-                        {format(new Date(message.createdAt), "h:mm a")}
-                      </p>
+                        {!streaming && editing?.id !== message.id && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                            title={message.role === "user" ? "Edit" : "Regenerate"}
+                            onClick={() =>
+                              message.role === "user"
+                                ? setEditing({ id: message.id, text: message.content })
+                                : sendTurn({ regenerate: message.id })
+                            }
+                            data-testid={`button-${message.role === "user" ? "edit" : "regenerate"}-message-${message.id}`}
+                          >
+                            {message.role === "user" ? (
+                              <Pencil className="h-3 w-3" />
+                            ) : (
+                              <RefreshCw className="h-3 w-3" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
                     </div>
                     {message.role === "user" && (
                       <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
@@ -249,18 +524,47 @@ export default function Chat() {
                     )}
                   </div>
                 ))}
-                {sendMessageMutation.isPending && (
-                  <div className="flex gap-4 justify-start">
+                {streaming && !streaming.streamId && streaming.userMessage !== null && (
+                  <div className="flex gap-4 justify-end" data-testid="message-pending">
+                    <div className="max-w-[80%] space-y-2 items-end">
+                      <Card className="p-4 bg-primary text-primary-foreground border-primary">
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                          {streaming.userMessage}
+                        </p>
+                      </Card>
+                    </div>
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-muted">
+                      <User className="h-4 w-4" />
+                    </div>
+                  </div>
+                )}
+                {streaming && (
+                  <div className="flex gap-4 justify-start" data-testid="message-streaming">
                     <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary">
                       <Sparkles className="h-4 w-4 text-primary-foreground animate-pulse" />
                     </div>
-                    <Card className="p-4 max-w-[80%]">
-                      <div className="flex gap-2">
-                        <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" />
-                        <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:0.2s]" />
-                        <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:0.4s]" />
-                      </div>
-                    </Card>
+                    <div className="max-w-[80%] space-y-2">
+                      <Card className="p-4">
+                        {streaming.reply ? (
+                          <>
+                            <Markdown content={streaming.reply} />
+                            <span className="inline-block h-4 w-1.5 animate-pulse bg-muted-foreground" />
+                          </>
+                        ) : (
+                          <div className="flex gap-2">
+                            <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce" />
+                            <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:0.2s]" />
+                            <div className="h-2 w-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:0.4s]" />
+                          </div>
+                        )}
+                      </Card>
+                      {streaming.actions.map((action) => (
+                        <ChatActionCard key={action.id} action={action} />
+                      ))}
+                      {streaming.citations.length > 0 && (
+                        <MemoryCitations citations={streaming.citations} />
+                      )}
+                    </div>
                   </div>
                 )}
                 <div ref={messagesEndRef} />
@@ -280,18 +584,31 @@ export default function Chat() {
                 onKeyDown={handleKeyDown}
                 placeholder="Type your message... (Shift+Enter for new line)"
                 className="resize-none min-h-[56px] max-h-32 rounded-xl text-base"
-                disabled={sendMessageMutation.isPending}
+                disabled={!!streaming}
                 data-testid="input-chat-message"
               />
-              <Button
-                onClick={handleSend}
-                disabled={!input.trim() || sendMessageMutation.isPending}
-                size="icon"
-                className="h-14 w-14 shrink-0 rounded-xl"
-                data-testid="button-send-message"
-              >
-                <Send className="h-5 w-5" />
-              </Button>
+              {streaming ? (
+                <Button
+                  onClick={handleStop}
+                  disabled={!streaming.streamId}
+                  variant="outline"
+                  size="icon"
+                  className="h-14 w-14 shrink-0 rounded-xl"
+                  data-testid="button-stop-generation"
+                >
+                  <Square className="h-5 w-5" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSend}
+                  disabled={!input.trim()}
+                  size="icon"
+                  className="h-14 w-14 shrink-0 rounded-xl"
+                  data-testid="button-send-message"
+                >
+                  <Send className="h-5 w-5" />
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -4,9 +4,12 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
-import { MessageSquare, Target, StickyNote, TrendingUp, Clock, CheckCircle2, ArrowRight, Sparkles } from "lucide-react";
+import { MessageSquare, Target, StickyNote, TrendingUp, Clock, CheckCircle2, ArrowRight, Sparkles, Flame } from "lucide-react";
 import { Link } from "wouter";
-import type { Goal, Note, Activity } from "@shared/schema";
+import type { Goal, Note, Activity, HabitStatus } from "@shared/schema";
+import { HabitCard } from "@/components/habit-card";
+import { ReviewCard } from "@/components/review-card";
+import { usePagedList } from "@/hooks/use-paged-list";
 import { format } from "date-fns";
 
 export default function Dashboard() {
@@ -14,18 +17,22 @@ export default function Dashboard() {
     queryKey: ["/api/goals"],
   });
 
-  const { data: notes, isLoading: notesLoading } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
-  });
+  // Only the first page of each; the totals come with it
+  const notes = usePagedList<Note>("/api/notes", {}, 3);
+  const activities = usePagedList<Activity>("/api/activities", {}, 5);
+  const notesLoading = notes.isLoading;
+  const activitiesLoading = activities.isLoading;
 
-  const { data: activities, isLoading: activitiesLoading } = useQuery<Activity[]>({
-    queryKey: ["/api/activities"],
+  const { data: habitStatuses } = useQuery<HabitStatus[]>({
+    queryKey: ["/api/habits"],
   });
 
-  const activeGoals = goals?.filter((g) => !g.completed) || [];
-  const completedGoals = goals?.filter((g) => g.completed) || [];
-  const recentNotes = notes?.slice(0, 3) || [];
-  const recentActivities = activities?.slice(0, 5) || [];
+  const habits = goals?.filter((g) => g.kind === "habit") || [];
+  const activeGoals = goals?.filter((g) => g.kind !== "habit" && !g.completed) || [];
+  const completedGoals = goals?.filter((g) => g.kind !== "habit" && g.completed) || [];
+  const habitStatusById = new Map(habitStatuses?.map((s) => [s.goalId, s]));
+  const recentNotes = notes.items || [];
+  const recentActivities = activities.items || [];
 
   const stats = [
     {
@@ -47,13 +54,13 @@ export default function Dashboard() {
     },
     {
       title: "Notes Saved",
-      value: notes?.length || 0,
+      value: notes.total || 0,
       icon: StickyNote,
       color: "text-blue-600 dark:text-blue-500",
     },
     {
       title: "Activities",
-      value: activities?.length || 0,
+      value: activities.total || 0,
       icon: TrendingUp,
       color: "text-purple-600 dark:text-purple-500",
     },
@@ -91,6 +98,9 @@ export default function Dashboard() {
           ))}
         </div>
 
+        {/* Review */}
+        <ReviewCard />
+
         {/* Main Content Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Active Goals */}
@@ -224,6 +234,34 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        {/* Habits */}
+        {habits.length > 0 && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="flex items-center gap-2 text-2xl font-semibold">
+                <Flame className="h-6 w-6 text-orange-500" />
+                Habits
+              </h2>
+              <Button variant="ghost" size="sm" asChild data-testid="link-view-all-habits">
+                <Link href="/goals">
+                  View all
+                  <ArrowRight className="ml-2 h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {habits.slice(0, 3).map((goal) => {
+                const status = habitStatusById.get(goal.id);
+                return status ? (
+                  <HabitCard key={goal.id} goal={goal} status={status} weeks={5} />
+                ) : (
+                  <Skeleton key={goal.id} className="h-48 w-full" />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Activity Timeline */}
         <Card>
           <CardHeader>
@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useSearch } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -24,26 +25,42 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Plus, Target, CheckCircle2, Clock, Trash2 } from "lucide-react";
+import { Plus, Target, CheckCircle2, Clock, Trash2, Flame } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Goal, InsertGoal } from "@shared/schema";
+import { showServerErrors } from "@/lib/form-errors";
+import type { Goal, HabitStatus, InsertGoal } from "@shared/schema";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertGoalSchema } from "@shared/schema";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { GoalTasks } from "@/components/goal-tasks";
+import { HabitCard } from "@/components/habit-card";
+import { RecurrencePicker } from "@/components/recurrence-picker";
 
 const categories = ["productivity", "learning", "health", "finance", "personal", "career"];
 
 export default function Goals() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const { toast } = useToast();
+  // Set by links elsewhere in the app, e.g. /goals?goal=<id> highlights that goal
+  const linkedGoalId = new URLSearchParams(useSearch()).get("goal");
 
   const { data: goals, isLoading } = useQuery<Goal[]>({
     queryKey: ["/api/goals"],
   });
 
+  const { data: habitStatuses } = useQuery<HabitStatus[]>({
+    queryKey: ["/api/habits"],
+  });
+
+  useEffect(() => {
+    if (linkedGoalId && goals) {
+      document.getElementById(`goal-${linkedGoalId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [linkedGoalId, goals]);
+
   const form = useForm<InsertGoal>({
     resolver: zodResolver(insertGoalSchema.extend({
       title: insertGoalSchema.shape.title,
@@ -52,6 +69,9 @@ export default function Goals() {
       progress: insertGoalSchema.shape.progress.optional().default(0),
       targetDate: insertGoalSchema.shape.targetDate.optional(),
       completed: insertGoalSchema.shape.completed.optional().default(false),
+    }).refine((goal) => goal.kind !== "habit" || !!goal.recurrence, {
+      message: "Choose how often this habit repeats",
+      path: ["recurrence"],
     })),
     defaultValues: {
       title: "",
@@ -59,25 +79,31 @@ export default function Goals() {
       category: "productivity",
       progress: 0,
       completed: false,
+      kind: "goal",
+      recurrence: null,
+      targetDate: null,
     },
   });
+  const isHabit = form.watch("kind") === "habit";
 
   const createGoalMutation = useMutation({
     mutationFn: (data: InsertGoal) => apiRequest<Goal>("POST", "/api/goals", data),
-    onSuccess: () => {
+    onSuccess: (goal) => {
       queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
       setDialogOpen(false);
       form.reset();
       toast({
-        title: "Goal created",
-        description: "Your new goal has been added successfully.",
+        title: goal.kind === "habit" ? "Habit created" : "Goal created",
+        description: `Your new ${goal.kind === "habit" ? "habit" : "goal"} has been added successfully.`,
       });
     },
-    onError: () => {
+    onError: (error) => {
+      if (showServerErrors(form, error)) return;
       toast({
-        title: "Error",
-        description: "Failed to create goal. Please try again.",
+        title: "Couldn't create the goal",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -100,6 +126,7 @@ export default function Goals() {
     mutationFn: (id: string) => apiRequest("DELETE", `/api/goals/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/habits"] });
       toast({
         title: "Goal deleted",
         description: "Your goal has been removed.",
@@ -111,8 +138,12 @@ export default function Goals() {
     createGoalMutation.mutate(data);
   };
 
-  const activeGoals = goals?.filter((g) => !g.completed) || [];
-  const completedGoals = goals?.filter((g) => g.completed) || [];
+  // Habits share the goals table but are tracked by check-ins, not progress
+  const habits = goals?.filter((g) => g.kind === "habit") || [];
+  const targetGoals = goals?.filter((g) => g.kind !== "habit") || [];
+  const activeGoals = targetGoals.filter((g) => !g.completed);
+  const completedGoals = targetGoals.filter((g) => g.completed);
+  const habitStatusById = new Map(habitStatuses?.map((s) => [s.goalId, s]));
 
   return (
     <div className="flex-1 overflow-auto">
@@ -136,7 +167,7 @@ export default function Goals() {
               <DialogHeader>
                 <DialogTitle>Create New Goal</DialogTitle>
                 <DialogDescription>
-                  Set a new target and track your progress
+                  Set a new target or start a recurring habit
                 </DialogDescription>
               </DialogHeader>
               <Form {...form}>
@@ -158,6 +189,46 @@ export default function Goals() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="kind"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select
+                          onValueChange={(kind) => {
+                            field.onChange(kind);
+                            form.setValue("recurrence", kind === "habit" ? "daily" : null);
+                          }}
+                          value={field.value ?? "goal"}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-goal-kind">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="goal">Goal with a target</SelectItem>
+                            <SelectItem value="habit">Recurring habit</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {isHabit && (
+                    <FormField
+                      control={form.control}
+                      name="recurrence"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Repeats</FormLabel>
+                          <RecurrencePicker value={field.value ?? ""} onChange={field.onChange} />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
                   <FormField
                     control={form.control}
                     name="description"
@@ -171,6 +242,7 @@ export default function Goals() {
                             rows={3}
                             data-testid="input-goal-description"
                             {...field}
+                            value={field.value ?? ""}
                           />
                         </FormControl>
                         <FormMessage />
@@ -201,7 +273,7 @@ export default function Goals() {
                       </FormItem>
                     )}
                   />
-                  <FormField
+                  {!isHabit && <FormField
                     control={form.control}
                     name="targetDate"
                     render={({ field }) => (
@@ -219,14 +291,14 @@ export default function Goals() {
                         <FormMessage />
                       </FormItem>
                     )}
-                  />
+                  />}
                   <DialogFooter>
                     <Button
                       type="submit"
                       disabled={createGoalMutation.isPending}
                       data-testid="button-submit-goal"
                     >
-                      Create Goal
+                      {isHabit ? "Create Habit" : "Create Goal"}
                     </Button>
                   </DialogFooter>
                 </form>
@@ -242,7 +314,7 @@ export default function Goals() {
               <div className="flex items-center gap-3">
                 <Target className="h-8 w-8 text-primary" />
                 <div>
-                  <div className="text-3xl font-bold" data-testid="stat-total-goals">{goals?.length || 0}</div>
+                  <div className="text-3xl font-bold" data-testid="stat-total-goals">{targetGoals.length}</div>
                   <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">
                     Total Goals
                   </p>
@@ -278,13 +350,44 @@ export default function Goals() {
           </Card>
         </div>
 
+        {/* Habits */}
+        {habits.length > 0 && (
+          <div className="space-y-4">
+            <h2 className="flex items-center gap-2 text-2xl font-semibold">
+              <Flame className="h-6 w-6 text-orange-500" />
+              Habits
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {habits.map((goal) => {
+                const status = habitStatusById.get(goal.id);
+                return status ? (
+                  <div
+                    key={goal.id}
+                    id={`goal-${goal.id}`}
+                    className={goal.id === linkedGoalId ? "rounded-lg ring-2 ring-primary" : ""}
+                  >
+                    <HabitCard goal={goal} status={status} onDelete={() => deleteGoalMutation.mutate(goal.id)} />
+                  </div>
+                ) : (
+                  <Skeleton key={goal.id} className="h-56 w-full" />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Active Goals */}
         {activeGoals.length > 0 && (
           <div className="space-y-4">
             <h2 className="text-2xl font-semibold">Active Goals</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {activeGoals.map((goal) => (
-                <Card key={goal.id} className="overflow-visible" data-testid={`goal-${goal.id}`}>
+                <Card
+                  key={goal.id}
+                  id={`goal-${goal.id}`}
+                  className={`overflow-visible ${goal.id === linkedGoalId ? "ring-2 ring-primary" : ""}`}
+                  data-testid={`goal-${goal.id}`}
+                >
                   <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
                     <div className="flex-1 min-w-0 space-y-1">
                       <CardTitle className="text-lg leading-tight">{goal.title}</CardTitle>
@@ -299,43 +402,52 @@ export default function Goals() {
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-muted-foreground">Progress</span>
-                        <div className="flex gap-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() =>
-                              updateGoalMutation.mutate({
-                                id: goal.id,
-                                data: { progress: Math.max(0, goal.progress - 10) },
-                              })
-                            }
-                            className="h-6 w-6 p-0"
-                            data-testid={`button-decrease-progress-${goal.id}`}
-                          >
-                            -
-                          </Button>
+                        <span className="text-muted-foreground">
+                          Progress{goal.progressMode === "tasks" && " (from tasks)"}
+                        </span>
+                        {goal.progressMode === "tasks" ? (
                           <span className="font-mono font-medium min-w-[3ch] text-center">
                             {goal.progress}%
                           </span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() =>
-                              updateGoalMutation.mutate({
-                                id: goal.id,
-                                data: { progress: Math.min(100, goal.progress + 10) },
-                              })
-                            }
-                            className="h-6 w-6 p-0"
-                            data-testid={`button-increase-progress-${goal.id}`}
-                          >
-                            +
-                          </Button>
-                        </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                updateGoalMutation.mutate({
+                                  id: goal.id,
+                                  data: { progress: Math.max(0, goal.progress - 10) },
+                                })
+                              }
+                              className="h-6 w-6 p-0"
+                              data-testid={`button-decrease-progress-${goal.id}`}
+                            >
+                              -
+                            </Button>
+                            <span className="font-mono font-medium min-w-[3ch] text-center">
+                              {goal.progress}%
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                updateGoalMutation.mutate({
+                                  id: goal.id,
+                                  data: { progress: Math.min(100, goal.progress + 10) },
+                                })
+                              }
+                              className="h-6 w-6 p-0"
+                              data-testid={`button-increase-progress-${goal.id}`}
+                            >
+                              +
+                            </Button>
+                          </div>
+                        )}
                       </div>
                       <Progress value={goal.progress} className="h-2" />
                     </div>
+                    <GoalTasks goal={goal} />
                     {goal.targetDate && (
                       <div className="flex items-center gap-2 text-xs text-muted-foreground">
                         <Clock className="h-3 w-3" />
@@ -382,7 +494,12 @@ export default function Goals() {
             <h2 className="text-2xl font-semibold">Completed Goals</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {completedGoals.map((goal) => (
-                <Card key={goal.id} className="opacity-75" data-testid={`completed-goal-${goal.id}`}>
+                <Card
+                  key={goal.id}
+                  id={`goal-${goal.id}`}
+                  className={`opacity-75 ${goal.id === linkedGoalId ? "ring-2 ring-primary" : ""}`}
+                  data-testid={`completed-goal-${goal.id}`}
+                >
                   <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-3">
                     <div className="flex-1 min-w-0 space-y-1">
                       <div className="flex items-center gap-2">
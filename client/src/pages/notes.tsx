@@ -1,5 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,27 +16,115 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
-import { Plus, StickyNote, Trash2, Edit2 } from "lucide-react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Note, InsertNote } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, StickyNote, Trash2, Edit2, Search, Link2, History, Download, Upload, X } from "lucide-react";
+import { queryClient, apiRequest, throwIfResNotOk, CLIENT_ID } from "@/lib/queryClient";
+import { showServerErrors } from "@/lib/form-errors";
+import type { Note, InsertNote, VaultImportResult, NoteSort, SortOrder } from "@shared/schema";
 import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertNoteSchema } from "@shared/schema";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SearchSnippet } from "@/components/global-search";
+import { Markdown } from "@/components/markdown";
+import { WikiLinkTextarea, isClosingSuggestions } from "@/components/wiki-link-textarea";
+import { NoteHistory } from "@/components/note-history";
+import { LoadMore } from "@/components/load-more";
+import { useSearchResults } from "@/hooks/use-search-results";
+import { useListCount, usePagedList } from "@/hooks/use-paged-list";
+import { findWikiLinks, normalizeTitle } from "@shared/wiki-links";
+
+// The text around the first link in `content` to the note titled `title`
+function linkContext(content: string, title: string): string {
+  const target = normalizeTitle(title);
+  const link = findWikiLinks(content).find((l) => normalizeTitle(l.title) === target);
+  if (!link) return "";
+
+  const start = Math.max(0, link.index - 60);
+  const end = Math.min(content.length, link.index + link.length + 60);
+  return `${start > 0 ? "…" : ""}${content.slice(start, end).replace(/\s+/g, " ").trim()}${end < content.length ? "…" : ""}`;
+}
+
+const NOTES_PER_PAGE = 24;
+
+// Grid orders, as "sort:order"
+const noteOrders: { value: `${NoteSort}:${SortOrder}`; label: string }[] = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "updatedAt:desc", label: "Recently edited" },
+  { value: "title:asc", label: "Title A-Z" },
+];
 
 export default function Notes() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingNote, setEditingNote] = useState<Note | null>(null);
   const [tagInput, setTagInput] = useState("");
+  const [previewing, setPreviewing] = useState(false);
+  const [filter, setFilter] = useState("");
+  const [historyNoteId, setHistoryNoteId] = useState<string | null>(null);
+  const [noteOrder, setNoteOrder] = useState(noteOrders[0].value);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  // Set by links elsewhere in the app, e.g. /notes?note=<id> opens that note.
+  // [[Wiki links]] go to /notes?title=<title>, which opens the note with that
+  // title or starts one.
+  const searchParams = new URLSearchParams(useSearch());
+  const linkedNoteId = searchParams.get("note");
+  const linkedTitle = searchParams.get("title");
+
+  // The grid loads a page at a time as it scrolls
+  const [sort, order] = noteOrder.split(":");
+  const grid = usePagedList<Note>("/api/notes", { sort, order, tag: tagFilter ?? undefined }, NOTES_PER_PAGE);
+  const noteCount = useListCount("/api/notes");
 
-  const { data: notes, isLoading } = useQuery<Note[]>({
+  const { query: filterQuery, results: filterResults } = useSearchResults(filter, ["note"]);
+
+  // Every note, only loaded for what needs them all: [[link]] suggestions,
+  // opening a note by title, and search results
+  const { data: notes } = useQuery<Note[]>({
     queryKey: ["/api/notes"],
+    enabled: dialogOpen || !!linkedTitle || !!filterQuery,
   });
 
+  const { data: linkedNote } = useQuery<Note>({
+    queryKey: ["/api/notes", linkedNoteId],
+    enabled: !!linkedNoteId,
+  });
+
+  const { data: backlinks } = useQuery<Note[]>({
+    queryKey: ["/api/notes", editingNote?.id, "backlinks"],
+    enabled: !!editingNote,
+  });
+
+  // Fetched by id so that the history shows the note as restored
+  const { data: historyNote } = useQuery<Note>({
+    queryKey: ["/api/notes", historyNoteId],
+    enabled: !!historyNoteId,
+  });
+
+  // Suggested while typing a [[link]]
+  const linkTitles = Array.from(
+    new Set(notes?.filter((n) => n.id !== editingNote?.id).map((n) => n.title.trim()))
+  );
+
+  // While filtering, show the matching notes in rank order with their snippets
+  const snippets = new Map(filterResults?.map((r) => [r.id, r.snippet]));
+  const visibleNotes = filterQuery
+    ? filterResults && notes && filterResults.flatMap((r) => notes.find((n) => n.id === r.id) ?? [])
+    : grid.items;
+  const isLoading = filterQuery ? !visibleNotes : grid.isLoading;
+
   const form = useForm<InsertNote>({
     resolver: zodResolver(insertNoteSchema.extend({
       title: insertNoteSchema.shape.title,
@@ -63,10 +152,11 @@ export default function Notes() {
         description: "Your note has been saved successfully.",
       });
     },
-    onError: () => {
+    onError: (error) => {
+      if (showServerErrors(form, error)) return;
       toast({
-        title: "Error",
-        description: "Failed to save note. Please try again.",
+        title: "Couldn't save the note",
+        description: error.message,
         variant: "destructive",
       });
     },
@@ -87,6 +177,14 @@ export default function Notes() {
         description: "Your note has been updated successfully.",
       });
     },
+    onError: (error) => {
+      if (showServerErrors(form, error)) return;
+      toast({
+        title: "Couldn't save the note",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const deleteNoteMutation = useMutation({
@@ -100,7 +198,41 @@ export default function Notes() {
     },
   });
 
-  const handleOpenDialog = (note?: Note) => {
+  // A zip of Markdown files, e.g. an Obsidian vault or an earlier export
+  const importMutation = useMutation({
+    mutationFn: async (file: File): Promise<VaultImportResult> => {
+      const res = await fetch("/api/notes/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip", "X-Client-Id": CLIENT_ID },
+        body: file,
+        credentials: "include",
+      });
+      await throwIfResNotOk(res);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activities"] });
+      const skipped = result.skipped.length;
+      toast({
+        title: "Notes imported",
+        description:
+          `${result.created} new, ${result.updated} updated, ${result.unchanged} unchanged` +
+          (skipped
+            ? `. Skipped ${skipped} file${skipped === 1 ? "" : "s"}: ${result.skipped.map((s) => `${s.file} (${s.reason})`).join(", ")}`
+            : ""),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (note?: Note, title = "") => {
     if (note) {
       setEditingNote(note);
       form.reset({
@@ -112,15 +244,31 @@ export default function Notes() {
     } else {
       setEditingNote(null);
       form.reset({
-        title: "",
+        title,
         content: "",
         tags: [],
       });
       setTagInput("");
     }
+    setPreviewing(false);
     setDialogOpen(true);
   };
 
+  useEffect(() => {
+    if (linkedNoteId && linkedNote?.id === linkedNoteId) {
+      handleOpenDialog(linkedNote);
+      setLocation("/notes", { replace: true });
+    }
+  }, [linkedNoteId, linkedNote]);
+
+  useEffect(() => {
+    if (!linkedTitle || !notes) return;
+    const target = normalizeTitle(linkedTitle);
+    const linkedNote = notes.find((n) => normalizeTitle(n.title) === target);
+    handleOpenDialog(linkedNote, linkedNote ? "" : linkedTitle.trim());
+    setLocation("/notes", { replace: true });
+  }, [linkedTitle, notes]);
+
   const onSubmit = (data: InsertNote) => {
     const tags = tagInput
       .split(",")
@@ -147,80 +295,174 @@ export default function Notes() {
               Capture your thoughts and insights
             </p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-            <DialogTrigger asChild>
-              <Button size="lg" onClick={() => handleOpenDialog()} data-testid="button-create-note">
-                <Plus className="mr-2 h-5 w-5" />
-                New Note
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>{editingNote ? "Edit Note" : "Create New Note"}</DialogTitle>
-                <DialogDescription>
-                  {editingNote ? "Update your note" : "Capture your thoughts and ideas"}
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <FormField
-                    control={form.control}
-                    name="title"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Title</FormLabel>
-                        <FormControl>
-                          <Input
-                            placeholder="e.g., Meeting Notes"
-                            data-testid="input-note-title"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name="content"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Content</FormLabel>
-                        <FormControl>
-                          <Textarea
-                            placeholder="Write your note here..."
-                            className="resize-none min-h-[200px]"
-                            data-testid="input-note-content"
-                            {...field}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <div className="space-y-2">
-                    <Label htmlFor="tags">Tags (optional)</Label>
-                    <Input
-                      id="tags"
-                      placeholder="work, ideas, important (comma-separated)"
-                      value={tagInput}
-                      onChange={(e) => setTagInput(e.target.value)}
-                      data-testid="input-note-tags"
+          <div className="flex items-center gap-2 flex-wrap">
+            <Button variant="outline" size="lg" asChild data-testid="link-export-notes">
+              <a href="/api/notes/export" download>
+                <Download className="mr-2 h-5 w-5" />
+                Export
+              </a>
+            </Button>
+            <Button
+              variant="outline"
+              size="lg"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-import-notes"
+            >
+              <Upload className="mr-2 h-5 w-5" />
+              {importMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/zip,.zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button size="lg" onClick={() => handleOpenDialog()} data-testid="button-create-note">
+                  <Plus className="mr-2 h-5 w-5" />
+                  New Note
+                </Button>
+              </DialogTrigger>
+              <DialogContent
+                className="max-w-2xl max-h-[90vh] overflow-y-auto"
+                onEscapeKeyDown={(e) => isClosingSuggestions(e) && e.preventDefault()}
+              >
+                <DialogHeader>
+                  <DialogTitle>{editingNote ? "Edit Note" : "Create New Note"}</DialogTitle>
+                  <DialogDescription>
+                    {editingNote ? "Update your note" : "Capture your thoughts and ideas"}
+                  </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="title"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Title</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="e.g., Meeting Notes"
+                              data-testid="input-note-title"
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
                     />
-                  </div>
-                  <DialogFooter>
-                    <Button
-                      type="submit"
-                      disabled={createNoteMutation.isPending || updateNoteMutation.isPending}
-                      data-testid="button-submit-note"
-                    >
-                      {editingNote ? "Update Note" : "Create Note"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <FormField
+                      control={form.control}
+                      name="content"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center justify-between gap-2">
+                            <FormLabel>Content</FormLabel>
+                            <Tabs
+                              value={previewing ? "preview" : "write"}
+                              onValueChange={(value) => setPreviewing(value === "preview")}
+                            >
+                              <TabsList className="h-8">
+                                <TabsTrigger value="write" className="text-xs" data-testid="tab-note-write">
+                                  Write
+                                </TabsTrigger>
+                                <TabsTrigger value="preview" className="text-xs" data-testid="tab-note-preview">
+                                  Preview
+                                </TabsTrigger>
+                              </TabsList>
+                            </Tabs>
+                          </div>
+                          {previewing ? (
+                            <div
+                              className="min-h-[200px] max-h-[50vh] overflow-auto rounded-md border px-3 py-2"
+                              data-testid="preview-note-content"
+                            >
+                              {field.value.trim() ? (
+                                <Markdown content={field.value} wikiLinks />
+                              ) : (
+                                <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                              )}
+                            </div>
+                          ) : (
+                            <FormControl>
+                              <WikiLinkTextarea
+                                placeholder="Write your note here... Markdown is supported, and [[Note Title]] links to another note."
+                                className="resize-none min-h-[200px]"
+                                data-testid="input-note-content"
+                                titles={linkTitles}
+                                name={field.name}
+                                value={field.value}
+                                onValueChange={field.onChange}
+                                onBlur={field.onBlur}
+                                ref={field.ref}
+                              />
+                            </FormControl>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="space-y-2">
+                      <Label htmlFor="tags">Tags (optional)</Label>
+                      <Input
+                        id="tags"
+                        placeholder="work, ideas, important (comma-separated)"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        data-testid="input-note-tags"
+                      />
+                      {form.formState.errors.tags && (
+                        <p className="text-sm font-medium text-destructive" data-testid="error-note-tags">
+                          {form.formState.errors.tags.message}
+                        </p>
+                      )}
+                    </div>
+                    {editingNote && backlinks && backlinks.length > 0 && (
+                      <div className="space-y-2" data-testid="note-backlinks">
+                        <h3 className="flex items-center gap-1.5 text-sm font-medium">
+                          <Link2 className="h-4 w-4" />
+                          Linked from {backlinks.length} {backlinks.length === 1 ? "note" : "notes"}
+                        </h3>
+                        <div className="space-y-1">
+                          {backlinks.map((source) => (
+                            <button
+                              key={source.id}
+                              type="button"
+                              onClick={() => handleOpenDialog(source)}
+                              className="block w-full rounded-md border px-3 py-2 text-left hover-elevate"
+                              data-testid={`backlink-${source.id}`}
+                            >
+                              <span className="block text-sm font-medium truncate">{source.title}</span>
+                              <span className="block text-xs text-muted-foreground line-clamp-2">
+                                {linkContext(source.content, editingNote.title)}
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <DialogFooter>
+                      <Button
+                        type="submit"
+                        disabled={createNoteMutation.isPending || updateNoteMutation.isPending}
+                        data-testid="button-submit-note"
+                      >
+                        {editingNote ? "Update Note" : "Create Note"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Stats */}
@@ -230,7 +472,7 @@ export default function Notes() {
               <div className="space-y-2">
                 <StickyNote className="h-5 w-5 text-primary" />
                 <div className="text-3xl font-bold" data-testid="stat-total-notes">
-                  {notes?.length || 0}
+                  {noteCount ?? 0}
                 </div>
                 <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide">
                   Total Notes
@@ -240,6 +482,52 @@ export default function Notes() {
           </Card>
         </div>
 
+        {!!noteCount && (
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="relative flex-1 max-w-md">
+              <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                type="search"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter notes..."
+                className="pl-9"
+                data-testid="input-filter-notes"
+              />
+            </div>
+            {!filterQuery && (
+              <>
+                <Select value={noteOrder} onValueChange={(value) => setNoteOrder(value as typeof noteOrder)}>
+                  <SelectTrigger className="w-44" data-testid="select-note-order">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {noteOrders.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {tagFilter && (
+                  <Badge variant="secondary" className="gap-1 pr-1" data-testid="badge-note-tag-filter">
+                    Tagged {tagFilter}
+                    <button
+                      type="button"
+                      onClick={() => setTagFilter(null)}
+                      className="rounded-sm p-0.5 hover-elevate"
+                      aria-label="Show all tags"
+                      data-testid="button-clear-tag-filter"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* Notes Grid */}
         {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -247,7 +535,7 @@ export default function Notes() {
             <Skeleton className="h-48 w-full" />
             <Skeleton className="h-48 w-full" />
           </div>
-        ) : notes?.length === 0 ? (
+        ) : noteCount === 0 ? (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-16 text-center">
               <StickyNote className="h-16 w-16 text-muted-foreground/50 mb-4" />
@@ -261,9 +549,13 @@ export default function Notes() {
               </Button>
             </CardContent>
           </Card>
+        ) : filterQuery && visibleNotes?.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground" data-testid="text-no-matching-notes">
+            No notes match "{filterQuery}"
+          </p>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {notes.map((note) => (
+            {visibleNotes?.map((note) => (
               <Card key={note.id} className="flex flex-col" data-testid={`note-${note.id}`}>
                 <CardHeader className="space-y-2">
                   <div className="flex items-start justify-between gap-2">
@@ -280,6 +572,16 @@ export default function Notes() {
                       >
                         <Edit2 className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryNoteId(note.id)}
+                        className="h-8 w-8 p-0"
+                        title="History"
+                        data-testid={`button-history-note-${note.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -294,17 +596,32 @@ export default function Notes() {
                   {note.tags && note.tags.length > 0 && (
                     <div className="flex flex-wrap gap-2">
                       {note.tags.map((tag, idx) => (
-                        <Badge key={idx} variant="secondary" className="text-xs">
-                          {tag}
-                        </Badge>
+                        <button
+                          key={idx}
+                          type="button"
+                          onClick={() => setTagFilter(tag)}
+                          title={`Show notes tagged ${tag}`}
+                          data-testid={`button-note-tag-${tag}`}
+                        >
+                          <Badge variant="secondary" className="text-xs">
+                            {tag}
+                          </Badge>
+                        </button>
                       ))}
                     </div>
                   )}
                 </CardHeader>
                 <CardContent className="flex-1 flex flex-col justify-between gap-4">
-                  <p className="text-sm text-muted-foreground line-clamp-6 whitespace-pre-wrap">
-                    {note.content}
-                  </p>
+                  {snippets.get(note.id)?.length ? (
+                    <SearchSnippet
+                      parts={snippets.get(note.id)!}
+                      className="block text-sm text-muted-foreground line-clamp-6 whitespace-pre-wrap"
+                    />
+                  ) : (
+                    <div className="max-h-40 overflow-hidden [mask-image:linear-gradient(to_bottom,black_75%,transparent)]">
+                      <Markdown content={note.content} wikiLinks />
+                    </div>
+                  )}
                   <p className="text-xs text-muted-foreground font-mono">
                     {format(new Date(note.createdAt), "MMM d, yyyy 'at' h:mm a")}
                   </p>
@@ -313,7 +630,17 @@ export default function Notes() {
             ))}
           </div>
         )}
+
+        {!filterQuery && <LoadMore list={grid} />}
       </div>
+
+      {historyNote && (
+        <NoteHistory
+          note={historyNote}
+          open
+          onOpenChange={(open) => !open && setHistoryNoteId(null)}
+        />
+      )}
     </div>
   );
 }
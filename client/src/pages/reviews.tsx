@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { RefreshCw, ScrollText } from "lucide-react";
+import { summaryPeriods, type Summary, type SummaryPeriod } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  SUMMARIES_PATH,
+  SummaryContent,
+  periodLabel,
+  periodNames,
+  useRegenerateSummary,
+} from "@/components/review-card";
+
+// Every review written so far, latest period first
+export default function Reviews() {
+  const [period, setPeriod] = useState<SummaryPeriod | "all">("all");
+  const { data: summaries, isLoading } = useQuery<Summary[]>({
+    queryKey: [SUMMARIES_PATH],
+    // Reviews are written as they're first viewed, e.g. on the dashboard
+    staleTime: 0,
+  });
+  const regenerate = useRegenerateSummary();
+
+  const shown = summaries?.filter((summary) => period === "all" || summary.period === period) ?? [];
+
+  return (
+    <div className="flex-1 overflow-auto">
+      <div className="mx-auto max-w-4xl p-6 space-y-8">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold">Reviews</h1>
+            <p className="text-lg text-muted-foreground">Look back on your days, weeks and months</p>
+          </div>
+          <Select value={period} onValueChange={(value) => setPeriod(value as SummaryPeriod | "all")}>
+            <SelectTrigger className="w-36" data-testid="select-review-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All periods</SelectItem>
+              {summaryPeriods.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {periodNames[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-48 w-full" />
+            <Skeleton className="h-48 w-full" />
+          </div>
+        ) : shown.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 text-center">
+            <ScrollText className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <p className="text-sm text-muted-foreground">
+              No reviews yet. Open the dashboard to get your first one.
+            </p>
+          </div>
+        ) : (
+          shown.map((summary) => (
+            <Card key={summary.id} data-testid={`summary-${summary.id}`}>
+              <CardHeader className="flex flex-row items-start justify-between gap-2 space-y-0 pb-4">
+                <div className="space-y-1">
+                  <CardTitle className="flex items-center gap-2 text-xl">
+                    {periodLabel(summary)}
+                    <Badge variant="outline">{periodNames[summary.period]}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    Written {new Date(summary.createdAt).toLocaleString()}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => regenerate.mutate({ period: summary.period, date: summary.start })}
+                  disabled={regenerate.isPending}
+                  title="Regenerate"
+                  data-testid={`button-regenerate-${summary.id}`}
+                >
+                  <RefreshCw
+                    className={`h-4 w-4 ${
+                      regenerate.isPending && regenerate.variables?.date === summary.start ? "animate-spin" : ""
+                    }`}
+                  />
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <SummaryContent summary={summary} />
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
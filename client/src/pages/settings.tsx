@@ -0,0 +1,205 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Database, Download, Upload } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RestoreMode, RestoreResult, WorkspaceData } from "@shared/schema";
+
+const recordLabels: Record<keyof WorkspaceData, string> = {
+  conversations: "Conversations",
+  messages: "Messages",
+  goals: "Goals",
+  goalTasks: "Goal tasks",
+  habitCheckins: "Habit check-ins",
+  notes: "Notes",
+  noteRevisions: "Note revisions",
+  activities: "Activities",
+};
+
+export default function Settings() {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ file, mode }: { file: File; mode: RestoreMode }) => {
+      let backup: unknown;
+      try {
+        backup = JSON.parse(await file.text());
+      } catch {
+        throw new Error("That file isn't valid JSON.");
+      }
+      return apiRequest<RestoreResult>("POST", `/api/restore?mode=${mode}`, backup);
+    },
+    onSuccess: (restored) => {
+      // Anything on any page may have changed
+      queryClient.invalidateQueries();
+      setResult(restored);
+      toast({
+        title: "Backup restored",
+        description: restored.mode === "replace" ? "Your workspace was replaced." : "New records were added.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (file: File) => {
+    setResult(null);
+    // Replacing deletes everything first, so ask before doing it
+    if (mode === "replace") {
+      setPendingFile(file);
+    } else {
+      restoreMutation.mutate({ file, mode });
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-auto h-full">
+      <div className="mx-auto max-w-3xl p-6 space-y-8">
+        {/* Header */}
+        <div className="space-y-2">
+          <h1 className="text-4xl font-bold">Settings</h1>
+          <p className="text-lg text-muted-foreground">Manage your workspace</p>
+        </div>
+
+        {/* Data */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Data
+            </CardTitle>
+            <CardDescription>
+              Back up every conversation, goal, note and activity to a file, or restore one to move between instances
+              or undo a bad edit.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Backup</h3>
+              <Button variant="outline" asChild data-testid="link-download-backup">
+                <a href="/api/backup" download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download backup
+                </a>
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Restore</h3>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" data-testid="radio-restore-merge" />
+                  <Label htmlFor="restore-merge" className="space-y-1 font-normal">
+                    <span className="block font-medium">Merge</span>
+                    <span className="block text-sm text-muted-foreground">
+                      Keep everything here and add what's new in the backup
+                    </span>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem
+                    value="replace"
+                    id="restore-replace"
+                    className="mt-0.5"
+                    data-testid="radio-restore-replace"
+                  />
+                  <Label htmlFor="restore-replace" className="space-y-1 font-normal">
+                    <span className="block font-medium">Replace</span>
+                    <span className="block text-sm text-muted-foreground">
+                      Delete this workspace's data, then restore the backup
+                    </span>
+                  </Label>
+                </div>
+              </RadioGroup>
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={restoreMutation.isPending}
+                data-testid="button-restore-backup"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {restoreMutation.isPending ? "Restoring..." : "Restore from file..."}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+
+            {result && (
+              <div className="rounded-md border" data-testid="restore-result">
+                <div className="grid grid-cols-4 gap-2 border-b px-4 py-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  <span>Record</span>
+                  <span className="text-right">Restored</span>
+                  <span className="text-right">Skipped</span>
+                  <span className="text-right">New id</span>
+                </div>
+                {(Object.keys(recordLabels) as (keyof WorkspaceData)[]).map((kind) => (
+                  <div key={kind} className="grid grid-cols-4 gap-2 px-4 py-2 text-sm">
+                    <span>{recordLabels[kind]}</span>
+                    <span className="text-right font-mono">{result.counts[kind].restored}</span>
+                    <span className="text-right font-mono">{result.counts[kind].skipped}</span>
+                    <span className="text-right font-mono">{result.counts[kind].remapped}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AlertDialog open={!!pendingFile} onOpenChange={(open) => !open && setPendingFile(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace your workspace?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All conversations, goals, notes and activity here will be deleted and replaced with the contents of{" "}
+              {pendingFile?.name}. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingFile) restoreMutation.mutate({ file: pendingFile, mode: "replace" });
+                setPendingFile(null);
+              }}
+              data-testid="button-confirm-replace"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
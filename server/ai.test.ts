@@ -0,0 +1,60 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { chatWithAI, setAIProvider } from "./ai";
+import { LocalProvider } from "./local-ai";
+import { createChatTools } from "./tools";
+import { MemStorage } from "./storage";
+
+// Chat turns against the deterministic local provider, with the chat tools
+// running on in-memory storage
+
+describe("chat with the local provider", () => {
+  let storage: MemStorage;
+  let userId: string;
+
+  beforeEach(async () => {
+    setAIProvider(new LocalProvider());
+    storage = new MemStorage();
+    ({ id: userId } = await storage.createUser({ username: "ada", password: "secret" }));
+  });
+
+  test("echoes the message", async () => {
+    const reply = await chatWithAI("hello there", []);
+    assert.deepEqual(reply, { text: "You said: hello there", actions: [] });
+  });
+
+  test("calls the tool a slash command names", async () => {
+    const reply = await chatWithAI('/create_goal {"title": "Run a 10k", "category": "health"}', [], {
+      tools: createChatTools(storage, userId),
+    });
+
+    const [goal] = await storage.getGoals(userId);
+    assert.equal(goal.title, "Run a 10k");
+    assert.equal(reply.text, "Done: create_goal.");
+    assert.equal(reply.actions.length, 1);
+    assert.equal(reply.actions[0].entityId, goal.id);
+  });
+
+  test("answers arguments that aren't JSON instead of calling the tool", async () => {
+    const reply = await chatWithAI("/create_goal {oops}", [], { tools: createChatTools(storage, userId) });
+
+    assert.match(reply.text, /^The arguments of \/create_goal aren't valid JSON: /);
+    assert.deepEqual(reply.actions, []);
+    assert.deepEqual(await storage.getGoals(userId), []);
+  });
+
+  test("plays back a script", async () => {
+    setAIProvider(
+      new LocalProvider({
+        replies: [
+          { text: "Noted.", toolCalls: [{ name: "create_note", args: { title: "Idea", content: "Kites" } }] },
+          "All set.",
+        ],
+      })
+    );
+    const reply = await chatWithAI("remember kites", [], { tools: createChatTools(storage, userId) });
+
+    assert.equal(reply.text, "Noted.\n\nAll set.");
+    assert.deepEqual((await storage.getNotes(userId)).map((note) => note.content), ["Kites"]);
+  });
+});
@@ -0,0 +1,328 @@
+import { GeminiProvider } from "./gemini";
+import { LocalProvider } from "./local-ai";
+import { log } from "./vite";
+import type { ChatAction } from "@shared/schema";
+import type { Memory } from "./memory";
+
+export type AIToolCall = {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Opaque provider data that must be echoed back with the call (Gemini thought signatures)
+  signature?: string;
+};
+
+export type AIToolResult = {
+  callId: string;
+  name: string;
+  result: unknown;
+};
+
+export type AIMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: AIToolCall[] }
+  | { role: "tool"; results: AIToolResult[] };
+
+export type AIToolDeclaration = {
+  name: string;
+  description: string;
+  parameters: AIJsonSchema;
+};
+
+export type AIChatRequest = {
+  system?: string;
+  messages: AIMessage[];
+  tools?: AIToolDeclaration[];
+  signal?: AbortSignal;
+};
+
+export type AIChatResult = {
+  text: string;
+  toolCalls: AIToolCall[];
+};
+
+export type AIStreamChunk = {
+  text?: string;
+  toolCalls?: AIToolCall[];
+};
+
+// The subset of JSON Schema that every provider understands for structured output
+export type AIJsonSchema = {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  items?: AIJsonSchema;
+  properties?: Record<string, AIJsonSchema>;
+  required?: string[];
+};
+
+export interface AIProvider {
+  readonly name: string;
+  chat(request: AIChatRequest): Promise<AIChatResult>;
+  // Yields text deltas and tool calls; stops early once request.signal is aborted
+  chatStream(request: AIChatRequest): AsyncIterable<AIStreamChunk>;
+  generateJSON(prompt: string, schema: AIJsonSchema): Promise<unknown>;
+  // Optional: one vector per text, used to re-rank long-term memory (server/memory.ts)
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+// Tools the model may call while replying, see server/tools.ts
+export interface AIToolSet {
+  declarations: AIToolDeclaration[];
+  execute(call: AIToolCall): Promise<{ result: unknown; action?: ChatAction }>;
+}
+
+export type ChatReply = {
+  text: string;
+  actions: ChatAction[];
+};
+
+export type ChatOptions = {
+  // Tools the model may call while replying
+  tools?: AIToolSet;
+  // Recalled notes, goals and earlier conversations, see server/memory.ts
+  memories?: Memory[];
+  // Stops a streaming reply early
+  signal?: AbortSignal;
+};
+
+export type ChatReplyChunk = { type: "text"; text: string } | { type: "action"; action: ChatAction };
+
+// Upper bound on model -> tool -> model round trips for a single reply
+const MAX_TOOL_ROUNDS = 5;
+
+// AI_PROVIDER picks the implementation ("gemini" or "local"). Without it we use
+// Gemini when an API key is configured and the offline local provider otherwise.
+function createProvider(): AIProvider {
+  const name = process.env.AI_PROVIDER || (process.env.GEMINI_API_KEY ? "gemini" : "local");
+
+  switch (name) {
+    case "gemini":
+      return new GeminiProvider(
+        process.env.GEMINI_API_KEY || "",
+        process.env.GEMINI_MODEL,
+        process.env.GEMINI_EMBEDDING_MODEL
+      );
+    case "local":
+      return process.env.AI_LOCAL_SCRIPT
+        ? LocalProvider.fromFile(process.env.AI_LOCAL_SCRIPT)
+        : new LocalProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}", expected "gemini" or "local"`);
+  }
+}
+
+let provider: AIProvider | undefined;
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createProvider();
+    log(`using ${provider.name} AI provider`, "ai");
+  }
+  return provider;
+}
+
+// Swap the provider at runtime, e.g. to a scripted LocalProvider in tests
+export function setAIProvider(next: AIProvider) {
+  provider = next;
+}
+
+const systemPrompt = `You are AstraMind, an intelligent AI assistant and personal life operating system. You help users manage their life, learning, and creativity through natural conversation.
+
+Your capabilities:
+- Help users plan their day and set goals
+- Provide learning support and explain complex topics
+- Offer productivity insights and suggestions
+- Be conversational, supportive, and personalized
+- Remember context from the conversation and from the user's notes, goals and earlier conversations
+
+When tools are available, use them to create and update the user's goals and notes instead of asking them to do it by hand. Look up existing goals or notes before changing them, and briefly confirm what you did.
+
+Respond naturally and helpfully. Keep responses concise but informative.`;
+
+const memoryLabels = {
+  note: "Note",
+  goal: "Goal",
+  conversation: "Earlier conversation",
+};
+
+function buildSystemPrompt(memories: Memory[] = []) {
+  if (memories.length === 0) return systemPrompt;
+
+  const recalled = memories
+    .map((memory) => `- ${memoryLabels[memory.type]} "${memory.title}": ${memory.snippet}`)
+    .join("\n");
+  return `${systemPrompt}
+
+Relevant memories from the user's notes, goals and earlier conversations. Use them when they help with the current message and ignore them otherwise:
+${recalled}`;
+}
+
+function buildMessages(
+  message: string,
+  conversationHistory: Array<{ role: string; content: string }>
+): AIMessage[] {
+  return [
+    ...conversationHistory.map((msg): AIMessage =>
+      msg.role === "assistant"
+        ? { role: "assistant", content: msg.content }
+        : { role: "user", content: msg.content }
+    ),
+    { role: "user", content: message },
+  ];
+}
+
+// Runs the requested tools and appends the call and its results to the conversation
+async function runToolCalls(
+  messages: AIMessage[],
+  text: string,
+  toolCalls: AIToolCall[],
+  tools: AIToolSet
+): Promise<ChatAction[]> {
+  const actions: ChatAction[] = [];
+  const results: AIToolResult[] = [];
+
+  for (const call of toolCalls) {
+    const { result, action } = await tools.execute(call);
+    results.push({ callId: call.id, name: call.name, result });
+    if (action) actions.push(action);
+  }
+
+  messages.push({ role: "assistant", content: text, toolCalls });
+  messages.push({ role: "tool", results });
+  return actions;
+}
+
+export async function chatWithAI(
+  message: string,
+  conversationHistory: Array<{ role: string; content: string }>,
+  { tools, memories }: ChatOptions = {}
+): Promise<ChatReply> {
+  try {
+    const messages = buildMessages(message, conversationHistory);
+    const actions: ChatAction[] = [];
+    const paragraphs: string[] = [];
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const response = await getAIProvider().chat({
+        system: buildSystemPrompt(memories),
+        messages,
+        tools: tools?.declarations,
+      });
+      if (response.text) paragraphs.push(response.text);
+
+      if (!tools || response.toolCalls.length === 0) break;
+      actions.push(...(await runToolCalls(messages, response.text, response.toolCalls, tools)));
+    }
+
+    return {
+      text: paragraphs.join("\n\n") || "I'm sorry, I couldn't generate a response. Please try again.",
+      actions,
+    };
+  } catch (error) {
+    console.error("Error calling AI provider:", error);
+    throw new Error("Failed to get AI response");
+  }
+}
+
+// Yields text deltas and completed tool actions as the provider produces them.
+// Stops early once `signal` is aborted.
+export async function* streamChatWithAI(
+  message: string,
+  conversationHistory: Array<{ role: string; content: string }>,
+  { tools, memories, signal }: ChatOptions = {}
+): AsyncGenerator<ChatReplyChunk> {
+  try {
+    const messages = buildMessages(message, conversationHistory);
+    let replied = false;
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const stream = getAIProvider().chatStream({
+        system: buildSystemPrompt(memories),
+        messages,
+        tools: tools?.declarations,
+        signal,
+      });
+
+      let text = "";
+      const toolCalls: AIToolCall[] = [];
+      for await (const chunk of stream) {
+        if (signal?.aborted) return;
+        if (chunk.text) {
+          // Separate the text of successive tool rounds like chatWithAI does
+          if (!text && replied) yield { type: "text", text: "\n\n" };
+          text += chunk.text;
+          replied = true;
+          yield { type: "text", text: chunk.text };
+        }
+        if (chunk.toolCalls) toolCalls.push(...chunk.toolCalls);
+      }
+
+      if (!tools || toolCalls.length === 0 || signal?.aborted) return;
+      for (const action of await runToolCalls(messages, text, toolCalls, tools)) {
+        yield { type: "action", action };
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    console.error("Error streaming AI response:", error);
+    throw new Error("Failed to get AI response");
+  }
+}
+
+// What a period review is written from, already put into words by
+// server/summaries.ts
+export type ReviewRequest = {
+  period: string; // e.g. "the week of Oct 12 - Oct 18, 2026"
+  stats: string[];
+  activities: string[];
+  goals: string[];
+  notes: string[];
+};
+
+export type Review = {
+  headline: string;
+  highlights: string[];
+  suggestions: string[];
+};
+
+const reviewSchema: AIJsonSchema = {
+  type: "object",
+  properties: {
+    headline: { type: "string", description: "One sentence summing up the period" },
+    highlights: { type: "array", items: { type: "string" }, description: "3-5 specific things that happened" },
+    suggestions: { type: "array", items: { type: "string" }, description: "2-3 concrete next steps" },
+  },
+  required: ["headline", "highlights", "suggestions"],
+};
+
+const list = (lines: string[]) => (lines.length > 0 ? lines.map((line) => `- ${line}`).join("\n") : "- (none)");
+
+// Writes a review of a period. Parts the provider leaves empty come back
+// empty, for the caller to fill in; provider errors are thrown, so that
+// nothing is cached from a failed call.
+export async function generateReview(request: ReviewRequest): Promise<Review> {
+  const prompt = `Write a short, encouraging review of ${request.period} for the user of a personal productivity app, based only on what they actually did. Mention their goals and notes by name where it helps, and don't invent anything.
+
+Numbers:
+${list(request.stats)}
+
+What they did:
+${list(request.activities)}
+
+Their goals:
+${list(request.goals)}
+
+Notes they wrote or edited:
+${list(request.notes)}
+
+Answer with a JSON object: "headline" (one sentence), "highlights" (3-5 specific observations) and "suggestions" (2-3 concrete next steps).`;
+
+  const output = (await getAIProvider().generateJSON(prompt, reviewSchema)) as Partial<Review> | null;
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.map(String).filter((text) => text.trim().length > 0) : [];
+  return {
+    headline: typeof output?.headline === "string" ? output.headline.trim() : "",
+    highlights: strings(output?.highlights),
+    suggestions: strings(output?.suggestions),
+  };
+}
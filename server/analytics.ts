@@ -0,0 +1,122 @@
+import { z } from "zod";
+import {
+  analyticsBuckets,
+  DEFAULT_ANALYTICS_DAYS,
+  MAX_ANALYTICS_DAYS,
+  type Activity,
+  type Analytics,
+  type AnalyticsBucket,
+  type AnalyticsCounts,
+  type User,
+} from "@shared/schema";
+import { addDays, localDate, startOfWeek } from "@shared/recurrence";
+import type { IStorage } from "./storage";
+
+// Productivity analytics, worked out from the activity log. Days are local
+// to the user's timezone, like habit days.
+
+export type AnalyticsRange = { from: string; to: string; bucket: AnalyticsBucket };
+
+// ?from=&to= are local days, both included; the last 30 days by default
+export const analyticsQuery = z
+  .object({
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+    bucket: z.enum(analyticsBuckets).default("day"),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, { message: "from must not be after to", path: ["from"] });
+
+// Fills in the default days of a parsed query. Returns an error message when
+// the range is too long.
+export function analyticsRange(query: z.infer<typeof analyticsQuery>, user: User): AnalyticsRange | string {
+  const to = query.to ?? localDate(user.timezone);
+  const from = query.from ?? addDays(to, 1 - DEFAULT_ANALYTICS_DAYS);
+  if (from < addDays(to, 1 - MAX_ANALYTICS_DAYS)) {
+    return `A range can span at most ${MAX_ANALYTICS_DAYS} days`;
+  }
+  return { from, to, bucket: query.bucket };
+}
+
+// The first day of the bucket holding `date`
+export function bucketStart(date: string, bucket: AnalyticsBucket): string {
+  switch (bucket) {
+    case "day":
+      return date;
+    case "week":
+      return startOfWeek(date);
+    case "month":
+      return `${date.slice(0, 8)}01`;
+  }
+}
+
+// The first day of the bucket after the one starting on `start`
+export function nextBucket(start: string, bucket: AnalyticsBucket): string {
+  switch (bucket) {
+    case "day":
+      return addDays(start, 1);
+    case "week":
+      return addDays(start, 7);
+    case "month": {
+      const [year, month] = start.split("-").map(Number);
+      return month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, "0")}-01`;
+    }
+  }
+}
+
+const emptyCounts = (): AnalyticsCounts => ({ chats: 0, progress: 0, completions: 0, notes: 0 });
+
+function count(counts: AnalyticsCounts, activity: Activity) {
+  const { type, metadata } = activity;
+  if (type === "chat") counts.chats++;
+  if (type === "goal_completed" || type === "task_completed") counts.completions++;
+  if (type === "note_created") counts.notes++;
+
+  const from = metadata?.oldProgress;
+  const to = metadata?.newProgress;
+  if (typeof from === "number" && typeof to === "number" && to > from) counts.progress += to - from;
+}
+
+// The user's activities on local days `from` to `to`, oldest first
+export async function activitiesBetween(storage: IStorage, user: User, from: string, to: string): Promise<Activity[]> {
+  // Timezones are at most 14 hours off UTC, so a day either side covers every
+  // local day in the range; activities outside it are dropped after
+  const { items } = await storage.listActivities(user.id, {
+    sort: "createdAt",
+    order: "asc",
+    from: new Date(`${addDays(from, -1)}T00:00:00Z`),
+    to: new Date(`${addDays(to, 2)}T00:00:00Z`),
+  });
+  return items.filter((activity) => {
+    const day = localDate(user.timezone, new Date(activity.createdAt));
+    return day >= from && day <= to;
+  });
+}
+
+// Analytics of activities already limited to the range
+export function computeAnalytics(activities: Activity[], user: User, range: AnalyticsRange): Analytics {
+  const series = new Map<string, AnalyticsCounts>();
+  for (let start = bucketStart(range.from, range.bucket); start <= range.to; start = nextBucket(start, range.bucket)) {
+    series.set(start, emptyCounts());
+  }
+  const days = new Map<string, number>();
+  const totals = { ...emptyCounts(), activities: 0 };
+
+  activities.forEach((activity) => {
+    const day = localDate(user.timezone, new Date(activity.createdAt));
+    count(series.get(bucketStart(day, range.bucket))!, activity);
+    count(totals, activity);
+    totals.activities++;
+    days.set(day, (days.get(day) ?? 0) + 1);
+  });
+
+  return {
+    ...range,
+    series: Array.from(series, ([start, counts]) => ({ start, ...counts })),
+    heatmap: Array.from(days, ([date, count]) => ({ date, count })).sort((a, b) => a.date.localeCompare(b.date)),
+    totals,
+  };
+}
+
+export async function getAnalytics(storage: IStorage, user: User, range: AnalyticsRange): Promise<Analytics> {
+  return computeAnalytics(await activitiesBetween(storage, user, range.from, range.to), user, range);
+}
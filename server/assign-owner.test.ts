@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { conversations, messages, notes, users } from "@shared/schema";
+import { assignOwner } from "./assign-owner";
+import { createTestDb } from "./test-db";
+
+// A database from before user accounts, with a few ownerless records
+const beforeAccounts = [
+  "CREATE TABLE conversations (id varchar PRIMARY KEY, title text NOT NULL)",
+  "CREATE TABLE messages (id varchar PRIMARY KEY, conversation_id varchar NOT NULL, content text NOT NULL)",
+  "CREATE TABLE goals (id varchar PRIMARY KEY, title text NOT NULL)",
+  "CREATE TABLE notes (id varchar PRIMARY KEY, title text NOT NULL)",
+  "INSERT INTO conversations VALUES ('c1', 'Plans'), ('c2', 'Trips')",
+  "INSERT INTO messages VALUES ('m1', 'c1', 'Hi')",
+  "INSERT INTO notes VALUES ('n1', 'Ideas')",
+];
+
+test("gives every record of a database from before accounts to one account", async () => {
+  const db = await createTestDb(beforeAccounts);
+
+  // No activities table yet, and no goals
+  assert.deepEqual(await assignOwner(db, "ada", "hash"), { conversations: 2, messages: 1, goals: 0, notes: 1 });
+
+  const [owner] = await db.select().from(users);
+  assert.equal(owner.username, "ada");
+  assert.equal(owner.timezone, "UTC");
+  for (const table of [conversations, messages, notes]) {
+    const rows = await db.select({ userId: table.userId }).from(table);
+    assert.ok(rows.every((row) => row.userId === owner.id));
+  }
+});
+
+test("changes nothing when run again", async () => {
+  const db = await createTestDb(beforeAccounts);
+  await assignOwner(db, "ada", "hash");
+
+  assert.deepEqual(await assignOwner(db, "ada", "other hash"), { conversations: 0, messages: 0, goals: 0, notes: 0 });
+  const accounts = await db.select().from(users);
+  assert.deepEqual(
+    accounts.map(({ username, password }) => [username, password]),
+    [["ada", "hash"]]
+  );
+});
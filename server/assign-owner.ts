@@ -0,0 +1,99 @@
+import { pathToFileURL } from "url";
+import { eq, isNull, sql } from "drizzle-orm";
+import { activities, conversations, goals, insertUserSchema, messages, notes, users } from "@shared/schema";
+import { createDb, createPool, type Database } from "./db";
+import { hashPassword } from "./passwords";
+
+// One-off migration for a database created before user accounts, whose
+// records have no owner. Run it before `npm run db:push`:
+//
+//   npm run db:assign-owner -- <username> <password>
+//
+// It creates the account (or takes the existing one with that username) and
+// gives it every conversation, message, goal, note and activity, so that the
+// push can make user_id required without dropping data. Running it again
+// changes nothing.
+
+// The tables that existed before accounts
+const ownedTables = { conversations, messages, goals, notes, activities };
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+async function tableExists(tx: Transaction, name: string): Promise<boolean> {
+  // Raw results depend on the driver; node-postgres and Neon both have rows
+  const { rows } = (await tx.execute(sql`SELECT to_regclass(${name}) IS NOT NULL AS exists`)) as unknown as {
+    rows: { exists: boolean }[];
+  };
+  return rows[0].exists;
+}
+
+// Returns how many records each table handed to the owner
+export async function assignOwner(
+  db: Database,
+  username: string,
+  passwordHash: string
+): Promise<Record<string, number>> {
+  return db.transaction(async (tx) => {
+    // As shared/schema.ts defines it, so the push finds nothing to change
+    if (!(await tableExists(tx, "users"))) {
+      await tx.execute(sql`
+        CREATE TABLE users (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          username text NOT NULL,
+          password text NOT NULL,
+          timezone text NOT NULL DEFAULT 'UTC',
+          created_at timestamp NOT NULL DEFAULT now(),
+          CONSTRAINT users_username_unique UNIQUE (username)
+        )
+      `);
+    }
+    await tx.insert(users).values({ username, password: passwordHash }).onConflictDoNothing({ target: users.username });
+    const [owner] = await tx.select({ id: users.id }).from(users).where(eq(users.username, username));
+
+    const assigned: Record<string, number> = {};
+    for (const [name, table] of Object.entries(ownedTables)) {
+      if (!(await tableExists(tx, name))) continue;
+
+      await tx.execute(sql`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS user_id varchar`);
+      const updated = await tx
+        .update(table)
+        .set({ userId: owner.id })
+        .where(isNull(table.userId))
+        .returning({ id: table.id });
+      await tx.execute(sql`ALTER TABLE ${table} ALTER COLUMN user_id SET NOT NULL`);
+      assigned[name] = updated.length;
+    }
+    return assigned;
+  });
+}
+
+async function main() {
+  const [username, password] = process.argv.slice(2);
+  const account = insertUserSchema.safeParse({ username, password });
+  if (!process.env.DATABASE_URL || !account.success) {
+    console.error("Usage: DATABASE_URL=... npm run db:assign-owner -- <username> <password>");
+    if (!account.success) console.error(account.error.issues.map((issue) => issue.message).join("\n"));
+    process.exit(1);
+  }
+
+  const pool = createPool(process.env.DATABASE_URL);
+  try {
+    const assigned = await assignOwner(
+      createDb(pool),
+      account.data.username,
+      await hashPassword(account.data.password)
+    );
+    for (const [table, count] of Object.entries(assigned)) {
+      console.log(`${table}: ${count} assigned to ${account.data.username}`);
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
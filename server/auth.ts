@@ -0,0 +1,198 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import { parse as parseCookies } from "cookie";
+import { unsign } from "cookie-signature";
+import { storage } from "./storage";
+import { comparePasswords, hashPassword } from "./passwords";
+import { insertUserSchema, MAX_PASSWORD_LENGTH, type User as SelectUser, type PublicUser } from "@shared/schema";
+import { isValidTimeZone } from "@shared/recurrence";
+import { sendError } from "./errors";
+import { sendValidationError } from "./validation";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// What passport keeps in the session of a signed-in user
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: string };
+  }
+}
+
+function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+const SESSION_COOKIE = "connect.sid";
+
+let sessions: { store: session.Store; secret: string } | undefined;
+
+// The id of the signed-in user of a request Express doesn't route, i.e. a
+// WebSocket upgrade. Its session cookie is unsigned and looked up in the
+// session store the way express-session does.
+export function sessionUserId(req: IncomingMessage): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const cookie = parseCookies(req.headers.cookie ?? "")[SESSION_COOKIE];
+    if (!sessions || !cookie?.startsWith("s:")) return resolve(undefined);
+    const sid = unsign(cookie.slice(2), sessions.secret);
+    if (sid === false) return resolve(undefined);
+
+    sessions.store.get(sid, (err, data) => {
+      resolve(err ? undefined : data?.passport?.user);
+    });
+  });
+}
+
+// Rejects API requests without a signed-in user
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return sendError(res, 401, "Not authenticated");
+  }
+  next();
+}
+
+// Admins manage the background jobs. They are listed by username in the
+// comma-separated ADMIN_USERNAMES.
+export function isAdmin(user: SelectUser): boolean {
+  const admins = (process.env.ADMIN_USERNAMES ?? "").split(",").map((name) => name.trim());
+  return admins.includes(user.username);
+}
+
+// Rejects requests from signed-in users who aren't admins
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!isAdmin(req.user!)) {
+    return sendError(res, 403, "Only admins can do that");
+  }
+  next();
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  const secret = process.env.SESSION_SECRET || "astramind-dev-secret";
+  const sessionSettings: session.SessionOptions = {
+    name: SESSION_COOKIE,
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    },
+  };
+
+  app.set("trust proxy", 1);
+  sessions = { store: storage.sessionStore, secret };
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        // No account has a longer password, so there's nothing to hash
+        if (password.length > MAX_PASSWORD_LENGTH) return done(null, false);
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const result = insertUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, "Invalid registration data", result.error);
+      }
+
+      const existingUser = await storage.getUserByUsername(result.data.username);
+      if (existingUser) {
+        return sendError(res, 409, "Username already exists");
+      }
+
+      const user = await storage.createUser({
+        username: result.data.username,
+        password: await hashPassword(result.data.password),
+        timezone: result.data.timezone,
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return sendError(res, 401, "Invalid username or password");
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return sendError(res, 401, "Not authenticated");
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Account settings; currently just the timezone that habit days follow
+  app.patch("/api/user", requireAuth, async (req, res, next) => {
+    try {
+      const { timezone } = req.body;
+      if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+        return sendError(res, 400, "Unknown timezone");
+      }
+
+      const user = await storage.updateUser(req.user!.id, { timezone });
+      if (!user) {
+        return sendError(res, 404, "User not found");
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
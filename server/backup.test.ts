@@ -0,0 +1,196 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_TAGS, MAX_TITLE_LENGTH, type WorkspaceData } from "@shared/schema";
+import { createBackup, parseBackup, planRestore, remappedId, type RestoreLookup, type WorkspaceKind } from "./backup";
+import { MemStorage } from "./storage";
+
+// A workspace with one of everything, as uploaded: JSON with string dates
+async function workspace(): Promise<WorkspaceData> {
+  const storage = new MemStorage();
+  const { id: userId } = await storage.createUser({ username: "ada", password: "secret" });
+  const conversation = await storage.createConversation(userId, { title: "Plans" });
+  await storage.createMessage(userId, { conversationId: conversation.id, role: "user", content: "Hi" });
+  const goal = await storage.createGoal(userId, { title: "Run", category: "health", kind: "habit", recurrence: "daily" });
+  await storage.createGoalTask(userId, goal.id, { title: "Shoes" });
+  await storage.createHabitCheckin(userId, goal.id, "2025-03-04");
+  const note = await storage.createNote(userId, { title: "Ideas", content: "v1", tags: ["a"] });
+  await storage.updateNote(userId, note.id, { content: "v2" });
+  await storage.createActivity(userId, {
+    type: "goal_created",
+    description: "Created goal: Run",
+    entityType: "goal",
+    entityId: goal.id,
+  });
+  return JSON.parse(JSON.stringify((await storage.getWorkspace(userId))));
+}
+
+const backupOf = (data: unknown, version = 3) => ({ ...createBackup(data as WorkspaceData), version });
+
+describe("parseBackup", () => {
+  let data: WorkspaceData;
+
+  before(async () => {
+    data = await workspace();
+  });
+
+  test("reads a backup of the current version", () => {
+    const parsed = parseBackup(backupOf(data));
+    assert.ok(typeof parsed !== "string", String(parsed));
+    assert.equal(parsed.notes[0].content, "v2");
+    assert.ok(parsed.goals[0].createdAt instanceof Date);
+    assert.equal(parsed.noteRevisions[0].revision, 1);
+  });
+
+  test("migrates a version 1 backup", () => {
+    const { noteRevisions: _revisions, ...rest } = data;
+    const v1 = {
+      ...rest,
+      activities: data.activities.map(({ entityType: _type, entityId: _id, metadata: _metadata, ...activity }) => activity),
+    };
+    const parsed = parseBackup(backupOf(v1, 1));
+    assert.ok(typeof parsed !== "string", String(parsed));
+    assert.deepEqual(parsed.noteRevisions, []);
+    assert.deepEqual(
+      parsed.activities.map(({ entityType, entityId, metadata }) => [entityType, entityId, metadata]),
+      [[null, null, null]]
+    );
+  });
+
+  test("migrates a version 2 backup, keeping its revisions", () => {
+    const v2 = {
+      ...data,
+      activities: data.activities.map(({ entityType: _type, entityId: _id, metadata: _metadata, ...activity }) => activity),
+    };
+    const parsed = parseBackup(backupOf(v2, 2));
+    assert.ok(typeof parsed !== "string", String(parsed));
+    assert.equal(parsed.noteRevisions.length, 1);
+    assert.equal(parsed.activities[0].entityId, null);
+  });
+
+  test("refuses other files and newer versions", () => {
+    assert.equal(parseBackup({ hello: "world" }), "Not an AstraMind backup");
+    assert.match(String(parseBackup(backupOf(data, 4))), /^This backup is from a newer version \(4\)/);
+  });
+
+  test("holds records to the limits of the API", () => {
+    const cases: [string, WorkspaceData][] = [
+      ["conversations.0.title", { ...data, conversations: [{ ...data.conversations[0], title: "x".repeat(MAX_TITLE_LENGTH + 1) }] }],
+      ["goals.0.progress", { ...data, goals: [{ ...data.goals[0], progress: 150 }] }],
+      ["goals.0.progressMode", { ...data, goals: [{ ...data.goals[0], progressMode: "auto" }] }],
+      ["goals.0.recurrence", { ...data, goals: [{ ...data.goals[0], recurrence: "sometimes" }] }],
+      ["goalTasks.0.weight", { ...data, goalTasks: [{ ...data.goalTasks[0], weight: 0 }] }],
+      ["notes.0.tags", { ...data, notes: [{ ...data.notes[0], tags: Array.from({ length: MAX_TAGS + 1 }, (_, i) => `t${i}`) }] }],
+    ];
+    for (const [path, invalid] of cases) {
+      assert.match(String(parseBackup(backupOf(invalid))), new RegExp(`^Invalid backup: ${path.replace(/\./g, "\\.")}: `), path);
+    }
+  });
+
+  test("refuses records that don't fit together", () => {
+    const [conversation] = data.conversations;
+    const [checkin] = data.habitCheckins;
+    const [revision] = data.noteRevisions;
+    assert.equal(
+      parseBackup(backupOf({ ...data, conversations: [] })),
+      `Invalid backup: ${data.messages[0].id} belongs to a record that isn't in the backup`
+    );
+    assert.equal(
+      parseBackup(backupOf({ ...data, conversations: [conversation, conversation] })),
+      `Invalid backup: duplicate id ${conversation.id} in conversations`
+    );
+    assert.equal(
+      parseBackup(backupOf({ ...data, habitCheckins: [checkin, { ...checkin, id: "other" }] })),
+      `Invalid backup: two check-ins for ${checkin.goalId} on ${checkin.date}`
+    );
+    assert.equal(
+      parseBackup(backupOf({ ...data, noteRevisions: [revision, { ...revision, id: "other" }] })),
+      `Invalid backup: two revisions 1 of ${revision.noteId}`
+    );
+  });
+});
+
+describe("planRestore", () => {
+  let data: WorkspaceData;
+
+  before(async () => {
+    const parsed = parseBackup(backupOf(await workspace()));
+    assert.ok(typeof parsed !== "string");
+    data = parsed;
+  });
+
+  // Storage holding the given records, by kind and id, for their owners
+  function lookup(owners: Partial<Record<WorkspaceKind, Record<string, string>>>, taken: Partial<RestoreLookup> = {}) {
+    return {
+      owner: (kind: WorkspaceKind, id: string) => owners[kind]?.[id],
+      hasCheckin: () => false,
+      hasRevision: () => false,
+      ...taken,
+    };
+  }
+
+  test("writes everything into an empty workspace, under the restoring user", () => {
+    const { rows, result } = planRestore("me", data, "replace", lookup({}));
+    assert.equal(rows.messages[0].conversationId, data.conversations[0].id);
+    assert.ok(Object.values(rows).every((records) => records.every((record) => record.userId === "me")));
+    assert.deepEqual(result.counts.goals, { restored: 1, skipped: 0, remapped: 0 });
+    assert.equal(rows.activities[0].entityId, data.goals[0].id);
+  });
+
+  test("skips records the user already has", () => {
+    const goalId = data.goals[0].id;
+    const { rows, result } = planRestore("me", data, "merge", lookup({ goals: { [goalId]: "me" } }));
+    assert.deepEqual(rows.goals, []);
+    assert.deepEqual(result.counts.goals, { restored: 0, skipped: 1, remapped: 0 });
+    // Tasks and check-ins still point at the existing goal
+    assert.equal(rows.goalTasks[0].goalId, goalId);
+  });
+
+  test("gives records whose ids another user has new ids, and rewrites references to them", () => {
+    const [conversation] = data.conversations;
+    const [goal] = data.goals;
+    const { rows, result } = planRestore(
+      "me",
+      data,
+      "merge",
+      lookup({ conversations: { [conversation.id]: "someone" }, goals: { [goal.id]: "someone" } })
+    );
+
+    const conversationId = remappedId("me", conversation.id);
+    assert.equal(rows.conversations[0].id, conversationId);
+    assert.equal(rows.messages[0].conversationId, conversationId);
+    assert.equal(rows.goalTasks[0].goalId, remappedId("me", goal.id));
+    assert.equal(rows.activities[0].entityId, remappedId("me", goal.id));
+    assert.deepEqual(result.counts.conversations, { restored: 1, skipped: 0, remapped: 1 });
+  });
+
+  test("picks a random id when the remapped one is taken by someone else too", () => {
+    const [note] = data.notes;
+    const { rows } = planRestore(
+      "me",
+      data,
+      "merge",
+      lookup({ notes: { [note.id]: "someone", [remappedId("me", note.id)]: "someone else" } })
+    );
+    assert.notEqual(rows.notes[0].id, note.id);
+    assert.notEqual(rows.notes[0].id, remappedId("me", note.id));
+    assert.equal(rows.noteRevisions[0].noteId, rows.notes[0].id);
+  });
+
+  test("skips check-ins and revisions whose day or number is taken", () => {
+    const { rows, result } = planRestore(
+      "me",
+      data,
+      "merge",
+      lookup({}, { hasCheckin: () => true, hasRevision: () => true })
+    );
+    assert.deepEqual(rows.habitCheckins, []);
+    assert.deepEqual(rows.noteRevisions, []);
+    assert.deepEqual(result.counts.habitCheckins, { restored: 0, skipped: 1, remapped: 0 });
+  });
+
+  test("drops an activity's link to a record that isn't restored with it", () => {
+    const { rows } = planRestore("me", { ...data, goals: [], goalTasks: [], habitCheckins: [] }, "merge", lookup({}));
+    assert.equal(rows.activities[0].entityType, null);
+    assert.equal(rows.activities[0].entityId, null);
+  });
+});
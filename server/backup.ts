@@ -0,0 +1,346 @@
+import { createHash, randomUUID } from "crypto";
+import { createSchemaFactory } from "drizzle-zod";
+import { z } from "zod";
+import {
+  activities,
+  activityEntityTypes,
+  activityMetadataSchema,
+  activityTypes,
+  conversations,
+  goalTasks,
+  goals,
+  habitCheckins,
+  messages,
+  notes,
+  noteRevisions,
+  BACKUP_VERSION,
+  goalCategoryField,
+  goalDescriptionField,
+  goalKinds,
+  goalProgressField,
+  goalProgressModes,
+  goalRecurrenceField,
+  noteTagsField,
+  taskTitleField,
+  taskWeightField,
+  titleField,
+  type Activity,
+  type ActivityEntityType,
+  type ChatAction,
+  type Conversation,
+  type Goal,
+  type GoalTask,
+  type HabitCheckin,
+  type MemoryCitation,
+  type Message,
+  type Note,
+  type NoteRevision,
+  type RestoreMode,
+  type RestoreResult,
+  type WorkspaceBackup,
+  type WorkspaceData,
+} from "@shared/schema";
+
+// Workspace backups: every record a user owns, versioned so that older files
+// can still be restored after the schema changes.
+
+export const workspaceKinds = [
+  "conversations",
+  "messages",
+  "goals",
+  "goalTasks",
+  "habitCheckins",
+  "notes",
+  "noteRevisions",
+  "activities",
+] as const;
+export type WorkspaceKind = keyof WorkspaceData;
+
+// A workspace's records as written to storage
+export type WorkspaceRows = {
+  conversations: Conversation[];
+  messages: Message[];
+  goals: Goal[];
+  goalTasks: GoalTask[];
+  habitCheckins: HabitCheckin[];
+  notes: Note[];
+  noteRevisions: NoteRevision[];
+  activities: Activity[];
+};
+
+export function createBackup(data: WorkspaceData): WorkspaceBackup {
+  return {
+    format: "astramind.backup",
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+// migrations[i] upgrades backup data from version i + 1 to i + 2. Add one
+// whenever BACKUP_VERSION is bumped.
+const migrations: ((data: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // 2: note revisions
+  (data) => ({ ...data, noteRevisions: [] }),
+  // 3: activities refer to the record they are about, with metadata
+  (data) => ({
+    ...data,
+    activities: ((data.activities as Record<string, unknown>[] | undefined) ?? []).map((activity) => ({
+      ...activity,
+      entityType: null,
+      entityId: null,
+      metadata: null,
+    })),
+  }),
+];
+
+// JSON has timestamps as strings
+const { createSelectSchema } = createSchemaFactory({ coerce: { date: true } });
+
+// Records are held to the same limits as when they are created through the
+// API, e.g. titles of at most 200 characters
+const backupDataSchema = z.object({
+  conversations: z.array(createSelectSchema(conversations, { title: titleField }).omit({ userId: true })).default([]),
+  messages: z
+    .array(
+      createSelectSchema(messages, {
+        actions: z.custom<ChatAction[]>().nullable(),
+        citations: z.custom<MemoryCitation[]>().nullable(),
+      }).omit({ userId: true })
+    )
+    .default([]),
+  goals: z
+    .array(
+      createSelectSchema(goals, {
+        title: titleField,
+        description: goalDescriptionField.nullable(),
+        category: goalCategoryField,
+        progress: goalProgressField,
+        progressMode: z.enum(goalProgressModes),
+        kind: z.enum(goalKinds),
+        recurrence: goalRecurrenceField.nullable(),
+      }).omit({ userId: true })
+    )
+    .default([]),
+  goalTasks: z
+    .array(createSelectSchema(goalTasks, { title: taskTitleField, weight: taskWeightField }).omit({ userId: true }))
+    .default([]),
+  habitCheckins: z.array(createSelectSchema(habitCheckins).omit({ userId: true })).default([]),
+  notes: z
+    .array(createSelectSchema(notes, { title: titleField, tags: noteTagsField.nullable() }).omit({ userId: true }))
+    .default([]),
+  noteRevisions: z
+    .array(createSelectSchema(noteRevisions, { revision: (schema) => schema.int().min(1) }).omit({ userId: true }))
+    .default([]),
+  activities: z
+    .array(
+      createSelectSchema(activities, {
+        type: z.enum(activityTypes),
+        entityType: z.enum(activityEntityTypes).nullable(),
+        metadata: activityMetadataSchema.nullable(),
+      }).omit({ userId: true })
+    )
+    .default([]),
+});
+
+// Ids must be unique, and messages, tasks, check-ins and revisions must
+// belong to a conversation, goal or note in the same backup
+function checkConsistency(data: WorkspaceData): string | undefined {
+  for (const kind of workspaceKinds) {
+    const ids = new Set<string>();
+    for (const record of data[kind]) {
+      if (ids.has(record.id)) return `Invalid backup: duplicate id ${record.id} in ${kind}`;
+      ids.add(record.id);
+    }
+  }
+
+  const conversationIds = new Set(data.conversations.map((c) => c.id));
+  const goalIds = new Set(data.goals.map((g) => g.id));
+  const noteIds = new Set(data.notes.map((n) => n.id));
+  const orphan =
+    data.messages.find((m) => !conversationIds.has(m.conversationId)) ??
+    data.goalTasks.find((t) => !goalIds.has(t.goalId)) ??
+    data.habitCheckins.find((c) => !goalIds.has(c.goalId)) ??
+    data.noteRevisions.find((r) => !noteIds.has(r.noteId));
+  if (orphan) return `Invalid backup: ${orphan.id} belongs to a record that isn't in the backup`;
+
+  const days = new Set<string>();
+  for (const checkin of data.habitCheckins) {
+    const day = `${checkin.goalId} ${checkin.date}`;
+    if (days.has(day)) return `Invalid backup: two check-ins for ${checkin.goalId} on ${checkin.date}`;
+    days.add(day);
+  }
+
+  const revisions = new Set<string>();
+  for (const revision of data.noteRevisions) {
+    const key = `${revision.noteId} ${revision.revision}`;
+    if (revisions.has(key)) return `Invalid backup: two revisions ${revision.revision} of ${revision.noteId}`;
+    revisions.add(key);
+  }
+  return undefined;
+}
+
+// Reads an uploaded backup, migrating it to the current version. Returns an
+// error message when it can't be restored.
+export function parseBackup(body: unknown): WorkspaceData | string {
+  const header = z
+    .object({
+      format: z.literal("astramind.backup"),
+      version: z.number().int().min(1),
+      data: z.record(z.unknown()),
+    })
+    .safeParse(body);
+  if (!header.success) return "Not an AstraMind backup";
+
+  const { version } = header.data;
+  if (version > BACKUP_VERSION) {
+    return `This backup is from a newer version (${version}) than this server supports (${BACKUP_VERSION})`;
+  }
+
+  let data = header.data.data;
+  for (let from = version; from < BACKUP_VERSION; from++) {
+    data = migrations[from - 1](data);
+  }
+
+  const parsed = backupDataSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return `Invalid backup: ${issue.path.join(".")}: ${issue.message}`;
+  }
+  return checkConsistency(parsed.data) ?? parsed.data;
+}
+
+// The id a record gets when its backup id belongs to another account. It
+// depends only on the user and the original id, so restoring the same backup
+// again finds the records it wrote the first time.
+export function remappedId(userId: string, id: string): string {
+  const hex = createHash("sha256").update(`${userId}:${id}`).digest("hex");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+// What storage already holds, for deciding which backup records to write.
+// `owner` is asked about backup ids and their remappedIds.
+export type RestoreLookup = {
+  owner(kind: WorkspaceKind, id: string): string | undefined; // userId of the record with this id, if any
+  hasCheckin(goalId: string, date: string): boolean; // for the restoring user
+  hasRevision(noteId: string, revision: number): boolean;
+};
+
+// Decides what a restore writes. Records the user already has (same id, a
+// check-in for the same day, or a revision with the same number) are skipped; ids taken by another account are
+// replaced with remappedIds and references to them rewritten. Storage clears
+// the workspace before planning a replace, so then nothing is skipped.
+export function planRestore(
+  userId: string,
+  data: WorkspaceData,
+  mode: RestoreMode,
+  lookup: RestoreLookup
+): { rows: WorkspaceRows; result: RestoreResult } {
+  const counts = {} as RestoreResult["counts"];
+  const ids = {} as Record<WorkspaceKind, Map<string, string>>; // backup id -> stored id
+  const written = {} as Record<WorkspaceKind, Set<string>>; // backup ids to write
+
+  for (const kind of workspaceKinds) {
+    counts[kind] = { restored: 0, skipped: 0, remapped: 0 };
+    ids[kind] = new Map();
+    written[kind] = new Set();
+    for (const record of data[kind]) {
+      let id = record.id;
+      let owner = lookup.owner(kind, id);
+      if (owner !== undefined && owner !== userId) {
+        id = remappedId(userId, record.id);
+        owner = lookup.owner(kind, id);
+        if (owner !== undefined && owner !== userId) {
+          id = randomUUID();
+          owner = undefined;
+        }
+      }
+
+      ids[kind].set(record.id, id);
+      if (owner === userId) {
+        counts[kind].skipped++;
+      } else {
+        written[kind].add(record.id);
+        counts[kind].restored++;
+        if (id !== record.id) counts[kind].remapped++;
+      }
+    }
+  }
+
+  const keep = <T extends { id: string }>(kind: WorkspaceKind, records: T[]) =>
+    records.filter((record) => written[kind].has(record.id));
+  const goalId = (id: string) => ids.goals.get(id)!;
+  // Leaves out rows that would take a day or number the user already has
+  const skipTaken = <T extends { id: string }, R extends { id: string }>(
+    kind: WorkspaceKind,
+    records: T[],
+    toRow: (record: T) => R,
+    taken: (row: R) => boolean
+  ) =>
+    records.flatMap((record) => {
+      const row = toRow(record);
+      if (!taken(row)) return [row];
+      counts[kind].restored--;
+      counts[kind].skipped++;
+      if (row.id !== record.id) counts[kind].remapped--;
+      return [];
+    });
+
+  // An activity keeps its link only to a record restored with it
+  const entityKinds: Record<ActivityEntityType, WorkspaceKind> = {
+    conversation: "conversations",
+    goal: "goals",
+    note: "notes",
+  };
+  const entityRef = ({ entityType, entityId }: Pick<Activity, "entityType" | "entityId">) => {
+    const id = entityType && entityId ? ids[entityKinds[entityType]].get(entityId) : undefined;
+    return id ? { entityType, entityId: id } : { entityType: null, entityId: null };
+  };
+
+  const habitCheckinRows = skipTaken(
+    "habitCheckins",
+    keep("habitCheckins", data.habitCheckins),
+    (c) => ({ ...c, userId, id: ids.habitCheckins.get(c.id)!, goalId: goalId(c.goalId) }),
+    (row) => lookup.hasCheckin(row.goalId, row.date)
+  );
+  const noteRevisionRows = skipTaken(
+    "noteRevisions",
+    keep("noteRevisions", data.noteRevisions),
+    (r) => ({ ...r, userId, id: ids.noteRevisions.get(r.id)!, noteId: ids.notes.get(r.noteId)! }),
+    (row) => lookup.hasRevision(row.noteId, row.revision)
+  );
+
+  const rows: WorkspaceRows = {
+    conversations: keep("conversations", data.conversations).map((c) => ({
+      ...c,
+      userId,
+      id: ids.conversations.get(c.id)!,
+      activeMessageId: (c.activeMessageId && ids.messages.get(c.activeMessageId)) || null,
+    })),
+    messages: keep("messages", data.messages).map((m) => ({
+      ...m,
+      userId,
+      id: ids.messages.get(m.id)!,
+      conversationId: ids.conversations.get(m.conversationId)!,
+      parentId: (m.parentId && ids.messages.get(m.parentId)) || null,
+    })),
+    goals: keep("goals", data.goals).map((g) => ({ ...g, userId, id: goalId(g.id) })),
+    goalTasks: keep("goalTasks", data.goalTasks).map((t) => ({
+      ...t,
+      userId,
+      id: ids.goalTasks.get(t.id)!,
+      goalId: goalId(t.goalId),
+    })),
+    habitCheckins: habitCheckinRows,
+    notes: keep("notes", data.notes).map((n) => ({ ...n, userId, id: ids.notes.get(n.id)! })),
+    noteRevisions: noteRevisionRows,
+    activities: keep("activities", data.activities).map((a) => ({
+      ...a,
+      ...entityRef(a),
+      userId,
+      id: ids.activities.get(a.id)!,
+    })),
+  };
+
+  return { rows, result: { mode, counts } };
+}
@@ -0,0 +1,84 @@
+import type { BranchMessage, Conversation, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Conversations are trees of messages linked by parentId: editing a user
+// message or regenerating a reply adds a sibling instead of replacing it. The
+// conversation's activeMessageId marks the end of the branch being shown,
+// which is also the history the model sees.
+
+// Children of every message, oldest first; roots are under null
+function childrenByParent(messages: Message[]): Map<string | null, Message[]> {
+  const children = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    const siblings = children.get(message.parentId) ?? [];
+    siblings.push(message);
+    children.set(message.parentId, siblings);
+  }
+  children.forEach((siblings) =>
+    siblings.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  );
+  return children;
+}
+
+// The end of the branch through `messageId`, following the newest child at each step
+export function latestLeaf(messages: Message[], messageId: string): Message | undefined {
+  const children = childrenByParent(messages);
+  let leaf = messages.find((m) => m.id === messageId);
+  while (leaf && children.has(leaf.id)) {
+    const next = children.get(leaf.id)!;
+    leaf = next[next.length - 1];
+  }
+  return leaf;
+}
+
+// Messages from the first one down to `activeMessageId` (or the newest
+// message), each with its siblings
+export function activePath(messages: Message[], activeMessageId: string | null): BranchMessage[] {
+  if (messages.length === 0) return [];
+
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const children = childrenByParent(messages);
+  const newest = messages.reduce((a, b) => (new Date(b.createdAt) >= new Date(a.createdAt) ? b : a));
+
+  const path: BranchMessage[] = [];
+  let message: Message | undefined = (activeMessageId && byId.get(activeMessageId)) || newest;
+  while (message) {
+    const siblings = children.get(message.parentId) ?? [message];
+    path.push({ ...message, siblingIds: siblings.map((m) => m.id) });
+    message = message.parentId ? byId.get(message.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+// Conversations from before branching have no parent pointers; chain their
+// messages in order the first time they are loaded
+async function linkLegacyMessages(storage: IStorage, userId: string, conversation: Conversation, messages: Message[]) {
+  if (conversation.activeMessageId || messages.length < 2 || messages.some((m) => m.parentId)) {
+    return messages;
+  }
+  return Promise.all(
+    messages.map(async (message, i) =>
+      i === 0
+        ? message
+        : ((await storage.updateMessage(userId, message.id, { parentId: messages[i - 1].id })) ?? message)
+    )
+  );
+}
+
+// Every message of a conversation, legacy ones linked into a chain
+export async function getConversationMessages(
+  storage: IStorage,
+  userId: string,
+  conversation: Conversation
+): Promise<Message[]> {
+  const messages = await storage.getMessages(userId, conversation.id);
+  return linkLegacyMessages(storage, userId, conversation, messages);
+}
+
+export async function getActivePath(
+  storage: IStorage,
+  userId: string,
+  conversation: Conversation
+): Promise<BranchMessage[]> {
+  return activePath(await getConversationMessages(storage, userId, conversation), conversation.activeMessageId);
+}
@@ -0,0 +1,141 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import type { Request, Response, NextFunction } from "express";
+import type { ChangeEvent, GoalTask, Message } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Change events for live updates. Storage is wrapped so that every mutation
+// publishes an event to its user's feed, whichever route, chat tool or import
+// made it; server/live.ts forwards the feed to the user's open WebSockets.
+
+type Listener = (event: ChangeEvent) => void;
+
+export class ChangeFeed {
+  private emitter = new EventEmitter().setMaxListeners(0);
+
+  publish(userId: string, event: ChangeEvent) {
+    this.emitter.emit(userId, event);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(userId: string, listener: Listener): () => void {
+    this.emitter.on(userId, listener);
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
+
+export const changes = new ChangeFeed();
+
+// The X-Client-Id of the request being handled, so that events can say which
+// tab made them and that tab can skip changes it has already applied
+const requestOrigin = new AsyncLocalStorage<string | undefined>();
+
+export function trackChangeOrigin(req: Request, _res: Response, next: NextFunction) {
+  requestOrigin.run(req.get("X-Client-Id")?.slice(0, 100), next);
+}
+
+type Change = Omit<ChangeEvent, "origin">;
+
+type StorageMethod = {
+  [K in keyof IStorage]: IStorage[K] extends (...args: never[]) => Promise<unknown> ? K : never;
+}[keyof IStorage];
+
+// The event for a call of storage method K, from its result and arguments;
+// nothing when the call changed nothing
+type Describe<K extends StorageMethod> = (
+  result: Awaited<ReturnType<IStorage[K]>>,
+  args: Parameters<IStorage[K]>
+) => Change | undefined | false;
+
+type Entity = Change["entity"];
+type StoredRecord = { id: string };
+
+const created =
+  <R extends StoredRecord>(entity: Entity, parentId?: (record: R) => string) =>
+  (record: R): Change => ({ entity, op: "create", id: record.id, parentId: parentId?.(record), data: record });
+
+const updated =
+  <R extends StoredRecord>(entity: Entity, parentId?: (record: R) => string) =>
+  (record: R | undefined): Change | undefined =>
+    record && { entity, op: "update", id: record.id, parentId: parentId?.(record), data: record };
+
+const deleted =
+  (entity: Entity) =>
+  (ok: boolean, [, id]: [string, string]): Change | false =>
+    ok && { entity, op: "delete", id };
+
+// The event for each mutating storage method, from its result and arguments.
+// Methods not listed only read. Users aren't sent, as they hold the password
+// hash.
+const describeChange: { [K in StorageMethod]?: Describe<K> } = {
+  updateUser: (user) => user && { entity: "user", op: "update", id: user.id },
+
+  createConversation: created("conversation"),
+  updateConversation: updated("conversation"),
+  deleteConversation: deleted("conversation"),
+  // One event for the conversation, not one per message
+  importConversation: created("conversation"),
+
+  createMessage: created("message", (message: Message) => message.conversationId),
+  updateMessage: updated("message", (message: Message) => message.conversationId),
+  deleteMessage: deleted("message"),
+
+  createGoal: created("goal"),
+  updateGoal: updated("goal"),
+  deleteGoal: deleted("goal"),
+
+  createGoalTask: created("goal_task", (task: GoalTask) => task.goalId),
+  updateGoalTask: updated("goal_task", (task: GoalTask) => task.goalId),
+  deleteGoalTask: deleted("goal_task"),
+
+  createHabitCheckin: (checkin) => ({
+    entity: "habit_checkin",
+    op: "create",
+    id: checkin.date,
+    parentId: checkin.goalId,
+    data: checkin,
+  }),
+  deleteHabitCheckin: (ok, [, goalId, date]) =>
+    ok && { entity: "habit_checkin", op: "delete", id: date, parentId: goalId },
+
+  createNote: created("note"),
+  updateNote: updated("note"),
+  deleteNote: deleted("note"),
+
+  createActivity: created("activity"),
+
+  // Written over when a review is regenerated
+  saveSummary: updated("summary"),
+
+  restoreWorkspace: (_result, [userId]) => ({ entity: "workspace", op: "update", id: userId }),
+};
+
+// Storage that publishes a change event after each successful mutation. Every
+// user-scoped method takes the user id first, and updateUser takes it as the
+// id of the user.
+export function observeStorage(storage: IStorage, feed: ChangeFeed = changes): IStorage {
+  return new Proxy(storage, {
+    get(target, name, receiver) {
+      const value = Reflect.get(target, name, receiver);
+      // The proxy sees methods only by name, so each describer takes the
+      // arguments and result of the method it is listed under
+      const describe = describeChange[name as StorageMethod] as
+        | ((result: unknown, args: unknown[]) => Change | undefined | false)
+        | undefined;
+      if (!describe || typeof value !== "function") return value;
+
+      return async (...args: unknown[]) => {
+        const result = await value.apply(target, args);
+        const change = describe(result, args);
+        if (change) {
+          const event: ChangeEvent = { ...change, origin: requestOrigin.getStore() };
+          if (!event.parentId) delete event.parentId;
+          feed.publish(args[0] as string, event);
+        }
+        return result;
+      };
+    },
+  });
+}
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_TITLE_LENGTH, type ChangeEvent } from "@shared/schema";
+import { ChangeFeed, observeStorage } from "./changes";
+import { importConversations, parseConversationImport } from "./conversations";
+import { MemStorage } from "./storage";
+
+const chatGpt = (title: string) => ({
+  title,
+  create_time: 1735689600,
+  current_node: "b",
+  mapping: {
+    a: { parent: null, message: { author: { role: "user" }, content: { parts: ["Hi"] } } },
+    b: { parent: "a", message: { author: { role: "assistant" }, content: { parts: ["Hello!"] } } },
+  },
+});
+
+test("imports conversations with titles the API accepts", async () => {
+  const storage = new MemStorage();
+  const { id: userId } = await storage.createUser({ username: "ada", password: "secret" });
+  const parsed = parseConversationImport([
+    chatGpt("x".repeat(MAX_TITLE_LENGTH + 50)),
+    chatGpt("  Trip planning  "),
+    { format: "astramind.conversation", version: 1, title: "   ", messages: [] },
+  ]);
+  assert.ok(typeof parsed !== "string");
+
+  const result = await importConversations(storage, userId, parsed);
+  const titles = result.conversations.map((conversation) => conversation.title);
+  assert.equal(titles[0].length, MAX_TITLE_LENGTH);
+  assert.ok(titles[0].endsWith("…"));
+  assert.deepEqual(titles.slice(1), ["Trip planning", "Imported conversation"]);
+  assert.equal(result.messages, 4);
+});
+
+test("imports each conversation with its messages as one change", async () => {
+  const storage = new MemStorage();
+  const { id: userId } = await storage.createUser({ username: "ada", password: "secret" });
+  const feed = new ChangeFeed();
+  const events: ChangeEvent[] = [];
+  feed.subscribe(userId, (event) => events.push(event));
+
+  const parsed = parseConversationImport([chatGpt("Trip planning"), chatGpt("Groceries")]);
+  assert.ok(typeof parsed !== "string");
+  const result = await importConversations(observeStorage(storage, feed), userId, parsed);
+
+  assert.deepEqual(
+    events.map(({ entity, op, id }) => [entity, op, id]),
+    result.conversations.map((conversation) => ["conversation", "create", conversation.id])
+  );
+
+  const [conversation] = result.conversations;
+  const [question, answer] = await storage.getMessages(userId, conversation.id);
+  assert.deepEqual([question.content, answer.content], ["Hi", "Hello!"]);
+  assert.equal(answer.parentId, question.id);
+  assert.equal(conversation.activeMessageId, answer.id);
+  assert.equal(conversation.createdAt.toISOString(), "2025-01-01T00:00:00.000Z");
+});
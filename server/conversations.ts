@@ -0,0 +1,336 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import {
+  insertConversationSchema,
+  MAX_TITLE_LENGTH,
+  type Conversation,
+  type ConversationExport,
+  type ConversationExportFormat,
+  type ConversationImportResult,
+  type Message,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import { activePath } from "./branches";
+
+// Conversation export (Markdown, HTML, or JSON with every branch) and import
+// of our JSON format or a ChatGPT conversations.json export.
+
+const roleLabels: Record<string, string> = {
+  user: "You",
+  assistant: "AstraMind",
+};
+
+function formatTimestamp(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "short", timeZone }).format(date);
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Download name for an export, e.g. "weekly-planning.md"
+export function exportFilename(conversation: Conversation, format: ConversationExportFormat) {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "conversation"}.${format}`;
+}
+
+function toMarkdown(conversation: Conversation, path: Message[], timeZone: string) {
+  const lines = [
+    `# ${conversation.title}`,
+    "",
+    `_Created ${formatTimestamp(conversation.createdAt, timeZone)} · Updated ${formatTimestamp(conversation.updatedAt, timeZone)}_`,
+  ];
+  for (const message of path) {
+    lines.push(
+      "",
+      `### ${roleLabels[message.role] ?? message.role} · ${formatTimestamp(message.createdAt, timeZone)}`,
+      "",
+      message.content
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function toHtml(conversation: Conversation, path: Message[], timeZone: string) {
+  const messages = path
+    .map(
+      (message) => `  <section class="message ${escapeHtml(message.role)}">
+    <h3>${escapeHtml(roleLabels[message.role] ?? message.role)} <time datetime="${message.createdAt.toISOString()}">${formatTimestamp(message.createdAt, timeZone)}</time></h3>
+    <div class="content">${escapeHtml(message.content)}</div>
+  </section>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(conversation.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #1f2937; }
+    .meta, time { color: #6b7280; font-size: 0.85rem; font-weight: normal; }
+    .message { border-radius: 0.5rem; padding: 0.75rem 1rem; margin: 1rem 0; background: #f3f4f6; }
+    .message.user { background: #ede9fe; }
+    .message h3 { margin: 0 0 0.5rem; font-size: 0.95rem; }
+    .content { white-space: pre-wrap; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  <p class="meta">Created ${formatTimestamp(conversation.createdAt, timeZone)} · Updated ${formatTimestamp(conversation.updatedAt, timeZone)}</p>
+${messages}
+</body>
+</html>
+`;
+}
+
+function toExport(conversation: Conversation, messages: Message[]): ConversationExport {
+  return {
+    format: "astramind.conversation",
+    version: 1,
+    title: conversation.title,
+    createdAt: conversation.createdAt.toISOString(),
+    updatedAt: conversation.updatedAt.toISOString(),
+    activeMessageId: conversation.activeMessageId,
+    messages: messages.map((m) => ({
+      id: m.id,
+      parentId: m.parentId,
+      role: m.role === "user" ? "user" : "assistant",
+      content: m.content,
+      createdAt: m.createdAt.toISOString(),
+    })),
+  };
+}
+
+// The file body for an export. Markdown and HTML show the selected branch;
+// JSON keeps every message so it can be imported again.
+export function renderExport(
+  conversation: Conversation,
+  messages: Message[],
+  format: ConversationExportFormat,
+  timeZone: string
+): string {
+  if (format === "json") {
+    return JSON.stringify(toExport(conversation, messages), null, 2);
+  }
+  const path = activePath(messages, conversation.activeMessageId);
+  return format === "md" ? toMarkdown(conversation, path, timeZone) : toHtml(conversation, path, timeZone);
+}
+
+// Import
+
+// A conversation read from either import format. Keys are ids within the file.
+type ParsedConversation = {
+  title: string;
+  createdAt?: Date;
+  activeKey: string | null;
+  messages: { key: string; parentKey: string | null; role: "user" | "assistant"; content: string; createdAt?: Date }[];
+};
+
+const exportSchema = z.object({
+  format: z.literal("astramind.conversation"),
+  version: z.literal(1),
+  title: z.string().min(1),
+  createdAt: z.coerce.date().optional(),
+  activeMessageId: z.string().nullish(),
+  messages: z.array(
+    z.object({
+      id: z.string().min(1),
+      parentId: z.string().nullish(),
+      role: z.enum(["user", "assistant"]),
+      content: z.string(),
+      createdAt: z.coerce.date().optional(),
+    })
+  ),
+});
+
+// The parts of a ChatGPT conversations.json entry we read. Times are Unix seconds.
+const chatGptSchema = z.object({
+  title: z.string().nullish(),
+  create_time: z.number().nullish(),
+  current_node: z.string().nullish(),
+  mapping: z.record(
+    z.object({
+      parent: z.string().nullish(),
+      message: z
+        .object({
+          author: z.object({ role: z.string() }),
+          create_time: z.number().nullish(),
+          content: z.object({ parts: z.array(z.unknown()).optional(), text: z.string().optional() }).passthrough(),
+        })
+        .passthrough()
+        .nullish(),
+    })
+  ),
+});
+
+// Titles over the limit, e.g. a ChatGPT title made from a long first message,
+// are cut short rather than failing the import
+function importedTitle(title: string | null | undefined): string {
+  const trimmed = title?.trim() || "Imported conversation";
+  return trimmed.length > MAX_TITLE_LENGTH ? `${trimmed.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : trimmed;
+}
+
+function fromExport(data: z.infer<typeof exportSchema>): ParsedConversation {
+  return {
+    title: importedTitle(data.title),
+    createdAt: data.createdAt,
+    activeKey: data.activeMessageId ?? null,
+    messages: data.messages.map((m) => ({
+      key: m.id,
+      parentKey: m.parentId ?? null,
+      role: m.role,
+      content: m.content,
+      createdAt: m.createdAt,
+    })),
+  };
+}
+
+// ChatGPT keeps system prompts, tool calls and empty nodes in the tree too;
+// only user and assistant text is imported, and messages under a skipped node
+// hang from its nearest imported ancestor
+function fromChatGpt(data: z.infer<typeof chatGptSchema>): ParsedConversation {
+  const kept = new Map<string, ParsedConversation["messages"][number]>();
+  Object.entries(data.mapping).forEach(([key, node]) => {
+    const message = node.message;
+    const role = message?.author.role;
+    if (!message || (role !== "user" && role !== "assistant")) return;
+
+    const parts = message.content.parts ?? (message.content.text !== undefined ? [message.content.text] : []);
+    const content = parts
+      .filter((part): part is string => typeof part === "string")
+      .join("\n")
+      .trim();
+    if (!content) return;
+
+    kept.set(key, {
+      key,
+      parentKey: null,
+      role,
+      content,
+      createdAt: message.create_time ? new Date(message.create_time * 1000) : undefined,
+    });
+  });
+
+  const nearestKept = (key: string | null | undefined) => {
+    const seen = new Set<string>();
+    while (key && !kept.has(key) && !seen.has(key)) {
+      seen.add(key);
+      key = data.mapping[key]?.parent;
+    }
+    return key && kept.has(key) ? key : null;
+  };
+
+  kept.forEach((message) => {
+    message.parentKey = nearestKept(data.mapping[message.key].parent);
+  });
+
+  return {
+    title: importedTitle(data.title),
+    createdAt: data.create_time ? new Date(data.create_time * 1000) : undefined,
+    activeKey: nearestKept(data.current_node),
+    messages: Array.from(kept.values()),
+  };
+}
+
+// Reads an import body: one conversation in our format, or an array of them
+// and/or ChatGPT conversations. Returns an error message for the first entry
+// that is neither.
+export function parseConversationImport(body: unknown): ParsedConversation[] | string {
+  const entries = Array.isArray(body) ? body : [body];
+  if (entries.length === 0) return "Nothing to import";
+
+  const parsed: ParsedConversation[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const chatGpt = chatGptSchema.safeParse(entry);
+    const ours = chatGpt.success ? undefined : exportSchema.safeParse(entry);
+    if (chatGpt.success) {
+      parsed.push(fromChatGpt(chatGpt.data));
+    } else if (ours?.success) {
+      parsed.push(fromExport(ours.data));
+    } else {
+      return `Conversation ${i + 1} is not an AstraMind or ChatGPT export`;
+    }
+
+    // What POST /api/conversations would accept
+    const conversation = insertConversationSchema.safeParse({ title: parsed[i].title });
+    if (!conversation.success) {
+      const issue = conversation.error.issues[0];
+      return `Conversation ${i + 1}: ${issue.path.join(".")}: ${issue.message}`;
+    }
+    parsed[i].title = conversation.data.title;
+  }
+  return parsed;
+}
+
+// Creates the conversations and their message trees, each conversation with
+// its messages in one storage call. Parents are created before their
+// children; messages whose parent isn't in the file become first messages,
+// and cycles are dropped.
+export async function importConversations(
+  storage: IStorage,
+  userId: string,
+  parsed: ParsedConversation[]
+): Promise<ConversationImportResult> {
+  const result: ConversationImportResult = { conversations: [], messages: 0 };
+
+  for (const data of parsed) {
+    const now = new Date();
+    const conversationId = randomUUID();
+    const keys = new Set(data.messages.map((m) => m.key));
+    const children = new Map<string | null, ParsedConversation["messages"]>();
+    data.messages.forEach((message) => {
+      const parentKey = message.parentKey && keys.has(message.parentKey) ? message.parentKey : null;
+      children.set(parentKey, [...(children.get(parentKey) ?? []), message]);
+    });
+
+    const ids = new Map<string, string>();
+    const messages: Message[] = [];
+    const queue: { parentId: string | null; message: ParsedConversation["messages"][number] }[] = (
+      children.get(null) ?? []
+    ).map((message) => ({ parentId: null, message }));
+    while (queue.length > 0) {
+      const { parentId, message } = queue.shift()!;
+      if (ids.has(message.key)) continue;
+
+      const id = randomUUID();
+      messages.push({
+        id,
+        userId,
+        conversationId,
+        parentId,
+        role: message.role,
+        content: message.content,
+        actions: null,
+        citations: null,
+        // Keep the original times so the history reads as it happened; those
+        // without one keep the order of the file
+        createdAt: message.createdAt ?? new Date(now.getTime() + messages.length),
+      });
+      ids.set(message.key, id);
+      (children.get(message.key) ?? []).forEach((child) => queue.push({ parentId: id, message: child }));
+    }
+
+    const conversation = await storage.importConversation(
+      userId,
+      {
+        id: conversationId,
+        userId,
+        title: data.title,
+        activeMessageId: (data.activeKey && ids.get(data.activeKey)) || null,
+        createdAt: data.createdAt ?? now,
+        updatedAt: now,
+      },
+      messages
+    );
+    result.conversations.push(conversation);
+    result.messages += messages.length;
+  }
+
+  return result;
+}
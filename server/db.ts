@@ -0,0 +1,20 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres database built over our schema. DbStorage accepts this
+// rather than the Neon driver type so it can run against a local Postgres
+// (drizzle-orm/node-postgres) or a pg-mem stand-in as well.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createPool(connectionString: string): Pool {
+  return new Pool({ connectionString });
+}
+
+export function createDb(pool: Pool): Database {
+  return drizzle({ client: pool, schema });
+}
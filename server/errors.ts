@@ -0,0 +1,81 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import type { ApiErrorBody, ApiErrorCode } from "@shared/schema";
+
+// Every error answer from the API has the same body, an ApiErrorBody:
+//
+//   { "code": "not_found", "message": "Goal not found", "requestId": "4f0c..." }
+//
+// `code` is for programs and `message` for people; `details` is there when
+// the code has more to say (the invalid fields of a validation_failed).
+// `requestId` also comes back in the X-Request-Id header and prefixes the
+// server's log lines for the request, so a reported error can be found in
+// the logs.
+
+declare global {
+  namespace Express {
+    interface Locals {
+      requestId: string;
+    }
+  }
+}
+
+const statusCodes: Record<number, ApiErrorCode> = {
+  400: "bad_request",
+  401: "unauthorized",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+};
+
+function codeFor(status: number): ApiErrorCode {
+  return statusCodes[status] ?? (status >= 500 ? "internal_error" : "bad_request");
+}
+
+// Answers with an error body; the code defaults to the one for the status
+export function sendError(
+  res: Response,
+  status: number,
+  message: string,
+  options: { code?: ApiErrorCode; details?: unknown } = {}
+) {
+  const body: ApiErrorBody = { code: options.code ?? codeFor(status), message, requestId: res.locals.requestId };
+  if (options.details !== undefined) body.details = options.details;
+  res.status(status).json(body);
+}
+
+export function logError(res: Response, message: string, cause: unknown) {
+  console.error(`[${res.locals.requestId}] ${message}:`, cause);
+}
+
+// For failures the client can't do anything about: logs the cause and
+// answers 500 without it
+export function sendServerError(res: Response, message: string, cause: unknown) {
+  logError(res, message, cause);
+  sendError(res, 500, message);
+}
+
+// A client's own X-Request-Id is kept when it looks like one
+const CLIENT_REQUEST_ID = /^[\w.:-]{1,100}$/;
+
+export function assignRequestId(req: Request, res: Response, next: NextFunction) {
+  const clientId = req.get("X-Request-Id");
+  res.locals.requestId = clientId && CLIENT_REQUEST_ID.test(clientId) ? clientId : randomUUID();
+  res.set("X-Request-Id", res.locals.requestId);
+  next();
+}
+
+// The last error handler, for errors the routes don't answer themselves:
+// malformed JSON and oversized bodies from the body parsers, or anything
+// thrown outside a route's try
+export function handleErrors(err: any, req: Request, res: Response, next: NextFunction) {
+  if (res.headersSent) return next(err);
+
+  const status = Number(err?.status || err?.statusCode) || 500;
+  if (status >= 500) {
+    return sendServerError(res, `${req.method} ${req.path} failed`, err);
+  }
+  // http-errors (as body-parser throws) mark messages fit for the client with `expose`
+  sendError(res, status, err.expose && err.message ? err.message : "Bad request");
+}
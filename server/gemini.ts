@@ -1,88 +1,141 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, type Content, type GenerateContentResponse } from "@google/genai";
+import { randomUUID } from "crypto";
+import type {
+  AIChatRequest,
+  AIChatResult,
+  AIJsonSchema,
+  AIProvider,
+  AIStreamChunk,
+} from "./ai";
 
 // DON'T DELETE THIS COMMENT
 // Follow these instructions when using this blueprint:
 // - Note that the newest Gemini model series is "gemini-2.5-flash" or "gemini-2.5-pro"
 //   - do not change this unless explicitly requested by the user
 
-// This API key is from Gemini Developer API Key, not vertex AI API Key
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+export class GeminiProvider implements AIProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
 
-export async function chatWithAI(
-  message: string,
-  conversationHistory: Array<{ role: string; content: string }>
-): Promise<string> {
-  try {
-    const systemPrompt = `You are AstraMind, an intelligent AI assistant and personal life operating system. You help users manage their life, learning, and creativity through natural conversation.
-
-Your capabilities:
-- Help users plan their day and set goals
-- Provide learning support and explain complex topics
-- Offer productivity insights and suggestions
-- Be conversational, supportive, and personalized
-- Remember context from the conversation
+  // This API key is from Gemini Developer API Key, not vertex AI API Key
+  constructor(
+    apiKey: string,
+    private model = "gemini-2.5-flash",
+    private embeddingModel = "text-embedding-004",
+  ) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
 
-Respond naturally and helpfully. Keep responses concise but informative.`;
+  // Format the conversation for Gemini, which calls the assistant role "model"
+  // and sends tool results back as functionResponse parts from the user
+  private buildContents(request: AIChatRequest): Content[] {
+    return request.messages.map((msg): Content => {
+      switch (msg.role) {
+        case "user":
+          return { role: "user", parts: [{ text: msg.content }] };
+        case "assistant":
+          return {
+            role: "model",
+            parts: [
+              ...(msg.content ? [{ text: msg.content }] : []),
+              ...(msg.toolCalls ?? []).map((call) => ({
+                functionCall: { name: call.name, args: call.args },
+                thoughtSignature: call.signature,
+              })),
+            ],
+          };
+        case "tool":
+          return {
+            role: "user",
+            parts: msg.results.map((r) => ({
+              functionResponse: { name: r.name, response: { result: r.result } },
+            })),
+          };
+      }
+    });
+  }
 
-    // Format conversation history for Gemini
-    const contents = conversationHistory.map((msg) => ({
-      role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
-    }));
+  private buildConfig(request: AIChatRequest) {
+    return {
+      systemInstruction: request.system,
+      abortSignal: request.signal,
+      tools: request.tools?.length
+        ? [
+            {
+              functionDeclarations: request.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.parameters,
+              })),
+            },
+          ]
+        : undefined,
+    };
+  }
 
-    // Add the current message
-    contents.push({
-      role: "user",
-      parts: [{ text: message }],
-    });
+  // Read text and function calls from the parts directly; response.text warns
+  // whenever a function call is present
+  private parseResponse(response: GenerateContentResponse): AIChatResult {
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    return {
+      text: parts
+        .filter((part) => part.text && !part.thought)
+        .map((part) => part.text)
+        .join(""),
+      toolCalls: parts
+        .filter((part) => part.functionCall?.name)
+        .map((part) => ({
+          id: part.functionCall!.id || randomUUID(),
+          name: part.functionCall!.name!,
+          args: part.functionCall!.args ?? {},
+          signature: part.thoughtSignature,
+        })),
+    };
+  }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      config: {
-        systemInstruction: systemPrompt,
-      },
-      contents,
+  async chat(request: AIChatRequest): Promise<AIChatResult> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      config: this.buildConfig(request),
+      contents: this.buildContents(request),
     });
 
-    return response.text || "I'm sorry, I couldn't generate a response. Please try again.";
-  } catch (error) {
-    console.error("Error calling Gemini AI:", error);
-    throw new Error("Failed to get AI response");
+    return this.parseResponse(response);
   }
-}
 
-export async function generateDailySummary(
-  chats: number,
-  goals: number,
-  notes: number
-): Promise<string[]> {
-  try {
-    const prompt = `Generate 3-4 brief, encouraging insights for a user's daily summary based on their activity:
-- Chat conversations: ${chats}
-- Goals worked on: ${goals}
-- Notes created: ${notes}
+  async *chatStream(request: AIChatRequest): AsyncGenerator<AIStreamChunk> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      config: this.buildConfig(request),
+      contents: this.buildContents(request),
+    });
 
-Provide insights as a JSON array of strings. Focus on productivity patterns, suggestions, and encouragement.
-Example: ["Great engagement today with ${chats} conversations!", "Keep the momentum on your ${goals} goals", "Your ${notes} notes show active learning"]`;
+    for await (const chunk of stream) {
+      if (request.signal?.aborted) return;
+      const { text, toolCalls } = this.parseResponse(chunk);
+      if (text || toolCalls.length > 0) yield { text, toolCalls };
+    }
+  }
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+  async generateJSON(prompt: string, schema: AIJsonSchema): Promise<unknown> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
       config: {
         responseMimeType: "application/json",
-        responseSchema: {
-          type: "array",
-          items: {
-            type: "string",
-          },
-        },
+        responseSchema: schema,
       },
       contents: prompt,
     });
 
-    const insights = JSON.parse(response.text || "[]");
-    return insights.length > 0 ? insights : ["Keep up the great work!", "Every step forward counts."];
-  } catch (error) {
-    console.error("Error generating daily summary:", error);
-    return ["Keep building your momentum!", "Great progress today."];
+    return JSON.parse(response.text || "null");
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.ai.models.embedContent({
+      model: this.embeddingModel,
+      contents: texts,
+    });
+
+    return (response.embeddings ?? []).map((embedding) => embedding.values ?? []);
   }
 }
@@ -0,0 +1,21 @@
+import type { Goal, GoalTask } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Weighted share of completed tasks, 0-100. A goal without tasks is at 0%.
+export function taskProgress(tasks: GoalTask[]): number {
+  const total = tasks.reduce((sum, task) => sum + task.weight, 0);
+  if (total === 0) return 0;
+
+  const done = tasks.filter((task) => task.completed).reduce((sum, task) => sum + task.weight, 0);
+  return Math.round((done / total) * 100);
+}
+
+// Recomputes the stored progress of a goal in "tasks" mode after its tasks
+// changed. Manual goals are returned untouched.
+export async function syncGoalProgress(storage: IStorage, userId: string, goal: Goal): Promise<Goal> {
+  if (goal.progressMode !== "tasks") return goal;
+
+  const progress = taskProgress(await storage.getGoalTasks(userId, goal.id));
+  if (progress === goal.progress) return goal;
+  return (await storage.updateGoal(userId, goal.id, { progress })) ?? goal;
+}
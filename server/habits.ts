@@ -0,0 +1,24 @@
+import { HABIT_HISTORY_DAYS, type Goal, type HabitStatus, type User } from "@shared/schema";
+import { addDays, computeStreak, localDate } from "@shared/recurrence";
+import type { IStorage } from "./storage";
+
+// A habit's first local day: the day it was created in the user's timezone
+export function habitStart(user: User, goal: Goal): string {
+  return localDate(user.timezone, goal.createdAt);
+}
+
+// Streaks and recent check-ins of a habit, with days in the user's timezone
+export async function getHabitStatus(storage: IStorage, user: User, goal: Goal): Promise<HabitStatus> {
+  const today = localDate(user.timezone);
+  const start = habitStart(user, goal);
+  const dates = (await storage.getHabitCheckins(user.id, goal.id)).map((c) => c.date);
+  const since = addDays(today, 1 - HABIT_HISTORY_DAYS);
+
+  return {
+    goalId: goal.id,
+    start,
+    today,
+    checkins: dates.filter((date) => date >= since),
+    streak: computeStreak(goal.recurrence ?? "", start, dates, today),
+  };
+}
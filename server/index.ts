@@ -1,21 +1,35 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express from "express";
 import { registerRoutes } from "./routes";
+import { setupAuth } from "./auth";
 import { setupVite, serveStatic, log } from "./vite";
+import { assignRequestId, handleErrors } from "./errors";
+import { trackChangeOrigin } from "./changes";
+import { scheduler } from "./jobs";
 
 const app = express();
 
+// First, so that even a body the parsers reject gets an id; see server/errors.ts
+app.use(assignRequestId);
+// Tags the change events a request causes with the tab that sent it
+app.use(trackChangeOrigin);
+
 declare module 'http' {
   interface IncomingMessage {
     rawBody: unknown
   }
 }
 app.use(express.json({
+  // Conversation imports (e.g. a ChatGPT export) can be large
+  limit: "25mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
 }));
 app.use(express.urlencoded({ extended: false }));
 
+// Sessions, passport and the /api/register, /api/login, /api/logout, /api/user routes
+setupAuth(app);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -39,7 +53,7 @@ app.use((req, res, next) => {
         logLine = logLine.slice(0, 79) + "…";
       }
 
-      log(logLine);
+      log(`[${res.locals.requestId}] ${logLine}`);
     }
   });
 
@@ -49,13 +63,7 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
-  });
+  app.use(handleErrors);
 
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
@@ -77,5 +85,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Reminders, end-of-day reviews and clean-up; see server/jobs.ts
+    scheduler.start().catch((error) => log(`starting the job scheduler failed: ${error}`, "jobs"));
   });
 })();
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Job, JobData } from "@shared/schema";
+import { JobScheduler, newJob } from "./jobs";
+import { MemStorage } from "./storage";
+
+// One-off jobs on in-memory storage, run by a scheduler started for each test
+
+describe("job scheduler", () => {
+  let storage: MemStorage;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+    scheduler = new JobScheduler(storage);
+  });
+
+  afterEach(() => scheduler.stop());
+
+  // Waits for the run of a job that is due, until its status settles
+  async function settled(id: string, attempts: number): Promise<Job> {
+    for (let i = 0; i < 100; i++) {
+      const job = (await storage.getJob(id))!;
+      if (job.status !== "scheduled" && job.status !== "running" && job.attempts >= attempts) return job;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error("The job didn't run");
+  }
+
+  async function createDueJob(payload: JobData, maxAttempts = 1): Promise<string> {
+    const runAt = new Date(Date.now() - 1000);
+    const { id } = await storage.createJob(
+      newJob({ name: "purge-now", kind: "purge_activities", runAt, maxAttempts }, payload)
+    );
+    return id;
+  }
+
+  async function runOnce(payload: JobData): Promise<Job> {
+    const id = await createDueJob(payload);
+    await scheduler.start();
+    return settled(id, 0);
+  }
+
+  test("runs a job with its parsed payload", async () => {
+    const job = await runOnce({ days: 30 });
+    assert.equal(job.status, "completed");
+    assert.equal(job.lastResult?.deleted, 0);
+  });
+
+  test("fails a job whose stored payload doesn't fit its schema", async () => {
+    const job = await runOnce({ days: 1 });
+    assert.equal(job.status, "failed");
+    assert.match(job.lastError ?? "", /^Invalid payload \(days: /);
+  });
+
+  test("retries a failed job after 1, then 2 minutes, then gives up", async () => {
+    const id = await createDueJob({ days: 1 }, 3);
+    await scheduler.start();
+
+    const delays: number[] = [];
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      const job = await settled(id, attempt);
+      assert.equal(job.status, "retrying");
+      delays.push(job.nextRunAt!.getTime() - job.lastRunAt!.getTime());
+
+      // Due again now rather than in a minute or two
+      await storage.updateJob(id, { nextRunAt: new Date(Date.now() - 1000) });
+      scheduler.wake();
+    }
+    const job = await settled(id, 3);
+    assert.equal(job.status, "failed");
+    assert.equal(job.nextRunAt, null);
+
+    assert.ok(delays[0] >= 60_000 && delays[0] < 61_000, `first retry after ${delays[0]}ms`);
+    assert.ok(delays[1] >= 120_000 && delays[1] < 121_000, `second retry after ${delays[1]}ms`);
+  });
+});
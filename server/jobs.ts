@@ -0,0 +1,303 @@
+import { z } from "zod";
+import type { Goal, InsertJob, Job, JobData, JobKind, NewJob, UpdateJob } from "@shared/schema";
+import { nextCronTime } from "@shared/cron";
+import { daysBetween, localDate, localHour } from "@shared/recurrence";
+import { activitiesBetween } from "./analytics";
+import { getSummary } from "./summaries";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+// Background jobs. Each row of the jobs table runs on its cron schedule (in
+// UTC) or once at its runAt, in this process: the scheduler looks for due jobs
+// every TICK_MS and runs them one at a time. A failed run is tried again after
+// 1, 2, 4... minutes until it has failed maxAttempts times.
+//
+// Jobs may run late or twice (a retry after a partial failure, a restart), so
+// each handler skips work already done rather than relying on running exactly
+// on time.
+
+const TICK_MS = 30_000;
+const RETRY_BASE_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+const MAX_ERROR_LENGTH = 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type JobContext = { storage: IStorage; now: Date };
+
+type JobHandler<S extends z.AnyZodObject> = {
+  payload: S; // its settings, with defaults
+  run(payload: z.infer<S>, context: JobContext): Promise<JobData>;
+};
+
+// Ties a handler's run to the payload its schema parses to
+function defineJob<S extends z.AnyZodObject>(
+  payload: S,
+  run: (payload: z.infer<S>, context: JobContext) => Promise<JobData>
+): JobHandler<S> {
+  return { payload, run };
+}
+
+// Writes the review of the day for users whose day is nearly over, so that
+// it is ready for the evening. Days without activity are left to be written
+// if someone asks for them.
+const dailySummariesPayload = z.object({
+  hour: z.number().int().min(0).max(23).default(22), // local hour from which the day is reviewed
+});
+
+async function writeDailySummaries(
+  { hour }: z.infer<typeof dailySummariesPayload>,
+  { storage, now }: JobContext
+): Promise<JobData> {
+  let written = 0;
+  for (const user of await storage.getUsers()) {
+    if (localHour(user.timezone, now) < hour) continue;
+    const today = localDate(user.timezone, now);
+    const stored = await storage.getSummary(user.id, "day", today);
+    if (stored && localHour(user.timezone, new Date(stored.createdAt)) >= hour) continue;
+    if ((await activitiesBetween(storage, user, today, today)).length === 0) continue;
+
+    await getSummary(storage, user, "day", today, { regenerate: true });
+    written++;
+  }
+  return { written };
+}
+
+// Logs a goal_reminder activity, which open tabs show, for each open goal due
+// within `days` days; once a day per goal, from the given local hour
+const goalRemindersPayload = z.object({
+  hour: z.number().int().min(0).max(23).default(9),
+  days: z.number().int().min(0).max(30).default(1),
+});
+
+// Target dates are calendar days, stored as midnight UTC
+const dueDate = (goal: Goal) => new Date(goal.targetDate!).toISOString().slice(0, 10);
+
+function dueIn(days: number): string {
+  if (days === 0) return "today";
+  return days === 1 ? "tomorrow" : `in ${days} days`;
+}
+
+async function sendGoalReminders(
+  { hour, days }: z.infer<typeof goalRemindersPayload>,
+  { storage, now }: JobContext
+): Promise<JobData> {
+  let sent = 0;
+  for (const user of await storage.getUsers()) {
+    if (localHour(user.timezone, now) < hour) continue;
+    const today = localDate(user.timezone, now);
+    const due = (await storage.getGoals(user.id))
+      .filter((goal) => goal.kind === "goal" && !goal.completed && goal.targetDate)
+      .map((goal) => ({ goal, daysLeft: daysBetween(today, dueDate(goal)) }))
+      .filter(({ daysLeft }) => daysLeft >= 0 && daysLeft <= days);
+    if (due.length === 0) continue;
+
+    const reminded = new Set(
+      (await activitiesBetween(storage, user, today, today))
+        .filter((activity) => activity.type === "goal_reminder")
+        .map((activity) => activity.entityId)
+    );
+    for (const { goal, daysLeft } of due) {
+      if (reminded.has(goal.id)) continue;
+      await storage.createActivity(user.id, {
+        type: "goal_reminder",
+        description: `Reminder: "${goal.title}" is due ${dueIn(daysLeft)}`,
+        entityType: "goal",
+        entityId: goal.id,
+        metadata: { targetDate: dueDate(goal), daysLeft },
+      });
+      sent++;
+    }
+  }
+  return { sent };
+}
+
+// Deletes activities older than `days` days. Analytics cover at most a year.
+const purgeActivitiesPayload = z.object({
+  days: z.number().int().min(30).default(365),
+});
+
+async function purgeActivities(
+  { days }: z.infer<typeof purgeActivitiesPayload>,
+  { storage, now }: JobContext
+): Promise<JobData> {
+  const before = new Date(now.getTime() - days * MS_PER_DAY);
+  let deleted = 0;
+  for (const user of await storage.getUsers()) {
+    deleted += await storage.deleteActivitiesBefore(user.id, before);
+  }
+  return { deleted };
+}
+
+const jobHandlers: Record<JobKind, JobHandler<z.AnyZodObject>> = {
+  daily_summaries: defineJob(dailySummariesPayload, writeDailySummaries),
+  goal_reminders: defineJob(goalRemindersPayload, sendGoalReminders),
+  purge_activities: defineJob(purgeActivitiesPayload, purgeActivities),
+};
+
+// Runs a handler on a stored payload, which is checked against its schema
+// first: admins may have edited it, or it may predate a change of settings.
+async function runJob<S extends z.AnyZodObject>(
+  handler: JobHandler<S>,
+  payload: unknown,
+  context: JobContext
+): Promise<JobData> {
+  const parsed = handler.payload.safeParse(payload);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid payload (${issues.join("; ")})`);
+  }
+  return handler.run(parsed.data, context);
+}
+
+// Created on startup when missing. Admins can change or disable them, and
+// deleting one brings it back with its defaults on the next start.
+const builtInJobs: InsertJob[] = [
+  { name: "daily-summaries", kind: "daily_summaries", schedule: "5 * * * *" },
+  { name: "goal-reminders", kind: "goal_reminders", schedule: "0 * * * *" },
+  { name: "purge-activities", kind: "purge_activities", schedule: "30 3 * * *" },
+];
+
+// The payload of a job of `kind` with its defaults filled in. Errors are
+// reported under "payload".
+export function parseJobPayload(kind: JobKind, payload: unknown) {
+  return z.object({ payload: jobHandlers[kind].payload }).safeParse({ payload: payload ?? {} });
+}
+
+function firstRun(job: Pick<Job, "schedule" | "runAt">, now: Date): Date | null {
+  return job.schedule ? nextCronTime(job.schedule, now) : job.runAt ?? null;
+}
+
+// The job to store for a validated insert body and payload
+export function newJob(job: InsertJob, payload: JobData, now: Date = new Date()): NewJob {
+  const timing = { schedule: job.schedule ?? null, runAt: job.runAt ?? null };
+  return {
+    name: job.name,
+    kind: job.kind,
+    ...timing,
+    payload,
+    enabled: job.enabled ?? true,
+    maxAttempts: job.maxAttempts ?? 3,
+    nextRunAt: firstRun(timing, now),
+  };
+}
+
+// The changes to store for a validated PATCH body. A new schedule or runAt
+// starts over from it, and a cron job that is enabled again runs next at its
+// next time rather than catching up.
+export function jobChanges(job: Job, data: UpdateJob, now: Date = new Date()): Partial<Job> {
+  const retimed = data.schedule !== undefined || data.runAt !== undefined;
+  const timing = {
+    schedule: data.schedule !== undefined ? data.schedule : job.schedule,
+    runAt: data.runAt !== undefined ? data.runAt : job.runAt,
+  };
+  if (!retimed && !(data.enabled && timing.schedule)) return data;
+  return { ...data, ...timing, status: "scheduled", attempts: 0, nextRunAt: firstRun(timing, now) };
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export class JobScheduler {
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private busy = false;
+  private pending = false;
+
+  constructor(private storage: IStorage) {}
+
+  // Adds missing built-in jobs, fails runs a restart cut short, and starts
+  // looking for due jobs
+  async start() {
+    const now = new Date();
+    const jobs = await this.storage.getJobs();
+    const names = new Set(jobs.map((job) => job.name));
+    for (const job of builtInJobs) {
+      if (!names.has(job.name)) {
+        await this.storage.createJob(newJob(job, jobHandlers[job.kind].payload.parse({}), now));
+      }
+    }
+    for (const job of jobs) {
+      if (job.status === "running") await this.fail(job, new Error("Interrupted by a server restart"));
+    }
+
+    this.timer = setInterval(() => this.wake(), TICK_MS);
+    this.timer.unref();
+    this.wake();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+  }
+
+  // Runs the jobs due now, e.g. after one is set to run right away. Calls
+  // while jobs are running look again once they finish.
+  wake() {
+    if (this.busy) {
+      this.pending = true;
+      return;
+    }
+    this.busy = true;
+    this.runDue()
+      .catch((error) => log(`looking for due jobs failed: ${error}`, "jobs"))
+      .finally(() => {
+        this.busy = false;
+        if (this.pending) {
+          this.pending = false;
+          this.wake();
+        }
+      });
+  }
+
+  private async runDue() {
+    for (const due of await this.storage.getDueJobs(new Date())) {
+      await this.run(due);
+    }
+  }
+
+  private async run(due: Job) {
+    const started = new Date();
+    // A retry carries on counting attempts; any other run starts over
+    const job = await this.storage.updateJob(due.id, {
+      status: "running",
+      attempts: due.status === "retrying" ? due.attempts : 0,
+      lastRunAt: started,
+    });
+    if (!job) return;
+
+    try {
+      const result = await runJob(jobHandlers[job.kind], job.payload, { storage: this.storage, now: started });
+      const finished = new Date();
+      await this.storage.updateJob(job.id, {
+        status: job.schedule ? "scheduled" : "completed",
+        attempts: 0,
+        nextRunAt: job.schedule ? nextCronTime(job.schedule, finished) : null,
+        lastError: null,
+        lastResult: { ...result, durationMs: finished.getTime() - started.getTime() },
+      });
+      log(`${job.name} finished: ${JSON.stringify(result)}`, "jobs");
+    } catch (error) {
+      await this.fail(job, error);
+    }
+  }
+
+  private async fail(job: Job, error: unknown) {
+    const now = new Date();
+    const attempts = job.attempts + 1;
+    const retry = attempts < job.maxAttempts;
+    const message = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+    await this.storage.updateJob(job.id, {
+      status: retry ? "retrying" : "failed",
+      attempts,
+      nextRunAt: retry
+        ? new Date(now.getTime() + retryDelay(attempts))
+        : job.schedule
+          ? nextCronTime(job.schedule, now)
+          : null,
+      lastError: message,
+      lastResult: null,
+    });
+    log(`${job.name} failed (attempt ${attempts} of ${job.maxAttempts}): ${message}`, "jobs");
+  }
+}
+
+export const scheduler = new JobScheduler(storage);
@@ -0,0 +1,109 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Response } from "express";
+import { goalListQuery, noteListQuery, pageOf, parseListQuery, sendPage, type Page } from "./lists";
+
+// Cursor paging of in-memory records, as the list routes read and answer it
+
+type Row = { id: string; title: string; progress: number };
+
+const rows: Row[] = [
+  { id: "a", title: "Alpha", progress: 90 },
+  { id: "b", title: "Bravo", progress: 50 },
+  { id: "c", title: "Charlie", progress: 50 },
+  { id: "d", title: "Delta", progress: 50 },
+  { id: "e", title: "Echo", progress: 10 },
+];
+
+// Reads a query the way a list route does, failing the test on an error
+function options(query: Record<string, string | undefined>) {
+  const parsed = parseListQuery(goalListQuery, query);
+  assert.ok(typeof parsed !== "string", String(parsed));
+  return parsed;
+}
+
+// Every page of `records`, following the cursors
+function pages(records: Row[], query: Record<string, string>): Page<Row>[] {
+  const result = [pageOf(records, options(query))];
+  while (result[result.length - 1].nextCursor) {
+    const cursor = result[result.length - 1].nextCursor!;
+    result.push(pageOf(records, options({ ...query, cursor })));
+  }
+  return result;
+}
+
+const ids = (all: Page<Row>[]) => all.flatMap((page) => page.items.map((row) => row.id));
+
+describe("list paging", () => {
+  test("keeps records tied on the sort value in id order across page boundaries", () => {
+    // The three at 50 split over the first two pages
+    const desc = pages(rows, { sort: "progress", limit: "2" });
+    assert.deepEqual(
+      desc.map((page) => page.items.map((row) => row.id)),
+      [["a", "d"], ["c", "b"], ["e"]]
+    );
+    assert.deepEqual(ids(pages(rows, { sort: "progress", order: "asc", limit: "2" })), ["e", "b", "c", "d", "a"]);
+  });
+
+  test("reports the same total on every page", () => {
+    assert.deepEqual(
+      pages(rows, { sort: "progress", limit: "2" }).map((page) => page.total),
+      [5, 5, 5]
+    );
+  });
+
+  test("carries on after the cursor's record has been deleted", () => {
+    const [first] = pages(rows, { sort: "progress", limit: "2" });
+    const remaining = rows.filter((row) => row.id !== "d");
+    const next = pageOf(remaining, options({ sort: "progress", limit: "2", cursor: first.nextCursor! }));
+    assert.deepEqual(
+      next.items.map((row) => row.id),
+      ["c", "b"]
+    );
+    assert.equal(next.total, 4);
+  });
+
+  test("refuses a cursor that isn't one, or was made for another sort or order", () => {
+    const [first] = pages(rows, { sort: "progress", limit: "2" });
+    const cursor = first.nextCursor!;
+    const invalid = "cursor: Invalid cursor for this sort and order";
+
+    assert.equal(parseListQuery(goalListQuery, { sort: "progress", cursor: "not-a-cursor" }), invalid);
+    assert.equal(parseListQuery(goalListQuery, { sort: "progress", cursor: cursor.slice(0, -4) }), invalid);
+    assert.equal(parseListQuery(goalListQuery, { sort: "title", cursor }), invalid);
+    assert.equal(parseListQuery(goalListQuery, { sort: "progress", order: "asc", cursor }), invalid);
+    // Titles sort by text and everything else by number
+    const encode = (value: unknown[]) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    assert.equal(parseListQuery(noteListQuery, { cursor: encode(["title", "asc", 50, "b"]) }), invalid);
+    assert.equal(parseListQuery(goalListQuery, { sort: "progress", cursor: encode(["progress", "desc", "50", "b"]) }), invalid);
+  });
+
+  test("refuses limits outside 1 to the page size", () => {
+    assert.match(String(parseListQuery(goalListQuery, { limit: "0" })), /^limit: /);
+    assert.match(String(parseListQuery(goalListQuery, { limit: "many" })), /^limit: /);
+  });
+
+  test("answers with the items, the total and the next cursor in headers", () => {
+    const headers: Record<string, string> = {};
+    let body: unknown;
+    const res = {
+      set(name: string, value: string) {
+        headers[name] = value;
+        return this;
+      },
+      json(value: unknown) {
+        body = value;
+        return this;
+      },
+    } as unknown as Response;
+
+    const [first, , last] = pages(rows, { sort: "progress", limit: "2" });
+    sendPage(res, first);
+    assert.deepEqual(headers, { "X-Total-Count": "5", "X-Next-Cursor": first.nextCursor });
+    assert.deepEqual(body, first.items);
+
+    delete headers["X-Next-Cursor"];
+    sendPage(res, last);
+    assert.deepEqual(headers, { "X-Total-Count": "5" });
+  });
+});
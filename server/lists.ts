@@ -0,0 +1,164 @@
+import type { Response } from "express";
+import { z } from "zod";
+import {
+  activitySorts,
+  activityTypes,
+  conversationSorts,
+  goalSorts,
+  noteSorts,
+  sortOrders,
+  MAX_PAGE_SIZE,
+  type ActivitySort,
+  type ActivityType,
+  type ConversationSort,
+  type GoalSort,
+  type NoteSort,
+  type SortOrder,
+} from "@shared/schema";
+
+// Sorting, filtering and cursor paging for the list routes. A cursor holds
+// the sort value and id of the last item on a page, and the next page starts
+// right after that position, so records added or deleted in the meantime
+// don't shift it. Ids break ties, in the same direction as the sort.
+//
+// The routes still answer with a plain array; the cursor of the next page
+// (when there is one) and the number of matching records go in the
+// X-Next-Cursor and X-Total-Count headers.
+
+export type SortValue = string | number; // dates as milliseconds
+export type CursorPosition = { value: SortValue; id: string };
+
+export type ListOptions<S extends string = string> = {
+  sort: S;
+  order: SortOrder;
+  limit?: number; // everything when absent
+  after?: CursorPosition;
+  from?: Date; // created at or after
+  to?: Date; // created before
+};
+
+export type GoalListOptions = ListOptions<GoalSort> & { category?: string; completed?: boolean };
+export type NoteListOptions = ListOptions<NoteSort> & { tag?: string };
+export type ActivityListOptions = ListOptions<ActivitySort> & { type?: ActivityType[] };
+export type ConversationListOptions = ListOptions<ConversationSort>;
+
+export type Page<T> = {
+  items: T[];
+  total: number; // records matching the filters, on any page
+  nextCursor: string | null;
+};
+
+export function sortValue(value: unknown): SortValue {
+  if (value instanceof Date) return value.getTime();
+  return typeof value === "number" ? value : String(value);
+}
+
+function encodeCursor(options: ListOptions, position: CursorPosition): string {
+  return Buffer.from(JSON.stringify([options.sort, options.order, position.value, position.id])).toString("base64url");
+}
+
+// Cursors only fit the sort and order they were made for. Titles are the one
+// sort by text; every other sort value is a number.
+function decodeCursor(cursor: string, sort: string, order: SortOrder): CursorPosition | undefined {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 4) return undefined;
+    const [cursorSort, cursorOrder, value, id] = decoded;
+    if (cursorSort !== sort || cursorOrder !== order || typeof id !== "string") return undefined;
+    if (typeof value !== (sort === "title" ? "string" : "number")) return undefined;
+    return { value, id };
+  } catch {
+    return undefined;
+  }
+}
+
+// Cuts sorted rows, fetched with one extra to tell whether more follow, to a page
+export function toPage<T extends { id: string }>(rows: T[], total: number, options: ListOptions): Page<T> {
+  if (!options.limit || rows.length <= options.limit) return { items: rows, total, nextCursor: null };
+
+  const items = rows.slice(0, options.limit);
+  const last = items[items.length - 1];
+  const position = { value: sortValue(last[options.sort as keyof T]), id: last.id };
+  return { items, total, nextCursor: encodeCursor(options, position) };
+}
+
+const compare = (a: SortValue, b: SortValue) => (a < b ? -1 : a > b ? 1 : 0);
+
+// A page of in-memory records that already match the filters
+export function pageOf<T extends { id: string }>(records: T[], options: ListOptions): Page<T> {
+  const direction = options.order === "asc" ? 1 : -1;
+  const byPosition = (a: CursorPosition, b: CursorPosition) =>
+    direction * (compare(a.value, b.value) || compare(a.id, b.id));
+
+  const sorted = records
+    .map((record) => ({ record, position: { value: sortValue(record[options.sort as keyof T]), id: record.id } }))
+    .sort((a, b) => byPosition(a.position, b.position));
+  const after = options.after;
+  const rest = after ? sorted.filter(({ position }) => byPosition(position, after) > 0) : sorted;
+  const rows = rest.slice(0, options.limit ? options.limit + 1 : undefined).map(({ record }) => record);
+  return toPage(rows, records.length, options);
+}
+
+// Whether a creation time is within the options' from/to range
+export function inDateRange(createdAt: Date, options: ListOptions): boolean {
+  const time = new Date(createdAt).getTime();
+  return (!options.from || time >= options.from.getTime()) && (!options.to || time < options.to.getTime());
+}
+
+const baseQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  cursor: z.string().optional(),
+  order: z.enum(sortOrders).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+function listQuery<S extends string>(sorts: readonly [S, ...S[]]) {
+  return baseQuery.extend({ sort: z.enum(sorts).default(sorts[0]) });
+}
+
+export const goalListQuery = listQuery(goalSorts).extend({
+  category: z.string().optional(),
+  completed: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+export const noteListQuery = listQuery(noteSorts).extend({ tag: z.string().optional() });
+// ?type=chat,goal_created matches either type
+export const activityListQuery = listQuery(activitySorts).extend({
+  type: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(z.enum(activityTypes)))
+    .optional(),
+});
+export const conversationListQuery = listQuery(conversationSorts);
+
+type ParsedQuery = z.infer<typeof baseQuery> & { sort: string };
+
+// Reads list options from a query string. Titles sort A-Z by default,
+// everything else newest or highest first. Returns an error message when the
+// query is invalid.
+export function parseListQuery<Q extends ParsedQuery>(
+  schema: z.ZodType<Q, z.ZodTypeDef, unknown>,
+  query: unknown
+): (Omit<Q, "cursor" | "order"> & { order: SortOrder; after?: CursorPosition }) | string {
+  const parsed = schema.safeParse(query);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return `${issue.path.join(".")}: ${issue.message}`;
+  }
+
+  const { cursor, order: requestedOrder, ...options } = parsed.data;
+  const order = requestedOrder ?? (options.sort === "title" ? "asc" : "desc");
+  const after = cursor === undefined ? undefined : decodeCursor(cursor, options.sort, order);
+  if (cursor !== undefined && !after) return "cursor: Invalid cursor for this sort and order";
+  return { ...options, order, after };
+}
+
+export function sendPage<T>(res: Response, page: Page<T>) {
+  res.set("X-Total-Count", String(page.total));
+  if (page.nextCursor) res.set("X-Next-Cursor", page.nextCursor);
+  res.json(page.items);
+}
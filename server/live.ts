@@ -0,0 +1,49 @@
+import type { Server } from "http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { sessionUserId } from "./auth";
+import { changes } from "./changes";
+
+export const LIVE_UPDATES_PATH = "/api/ws";
+
+// Idle connections are dropped by some proxies, and dead ones are only
+// noticed by writing to them
+const HEARTBEAT_INTERVAL = 30_000;
+
+// Serves live updates: each signed-in client that opens a WebSocket on
+// /api/ws gets its user's change events as JSON, one per message. Clients
+// only listen; anything they send is ignored. Other upgrades, such as Vite's
+// HMR socket in development, are left to their own handlers.
+export function attachLiveUpdates(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 1024 });
+  const alive = new WeakSet<WebSocket>();
+
+  httpServer.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_UPDATES_PATH) return;
+
+    const userId = await sessionUserId(req);
+    if (!userId) {
+      socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      alive.add(ws);
+      const unsubscribe = changes.subscribe(userId, (event) => {
+        if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(event));
+      });
+      ws.on("pong", () => alive.add(ws));
+      ws.on("close", unsubscribe);
+      ws.on("error", () => ws.terminate());
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+  httpServer.on("close", () => clearInterval(heartbeat));
+}
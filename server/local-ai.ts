@@ -0,0 +1,114 @@
+import fs from "fs";
+import type {
+  AIChatRequest,
+  AIChatResult,
+  AIJsonSchema,
+  AIProvider,
+  AIStreamChunk,
+} from "./ai";
+
+export type LocalScriptReply =
+  | string
+  | { text?: string; toolCalls?: Array<{ name: string; args?: Record<string, unknown> }> };
+
+export type LocalScript = {
+  // Chat replies, returned in order and cycled once exhausted
+  replies?: LocalScriptReply[];
+  // Structured outputs for generateJSON, returned in order and cycled
+  json?: unknown[];
+};
+
+// Deterministic provider for offline development, CI and tests. Without a
+// script it echoes the last user message, and a message like
+// `/create_note {"title": "..."}` calls that tool; with a script it plays back
+// the scripted replies in order.
+export class LocalProvider implements AIProvider {
+  readonly name = "local";
+  private replyIndex = 0;
+  private jsonIndex = 0;
+  private callIndex = 0;
+
+  constructor(private script: LocalScript = {}) {}
+
+  static fromFile(path: string): LocalProvider {
+    const parsed = JSON.parse(fs.readFileSync(path, "utf-8"));
+    return new LocalProvider(Array.isArray(parsed) ? { replies: parsed } : parsed);
+  }
+
+  async chat(request: AIChatRequest): Promise<AIChatResult> {
+    const replies = this.script.replies;
+    if (replies && replies.length > 0) {
+      const reply = replies[this.replyIndex++ % replies.length];
+      if (typeof reply === "string") return { text: reply, toolCalls: [] };
+      return {
+        text: reply.text ?? "",
+        toolCalls: (reply.toolCalls ?? []).map((call) => ({
+          id: `call-${++this.callIndex}`,
+          name: call.name,
+          args: call.args ?? {},
+        })),
+      };
+    }
+
+    const last = request.messages[request.messages.length - 1];
+    if (last?.role === "tool") {
+      return { text: `Done: ${last.results.map((r) => r.name).join(", ")}.`, toolCalls: [] };
+    }
+
+    const content = last?.role === "user" ? last.content : "";
+    const command = content.match(/^\/(\w+)\s*(\{[\s\S]*\})?\s*$/);
+    if (command && request.tools?.some((tool) => tool.name === command[1])) {
+      let args: Record<string, unknown> = {};
+      try {
+        if (command[2]) args = JSON.parse(command[2]);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { text: `The arguments of /${command[1]} aren't valid JSON: ${reason}`, toolCalls: [] };
+      }
+      return {
+        text: "",
+        toolCalls: [{ id: `call-${++this.callIndex}`, name: command[1], args }],
+      };
+    }
+
+    return { text: `You said: ${content}`, toolCalls: [] };
+  }
+
+  async *chatStream(request: AIChatRequest): AsyncGenerator<AIStreamChunk> {
+    const { text, toolCalls } = await this.chat(request);
+
+    // Stream word by word so the client sees the same shape of deltas as with Gemini
+    for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) {
+      if (request.signal?.aborted) return;
+      yield { text: chunk };
+    }
+    if (toolCalls.length > 0) yield { toolCalls };
+  }
+
+  async generateJSON(_prompt: string, schema: AIJsonSchema): Promise<unknown> {
+    const outputs = this.script.json;
+    if (outputs && outputs.length > 0) {
+      return outputs[this.jsonIndex++ % outputs.length];
+    }
+    return emptyValue(schema);
+  }
+}
+
+// The zero value for a schema, so callers fall back to their own defaults
+function emptyValue(schema: AIJsonSchema): unknown {
+  switch (schema.type) {
+    case "array":
+      return [];
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [key, emptyValue(value)]),
+      );
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+  }
+}
@@ -0,0 +1,218 @@
+import type { MemoryCitation } from "@shared/schema";
+import { describeRecurrence } from "@shared/recurrence";
+import type { IStorage } from "./storage";
+import { getAIProvider } from "./ai";
+import { tokenize } from "./search";
+
+// Long-term memory: the user's notes, goals and earlier conversations, ranked
+// against each new chat message with BM25 and optionally re-ranked with the
+// provider's embeddings. The index is rebuilt per query from storage, which
+// keeps it trivially consistent with edits and deletes.
+
+export type Memory = MemoryCitation & {
+  // The text shown to the model
+  snippet: string;
+  score: number;
+};
+
+type MemoryItem = {
+  // Unique per indexed item; several messages share one conversation citation
+  key: string;
+  citation: MemoryCitation;
+  text: string;
+  snippet: string;
+};
+
+const SNIPPET_LENGTH = 300;
+// BM25 candidates handed to the embedding re-ranker, per requested memory
+const RERANK_FACTOR = 4;
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length).trimEnd()}…` : text;
+}
+
+// Okapi BM25 over pre-tokenized documents
+class Bm25Index {
+  private termFrequencies: Map<string, number>[];
+  private documentFrequency = new Map<string, number>();
+  private lengths: number[];
+  private averageLength: number;
+
+  constructor(documents: string[][], private k1 = 1.2, private b = 0.75) {
+    this.lengths = documents.map((tokens) => tokens.length);
+    this.averageLength = this.lengths.reduce((sum, n) => sum + n, 0) / (documents.length || 1);
+    this.termFrequencies = documents.map((tokens) => {
+      const counts = new Map<string, number>();
+      for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+      counts.forEach((_count, token) => {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+      });
+      return counts;
+    });
+  }
+
+  score(query: string[]): number[] {
+    const total = this.termFrequencies.length;
+    const terms = Array.from(new Set(query));
+
+    return this.termFrequencies.map((counts, doc) => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = counts.get(term);
+        if (!tf) continue;
+        const df = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        const norm = 1 - this.b + (this.b * this.lengths[doc]) / (this.averageLength || 1);
+        score += (idf * tf * (this.k1 + 1)) / (tf + this.k1 * norm);
+      }
+      return score;
+    });
+  }
+}
+
+async function collectItems(
+  storage: IStorage,
+  userId: string,
+  excludeConversationId?: string
+): Promise<MemoryItem[]> {
+  const [notes, goals, conversations, messages] = await Promise.all([
+    storage.getNotes(userId),
+    storage.getGoals(userId),
+    storage.getConversations(userId),
+    storage.getAllMessages(userId),
+  ]);
+  const titles = new Map(conversations.map((c) => [c.id, c.title]));
+
+  return [
+    ...notes.map((note) => ({
+      key: `note:${note.id}`,
+      citation: { type: "note" as const, id: note.id, title: note.title },
+      text: [note.title, note.tags?.join(" "), note.content].filter(Boolean).join("\n"),
+      snippet: truncate(note.content, SNIPPET_LENGTH),
+    })),
+    ...goals.map((goal) => ({
+      key: `goal:${goal.id}`,
+      citation: { type: "goal" as const, id: goal.id, title: goal.title },
+      text: [goal.title, goal.category, goal.description].filter(Boolean).join("\n"),
+      snippet: truncate(
+        `${goal.description ? `${goal.description} ` : ""}(${goal.category}, ${
+          goal.kind === "habit"
+            ? `habit: ${describeRecurrence(goal.recurrence ?? "")}`
+            : goal.completed
+              ? "completed"
+              : `${goal.progress}% done`
+        })`,
+        SNIPPET_LENGTH
+      ),
+    })),
+    // The current conversation is already in the prompt as history
+    ...messages
+      .filter((m) => m.conversationId !== excludeConversationId && titles.has(m.conversationId))
+      .map((m) => ({
+        key: `message:${m.id}`,
+        citation: {
+          type: "conversation" as const,
+          id: m.conversationId,
+          title: titles.get(m.conversationId)!,
+        },
+        text: m.content,
+        snippet: truncate(`${m.role === "user" ? "User" : "Assistant"}: ${m.content}`, SNIPPET_LENGTH),
+      })),
+  ];
+}
+
+// Embeddings of indexed items keyed by MemoryItem.key, reused while the text is unchanged
+const embeddingCache = new Map<string, { text: string; vector: number[] }>();
+const EMBEDDING_CACHE_SIZE = 5000;
+
+function cosine(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+async function embedItems(
+  embed: (texts: string[]) => Promise<number[][]>,
+  query: string,
+  items: MemoryItem[]
+): Promise<{ query: number[]; items: number[][] }> {
+  const missing = items.filter((item) => embeddingCache.get(item.key)?.text !== item.text);
+  const vectors = await embed([query, ...missing.map((item) => item.text)]);
+
+  missing.forEach((item, i) => {
+    embeddingCache.delete(item.key);
+    embeddingCache.set(item.key, { text: item.text, vector: vectors[i + 1] ?? [] });
+  });
+  // Map iteration follows insertion order, so this drops the oldest entries
+  for (const key of Array.from(embeddingCache.keys())) {
+    if (embeddingCache.size <= EMBEDDING_CACHE_SIZE) break;
+    embeddingCache.delete(key);
+  }
+
+  return {
+    query: vectors[0] ?? [],
+    items: items.map((item) => embeddingCache.get(item.key)?.vector ?? []),
+  };
+}
+
+// The memories most relevant to `query`, at most one per note, goal or conversation
+export async function retrieveMemories(
+  storage: IStorage,
+  userId: string,
+  query: string,
+  { excludeConversationId, limit = 5 }: { excludeConversationId?: string; limit?: number } = {}
+): Promise<Memory[]> {
+  const queryTokens = tokenize(query);
+  if (queryTokens.length === 0) return [];
+
+  const items = await collectItems(storage, userId, excludeConversationId);
+  const scores = new Bm25Index(items.map((item) => tokenize(item.text))).score(queryTokens);
+
+  let ranked = items
+    .map((item, i) => ({ item, score: scores[i] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit * RERANK_FACTOR);
+
+  const provider = getAIProvider();
+  if (provider.embed && ranked.length > 0) {
+    try {
+      const vectors = await embedItems(
+        provider.embed.bind(provider),
+        query,
+        ranked.map(({ item }) => item)
+      );
+      const best = ranked[0].score;
+      ranked = ranked
+        .map(({ item, score }, i) => ({
+          item,
+          score: 0.5 * (score / best) + 0.5 * cosine(vectors.query, vectors.items[i]),
+        }))
+        .sort((a, b) => b.score - a.score);
+    } catch (error) {
+      // Lexical ranking alone is still useful
+      console.error("Error embedding memories:", error);
+    }
+  }
+
+  const seen = new Set<string>();
+  const memories: Memory[] = [];
+  for (const { item, score } of ranked) {
+    const citationKey = `${item.citation.type}:${item.citation.id}`;
+    if (seen.has(citationKey)) continue;
+    seen.add(citationKey);
+    memories.push({ ...item.citation, snippet: item.snippet, score });
+    if (memories.length === limit) break;
+  }
+  return memories;
+}
+
+export function toCitations(memories: Memory[]): MemoryCitation[] {
+  return memories.map(({ type, id, title }) => ({ type, id, title }));
+}
@@ -0,0 +1,30 @@
+import type { Note } from "@shared/schema";
+import { normalizeTitle, renameWikiLinks } from "@shared/wiki-links";
+import type { IStorage } from "./storage";
+
+// Points [[links]] to a note's old title at its new one after a rename.
+// `linking` are the notes that linked to it before; they're left alone while
+// another note still has the old title, since the links now lead there.
+// Returns how many notes were rewritten.
+export async function propagateRename(
+  storage: IStorage,
+  userId: string,
+  oldTitle: string,
+  note: Note,
+  linking: Note[]
+): Promise<number> {
+  const from = normalizeTitle(oldTitle);
+  if (linking.length === 0 || from === normalizeTitle(note.title)) return 0;
+
+  const notes = await storage.getNotes(userId);
+  if (notes.some((n) => n.id !== note.id && normalizeTitle(n.title) === from)) return 0;
+
+  let rewritten = 0;
+  for (const source of linking) {
+    const content = renameWikiLinks(source.content, oldTitle, note.title);
+    if (content === source.content) continue;
+    await storage.updateNote(userId, source.id, { content });
+    rewritten++;
+  }
+  return rewritten;
+}
@@ -1,361 +1,1276 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { chatWithAI, generateDailySummary } from "./gemini";
+import { requireAdmin, requireAuth } from "./auth";
+import { chatWithAI, streamChatWithAI, type ChatReply } from "./ai";
+import { createChatTools, undoChatAction } from "./tools";
+import { retrieveMemories, toCitations, type Memory } from "./memory";
+import { syncGoalProgress } from "./goals";
+import { getHabitStatus, habitStart } from "./habits";
+import { analyticsQuery, analyticsRange, getAnalytics } from "./analytics";
+import { getSummary, summaryTarget } from "./summaries";
+import { jobChanges, newJob, parseJobPayload, scheduler } from "./jobs";
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from "./search";
+import { activePath, getActivePath, getConversationMessages, latestLeaf } from "./branches";
+import { exportFilename, importConversations, parseConversationImport, renderExport } from "./conversations";
+import { createBackup, parseBackup } from "./backup";
+import { propagateRename } from "./notes";
+import { exportVault, importVault, parseVault } from "./vault";
+import { logError, sendError, sendServerError } from "./errors";
+import { sendValidationError } from "./validation";
+import { attachLiveUpdates } from "./live";
+import {
+  activityListQuery,
+  conversationListQuery,
+  goalListQuery,
+  noteListQuery,
+  parseListQuery,
+  sendPage,
+} from "./lists";
+import { localDate } from "@shared/recurrence";
 import {
   insertConversationSchema,
   insertMessageSchema,
   insertGoalSchema,
+  insertGoalTaskSchema,
   insertNoteSchema,
-  insertActivitySchema,
+  insertJobSchema,
+  updateConversationSchema,
+  updateGoalSchema,
+  updateNoteSchema,
+  updateJobSchema,
   type ChatResponse,
+  type ChatStreamEvent,
+  type Message,
   type DailySummary,
+  type SearchResultType,
+  type ConversationExportFormat,
+  type RestoreMode,
+  type SummaryPeriod,
+  searchResultTypes,
+  summaryPeriods,
+  conversationExportFormats,
+  restoreModes,
 } from "@shared/schema";
 import { format } from "date-fns";
+import { randomUUID } from "crypto";
+
+// In-flight streaming replies, keyed by the stream id sent in the "start" event
+const activeStreams = new Map<string, { userId: string; abort: AbortController }>();
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Everything else under /api requires a signed-in user
+  app.use("/api", requireAuth);
+
   // Conversations
-  app.get("/api/conversations", async (_req, res) => {
+  // Sorted and paged by ?sort=, ?order=, ?limit= and ?cursor=, and filtered by
+  // creation time with ?from= and ?to=; see server/lists.ts
+  app.get("/api/conversations", async (req, res) => {
+    const userId = req.user!.id;
+    const options = parseListQuery(conversationListQuery, req.query);
+    if (typeof options === "string") {
+      return sendError(res, 400, options);
+    }
     try {
-      const conversations = await storage.getConversations();
-      res.json(conversations);
+      sendPage(res, await storage.listConversations(userId, options));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch conversations" });
+      sendServerError(res, "Failed to fetch conversations", error);
     }
   });
 
   app.get("/api/conversations/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const conversation = await storage.getConversation(req.params.id);
+      const conversation = await storage.getConversation(userId, req.params.id);
       if (!conversation) {
-        return res.status(404).json({ error: "Conversation not found" });
+        return sendError(res, 404, "Conversation not found");
       }
       res.json(conversation);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch conversation" });
+      sendServerError(res, "Failed to fetch conversation", error);
     }
   });
 
   app.post("/api/conversations", async (req, res) => {
+    const userId = req.user!.id;
+    const result = insertConversationSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid conversation data", result.error);
+    }
     try {
-      const data = insertConversationSchema.parse(req.body);
-      const conversation = await storage.createConversation(data);
+      const conversation = await storage.createConversation(userId, result.data);
       res.json(conversation);
     } catch (error) {
-      res.status(400).json({ error: "Invalid conversation data" });
+      sendServerError(res, "Failed to create conversation", error);
     }
   });
 
   app.patch("/api/conversations/:id", async (req, res) => {
+    const userId = req.user!.id;
+    const result = updateConversationSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid conversation data", result.error);
+    }
     try {
-      const conversation = await storage.updateConversation(req.params.id, req.body);
+      const conversation = await storage.updateConversation(userId, req.params.id, result.data);
       if (!conversation) {
-        return res.status(404).json({ error: "Conversation not found" });
+        return sendError(res, 404, "Conversation not found");
       }
       res.json(conversation);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update conversation" });
+      sendServerError(res, "Failed to update conversation", error);
     }
   });
 
   app.delete("/api/conversations/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const success = await storage.deleteConversation(req.params.id);
+      const success = await storage.deleteConversation(userId, req.params.id);
       if (!success) {
-        return res.status(404).json({ error: "Conversation not found" });
+        return sendError(res, 404, "Conversation not found");
       }
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete conversation" });
+      sendServerError(res, "Failed to delete conversation", error);
+    }
+  });
+
+  // Downloads a conversation as Markdown, HTML or JSON; see server/conversations.ts
+  app.get("/api/conversations/:id/export", async (req, res) => {
+    const user = req.user!;
+    const format = (req.query.format ?? "md") as ConversationExportFormat;
+    if (!conversationExportFormats.includes(format)) {
+      return sendError(res, 400, `format must be one of: ${conversationExportFormats.join(", ")}`);
+    }
+
+    try {
+      const conversation = await storage.getConversation(user.id, req.params.id);
+      if (!conversation) {
+        return sendError(res, 404, "Conversation not found");
+      }
+      const messages = await getConversationMessages(storage, user.id, conversation);
+      res.attachment(exportFilename(conversation, format));
+      res.send(renderExport(conversation, messages, format, user.timezone));
+    } catch (error) {
+      sendServerError(res, "Failed to export conversation", error);
+    }
+  });
+
+  // Takes one exported conversation, an array of them, or a ChatGPT conversations.json
+  app.post("/api/conversations/import", async (req, res) => {
+    const userId = req.user!.id;
+    const parsed = parseConversationImport(req.body);
+    if (typeof parsed === "string") {
+      return sendError(res, 400, parsed);
+    }
+
+    try {
+      const result = await importConversations(storage, userId, parsed);
+      const count = result.conversations.length;
+      await storage.createActivity(userId, {
+        type: "conversations_imported",
+        description: `Imported ${count} conversation${count === 1 ? "" : "s"} (${result.messages} messages)`,
+        metadata: { conversations: count, messages: result.messages },
+      });
+      res.json(result);
+    } catch (error) {
+      sendServerError(res, "Failed to import conversations", error);
     }
   });
 
   // Messages
+  // The selected branch only; see server/branches.ts
   app.get("/api/conversations/:conversationId/messages", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const messages = await storage.getMessages(req.params.conversationId);
-      res.json(messages);
+      const conversation = await storage.getConversation(userId, req.params.conversationId);
+      if (!conversation) {
+        return sendError(res, 404, "Conversation not found");
+      }
+      res.json(await getActivePath(storage, userId, conversation));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch messages" });
+      sendServerError(res, "Failed to fetch messages", error);
     }
   });
 
-  // Chat endpoint - handles sending messages and getting AI responses
-  app.post("/api/chat", async (req, res) => {
+  // Selects the branch through a message, down to its newest reply, and returns it
+  app.post("/api/conversations/:id/branch", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const { message, conversationId } = req.body;
+      const conversation = await storage.getConversation(userId, req.params.id);
+      if (!conversation) {
+        return sendError(res, 404, "Conversation not found");
+      }
+
+      const messages = await getConversationMessages(storage, userId, conversation);
+      const leaf = typeof req.body.messageId === "string" ? latestLeaf(messages, req.body.messageId) : undefined;
+      if (!leaf) {
+        return sendError(res, 404, "Message not found");
+      }
 
-      if (!message || typeof message !== "string") {
-        return res.status(400).json({ error: "Message is required" });
+      await storage.updateConversation(userId, conversation.id, { activeMessageId: leaf.id });
+      res.json(activePath(messages, leaf.id));
+    } catch (error) {
+      sendServerError(res, "Failed to switch branch", error);
+    }
+  });
+
+  // A chat request: a new message, an edit of an earlier user message (sent as
+  // a new branch from the same point) or a regenerated assistant reply
+  type ChatTurnRequest = {
+    message?: string;
+    conversationId?: string;
+    edit?: string;
+    regenerate?: string;
+  };
+
+  type ChatTurn = {
+    conversationId: string;
+    userMessage: Message;
+    conversationHistory: { role: string; content: string }[];
+    memories: Memory[];
+  };
+
+  // Checks the request body; returns an error message for a bad one
+  function validateChatRequest(body: ChatTurnRequest): string | undefined {
+    const { message, conversationId, edit, regenerate } = body;
+    if (regenerate !== undefined) {
+      if (typeof regenerate !== "string" || typeof conversationId !== "string") {
+        return "regenerate needs a message id and its conversationId";
       }
+      return undefined;
+    }
+    if (!message || typeof message !== "string") return "Message is required";
+    if (edit !== undefined && (typeof edit !== "string" || typeof conversationId !== "string")) {
+      return "edit needs a message id and its conversationId";
+    }
+    return undefined;
+  }
+
+  // Creates the conversation if needed, saves the user message on the selected
+  // branch (or as a sibling of the edited one) and returns the history along
+  // that branch to send to the model. Regenerating reuses the reply's prompt.
+  // Returns undefined for an unknown conversation or message.
+  async function beginChatTurn(userId: string, request: ChatTurnRequest): Promise<ChatTurn | undefined> {
+    const { message = "", edit, regenerate } = request;
+
+    let conversation = request.conversationId
+      ? await storage.getConversation(userId, request.conversationId)
+      : await storage.createConversation(userId, {
+          title: message.substring(0, 50) + (message.length > 50 ? "..." : ""),
+        });
+    if (!conversation) return undefined;
 
-      // Create or get conversation
-      let convId = conversationId;
-      let conversation;
+    const messages = await getConversationMessages(storage, userId, conversation);
+    let userMessage: Message;
 
-      if (!convId) {
-        // Create new conversation
-        const title = message.substring(0, 50) + (message.length > 50 ? "..." : "");
-        conversation = await storage.createConversation({ title });
-        convId = conversation.id;
+    if (regenerate) {
+      const reply = messages.find((m) => m.id === regenerate && m.role === "assistant");
+      const prompt = reply?.parentId ? messages.find((m) => m.id === reply.parentId) : undefined;
+      if (!prompt) return undefined;
+      userMessage = prompt;
+    } else {
+      let parentId: string | null;
+      if (edit) {
+        const original = messages.find((m) => m.id === edit && m.role === "user");
+        if (!original) return undefined;
+        parentId = original.parentId;
       } else {
-        conversation = await storage.getConversation(convId);
-        if (!conversation) {
-          return res.status(404).json({ error: "Conversation not found" });
-        }
+        const path = activePath(messages, conversation.activeMessageId);
+        parentId = path.length > 0 ? path[path.length - 1].id : null;
       }
 
-      // Save user message
-      const userMessage = await storage.createMessage({
-        conversationId: convId,
+      userMessage = await storage.createMessage(userId, {
+        conversationId: conversation.id,
+        parentId,
         role: "user",
         content: message,
       });
+      messages.push(userMessage);
+    }
 
-      // Get conversation history
-      const messages = await storage.getMessages(convId);
-      const conversationHistory = messages
-        .filter((m) => m.id !== userMessage.id)
-        .map((m) => ({ role: m.role, content: m.content }));
+    conversation =
+      (await storage.updateConversation(userId, conversation.id, { activeMessageId: userMessage.id })) ??
+      conversation;
 
-      // Get AI response
-      const aiResponse = await chatWithAI(message, conversationHistory);
+    const conversationHistory = activePath(messages, userMessage.id)
+      .slice(0, -1)
+      .map((m) => ({ role: m.role, content: m.content }));
 
-      // Save AI message
-      const aiMessage = await storage.createMessage({
-        conversationId: convId,
-        role: "assistant",
-        content: aiResponse,
-      });
+    const memories = await retrieveMemories(storage, userId, userMessage.content, {
+      excludeConversationId: conversation.id,
+    });
 
-      // Update conversation timestamp
-      await storage.updateConversation(convId, {
-        updatedAt: new Date(),
-      });
+    return { conversationId: conversation.id, userMessage, conversationHistory, memories };
+  }
 
-      // Log activity
-      await storage.createActivity({
-        type: "chat",
-        description: `Had a conversation about: ${message.substring(0, 60)}${message.length > 60 ? "..." : ""}`,
+  // Saves the assistant reply under its prompt with the memories it was given,
+  // selects it, and logs the chat activity
+  async function finishChatTurn(userId: string, turn: ChatTurn, reply: ChatReply) {
+    const aiMessage = await storage.createMessage(userId, {
+      conversationId: turn.conversationId,
+      parentId: turn.userMessage.id,
+      role: "assistant",
+      content: reply.text,
+      actions: reply.actions.length > 0 ? reply.actions : null,
+      citations: turn.memories.length > 0 ? toCitations(turn.memories) : null,
+    });
+
+    await storage.updateConversation(userId, turn.conversationId, {
+      activeMessageId: aiMessage.id,
+    });
+
+    const message = turn.userMessage.content;
+    await storage.createActivity(userId, {
+      type: "chat",
+      description: `Had a conversation about: ${message.substring(0, 60)}${message.length > 60 ? "..." : ""}`,
+      entityType: "conversation",
+      entityId: turn.conversationId,
+      metadata: { messageLength: message.length, replyLength: reply.text.length, actions: reply.actions.length },
+    });
+
+    return aiMessage;
+  }
+
+  // Chat endpoint - handles sending messages and getting AI responses
+  app.post("/api/chat", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const invalid = validateChatRequest(req.body);
+      if (invalid) {
+        return sendError(res, 400, invalid);
+      }
+
+      const turn = await beginChatTurn(userId, req.body);
+      if (!turn) {
+        return sendError(res, 404, "Conversation or message not found");
+      }
+
+      const aiResponse = await chatWithAI(turn.userMessage.content, turn.conversationHistory, {
+        tools: createChatTools(storage, userId),
+        memories: turn.memories,
       });
+      const aiMessage = await finishChatTurn(userId, turn, aiResponse);
 
       const response: ChatResponse = {
         message: aiMessage,
-        conversationId: convId,
+        conversationId: turn.conversationId,
       };
 
       res.json(response);
     } catch (error) {
-      console.error("Chat error:", error);
-      res.status(500).json({ error: "Failed to process chat message" });
+      sendServerError(res, "Failed to process chat message", error);
+    }
+  });
+
+  // Streaming chat endpoint - sends token deltas as Server-Sent Events. If the
+  // reply is stopped or the client disconnects, generation ends and the partial
+  // text is saved.
+  app.post("/api/chat/stream", async (req, res) => {
+    const userId = req.user!.id;
+    const invalid = validateChatRequest(req.body);
+    if (invalid) {
+      return sendError(res, 400, invalid);
+    }
+
+    const streamId = randomUUID();
+    const abort = new AbortController();
+    activeStreams.set(streamId, { userId, abort });
+    res.on("close", () => {
+      activeStreams.delete(streamId);
+      if (!res.writableEnded) abort.abort();
+    });
+
+    const send = (event: ChatStreamEvent) => {
+      if (!res.writableEnded && !res.destroyed) res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    let turn;
+    try {
+      turn = await beginChatTurn(userId, req.body);
+    } catch (error) {
+      return sendServerError(res, "Failed to process chat message", error);
+    }
+    if (!turn) {
+      return sendError(res, 404, "Conversation or message not found");
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    send({
+      type: "start",
+      streamId,
+      conversationId: turn.conversationId,
+      userMessage: turn.userMessage,
+    });
+    if (turn.memories.length > 0) {
+      send({ type: "citations", citations: toCitations(turn.memories) });
+    }
+
+    const reply: ChatReply = { text: "", actions: [] };
+    try {
+      const stream = streamChatWithAI(turn.userMessage.content, turn.conversationHistory, {
+        tools: createChatTools(storage, userId),
+        memories: turn.memories,
+        signal: abort.signal,
+      });
+      for await (const chunk of stream) {
+        if (chunk.type === "text") {
+          reply.text += chunk.text;
+          send({ type: "delta", text: chunk.text });
+        } else {
+          reply.actions.push(chunk.action);
+          send({ type: "action", action: chunk.action });
+        }
+      }
+
+      if (!abort.signal.aborted && !reply.text && reply.actions.length === 0) {
+        reply.text = "I'm sorry, I couldn't generate a response. Please try again.";
+        send({ type: "delta", text: reply.text });
+      }
+
+      if (reply.text || reply.actions.length > 0) {
+        const aiMessage = await finishChatTurn(userId, turn, reply);
+        send({ type: "done", message: aiMessage, conversationId: turn.conversationId });
+      }
+    } catch (error) {
+      logError(res, "Chat stream error", error);
+      send({ type: "error", error: "Failed to process chat message" });
+    }
+    res.end();
+  });
+
+  // Reverses something the assistant did through a tool and marks its card as undone
+  app.post("/api/messages/:id/actions/:actionId/undo", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const message = await storage.getMessage(userId, req.params.id);
+      const action = message?.actions?.find((a) => a.id === req.params.actionId);
+      if (!message || !action) {
+        return sendError(res, 404, "Action not found");
+      }
+      if (!action.undo || action.undone) {
+        return sendError(res, 400, "Action cannot be undone");
+      }
+
+      const success = await undoChatAction(storage, userId, action);
+      if (!success) {
+        return sendError(res, 409, "The item this action changed no longer exists");
+      }
+
+      const updated = await storage.updateMessage(userId, message.id, {
+        actions: message.actions!.map((a) => (a.id === action.id ? { ...a, undone: true } : a)),
+      });
+
+      await storage.createActivity(userId, {
+        type: "chat_action_undone",
+        description: `Undid: ${action.summary}`,
+        entityType: action.entityType ?? null,
+        entityId: action.entityId ?? null,
+        metadata: { tool: action.tool, conversationId: message.conversationId },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      sendServerError(res, "Failed to undo action", error);
+    }
+  });
+
+  app.post("/api/chat/stream/:streamId/stop", (req, res) => {
+    const stream = activeStreams.get(req.params.streamId);
+    if (!stream || stream.userId !== req.user!.id) {
+      return sendError(res, 404, "Stream not found");
     }
+    stream.abort.abort();
+    res.json({ success: true });
   });
 
   // Goals
-  app.get("/api/goals", async (_req, res) => {
+  // Lists like conversations, also filtered by ?category= and ?completed=
+  app.get("/api/goals", async (req, res) => {
+    const userId = req.user!.id;
+    const options = parseListQuery(goalListQuery, req.query);
+    if (typeof options === "string") {
+      return sendError(res, 400, options);
+    }
     try {
-      const goals = await storage.getGoals();
-      res.json(goals);
+      sendPage(res, await storage.listGoals(userId, options));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch goals" });
+      sendServerError(res, "Failed to fetch goals", error);
     }
   });
 
   app.get("/api/goals/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const goal = await storage.getGoal(req.params.id);
+      const goal = await storage.getGoal(userId, req.params.id);
       if (!goal) {
-        return res.status(404).json({ error: "Goal not found" });
+        return sendError(res, 404, "Goal not found");
       }
       res.json(goal);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch goal" });
+      sendServerError(res, "Failed to fetch goal", error);
     }
   });
 
   app.post("/api/goals", async (req, res) => {
+    const userId = req.user!.id;
+    const result = insertGoalSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid goal data", result.error);
+    }
+    const data = result.data;
+    if (data.kind === "habit" && !data.recurrence) {
+      return sendValidationError(res, "Invalid goal data", { recurrence: ["Habits need a recurrence rule"] });
+    }
+
     try {
-      const data = insertGoalSchema.parse(req.body);
-      const goal = await storage.createGoal(data);
+      // A new goal in "tasks" mode has no tasks yet
+      const goal = await storage.createGoal(userId, data.progressMode === "tasks" ? { ...data, progress: 0 } : data);
 
       // Log activity
-      await storage.createActivity({
+      await storage.createActivity(userId, {
         type: "goal_created",
         description: `Created goal: ${goal.title}`,
+        entityType: "goal",
+        entityId: goal.id,
+        metadata: { category: goal.category, kind: goal.kind },
       });
 
       res.json(goal);
     } catch (error) {
-      res.status(400).json({ error: "Invalid goal data" });
+      sendServerError(res, "Failed to create goal", error);
     }
   });
 
   app.patch("/api/goals/:id", async (req, res) => {
+    const userId = req.user!.id;
+    const result = updateGoalSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid goal data", result.error);
+    }
+
     try {
-      const existingGoal = await storage.getGoal(req.params.id);
+      const existingGoal = await storage.getGoal(userId, req.params.id);
       if (!existingGoal) {
-        return res.status(404).json({ error: "Goal not found" });
+        return sendError(res, 404, "Goal not found");
       }
 
-      const goal = await storage.updateGoal(req.params.id, req.body);
-      if (!goal) {
-        return res.status(404).json({ error: "Goal not found" });
+      const data = result.data;
+      const isHabit = (data.kind ?? existingGoal.kind) === "habit";
+      if (isHabit && !(data.recurrence === undefined ? existingGoal.recurrence : data.recurrence)) {
+        return sendValidationError(res, "Invalid goal data", { recurrence: ["Habits need a recurrence rule"] });
+      }
+
+      // Progress of a goal in "tasks" mode comes from its tasks, never from the client
+      if ((data.progressMode ?? existingGoal.progressMode) === "tasks") {
+        delete data.progress;
       }
 
+      const updated = await storage.updateGoal(userId, req.params.id, data);
+      if (!updated) {
+        return sendError(res, 404, "Goal not found");
+      }
+      const goal = await syncGoalProgress(storage, userId, updated);
+
       // Log activity
-      if (req.body.completed === true && !existingGoal.completed) {
-        await storage.createActivity({
+      if (data.completed === true && !existingGoal.completed) {
+        await storage.createActivity(userId, {
           type: "goal_completed",
           description: `Completed goal: ${goal.title}`,
+          entityType: "goal",
+          entityId: goal.id,
+          metadata: { oldProgress: existingGoal.progress, newProgress: goal.progress },
         });
       } else {
-        await storage.createActivity({
+        await storage.createActivity(userId, {
           type: "goal_updated",
           description: `Updated goal: ${goal.title}`,
+          entityType: "goal",
+          entityId: goal.id,
+          metadata: { oldProgress: existingGoal.progress, newProgress: goal.progress },
         });
       }
 
       res.json(goal);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update goal" });
+      sendServerError(res, "Failed to update goal", error);
     }
   });
 
   app.delete("/api/goals/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const success = await storage.deleteGoal(req.params.id);
+      const success = await storage.deleteGoal(userId, req.params.id);
       if (!success) {
-        return res.status(404).json({ error: "Goal not found" });
+        return sendError(res, 404, "Goal not found");
       }
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete goal" });
+      sendServerError(res, "Failed to delete goal", error);
+    }
+  });
+
+  // Habits - goals with kind "habit" and a recurrence rule. Check-in days are
+  // local to the user's timezone.
+  app.get("/api/habits", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const habits = (await storage.getGoals(userId)).filter((goal) => goal.kind === "habit");
+      const statuses = await Promise.all(habits.map((goal) => getHabitStatus(storage, req.user!, goal)));
+      res.json(statuses);
+    } catch (error) {
+      sendServerError(res, "Failed to fetch habits", error);
+    }
+  });
+
+  app.post("/api/goals/:id/checkins", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      if (!goal || goal.kind !== "habit") {
+        return sendError(res, 404, "Habit not found");
+      }
+
+      // Defaults to today; earlier days can be backfilled back to the habit's start
+      const date = req.body.date ?? localDate(req.user!.timezone);
+      if (
+        typeof date !== "string" ||
+        !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+        date < habitStart(req.user!, goal) ||
+        date > localDate(req.user!.timezone)
+      ) {
+        return sendError(res, 400, "Invalid check-in date");
+      }
+
+      const alreadyCheckedIn = (await storage.getHabitCheckins(userId, goal.id)).some((c) => c.date === date);
+      await storage.createHabitCheckin(userId, goal.id, date);
+      const status = await getHabitStatus(storage, req.user!, goal);
+
+      // Log activity
+      if (!alreadyCheckedIn) {
+        await storage.createActivity(userId, {
+          type: "habit_checkin",
+          description: `Checked in: ${goal.title} (${status.streak.current} ${
+            status.streak.unit === "weeks" ? "week" : "day"
+          } streak)`,
+          entityType: "goal",
+          entityId: goal.id,
+          metadata: { date, streak: status.streak.current, streakUnit: status.streak.unit },
+        });
+      }
+
+      res.json(status);
+    } catch (error) {
+      sendServerError(res, "Failed to check in", error);
+    }
+  });
+
+  app.delete("/api/goals/:id/checkins/:date", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      if (!goal || goal.kind !== "habit") {
+        return sendError(res, 404, "Habit not found");
+      }
+
+      const success = await storage.deleteHabitCheckin(userId, goal.id, req.params.date);
+      if (!success) {
+        return sendError(res, 404, "Check-in not found");
+      }
+      res.json(await getHabitStatus(storage, req.user!, goal));
+    } catch (error) {
+      sendServerError(res, "Failed to remove check-in", error);
+    }
+  });
+
+  // Goal tasks - checklist items of a goal. Every change recomputes the
+  // progress of goals in "tasks" mode.
+  app.get("/api/goals/:id/tasks", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      if (!goal) {
+        return sendError(res, 404, "Goal not found");
+      }
+      const tasks = await storage.getGoalTasks(userId, goal.id);
+      res.json(tasks);
+    } catch (error) {
+      sendServerError(res, "Failed to fetch tasks", error);
+    }
+  });
+
+  app.post("/api/goals/:id/tasks", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      if (!goal) {
+        return sendError(res, 404, "Goal not found");
+      }
+
+      const result = insertGoalTaskSchema.safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, "Invalid task data", result.error);
+      }
+
+      const task = await storage.createGoalTask(userId, goal.id, result.data);
+      await syncGoalProgress(storage, userId, goal);
+      res.json(task);
+    } catch (error) {
+      sendServerError(res, "Failed to create task", error);
+    }
+  });
+
+  app.patch("/api/goals/:id/tasks/:taskId", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      const existingTask = await storage.getGoalTask(userId, req.params.taskId);
+      if (!goal || !existingTask || existingTask.goalId !== goal.id) {
+        return sendError(res, 404, "Task not found");
+      }
+
+      const result = insertGoalTaskSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return sendValidationError(res, "Invalid task data", result.error);
+      }
+
+      const task = await storage.updateGoalTask(userId, existingTask.id, result.data);
+      if (!task) {
+        return sendError(res, 404, "Task not found");
+      }
+
+      const synced = await syncGoalProgress(storage, userId, goal);
+
+      // Log activity, with the progress the task moved its goal by
+      if (task.completed && !existingTask.completed) {
+        await storage.createActivity(userId, {
+          type: "task_completed",
+          description: `Completed task: ${task.title} (${goal.title})`,
+          entityType: "goal",
+          entityId: goal.id,
+          metadata: {
+            taskId: task.id,
+            taskTitle: task.title,
+            oldProgress: goal.progress,
+            newProgress: synced.progress,
+          },
+        });
+      }
+
+      res.json(task);
+    } catch (error) {
+      sendServerError(res, "Failed to update task", error);
+    }
+  });
+
+  app.delete("/api/goals/:id/tasks/:taskId", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const goal = await storage.getGoal(userId, req.params.id);
+      const task = await storage.getGoalTask(userId, req.params.taskId);
+      if (!goal || !task || task.goalId !== goal.id) {
+        return sendError(res, 404, "Task not found");
+      }
+
+      await storage.deleteGoalTask(userId, task.id);
+      await syncGoalProgress(storage, userId, goal);
+      res.json({ success: true });
+    } catch (error) {
+      sendServerError(res, "Failed to delete task", error);
     }
   });
 
   // Notes
-  app.get("/api/notes", async (_req, res) => {
+  // Lists like conversations, also filtered by ?tag=
+  app.get("/api/notes", async (req, res) => {
+    const userId = req.user!.id;
+    const options = parseListQuery(noteListQuery, req.query);
+    if (typeof options === "string") {
+      return sendError(res, 400, options);
+    }
+    try {
+      sendPage(res, await storage.listNotes(userId, options));
+    } catch (error) {
+      sendServerError(res, "Failed to fetch notes", error);
+    }
+  });
+
+  // Every note as a Markdown file with front-matter, zipped; see server/vault.ts
+  app.get("/api/notes/export", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const notes = await storage.getNotes();
-      res.json(notes);
+      const zip = exportVault(await storage.getNotes(userId));
+      res.attachment(`astramind-notes-${format(new Date(), "yyyy-MM-dd")}.zip`);
+      res.send(Buffer.from(zip));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch notes" });
+      sendServerError(res, "Failed to export notes", error);
+    }
+  });
+
+  // The body is a zip of .md files, e.g. an Obsidian vault or an export from above
+  app.post("/api/notes/import", express.raw({ type: () => true, limit: "50mb" }), async (req, res) => {
+    const userId = req.user!.id;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return sendError(res, 400, "Upload a zip of Markdown files");
+    }
+    const vault = parseVault(req.body);
+    if (typeof vault === "string") {
+      return sendError(res, 400, vault);
+    }
+
+    try {
+      const result = await importVault(storage, userId, vault);
+      const count = result.created + result.updated;
+      if (count > 0) {
+        await storage.createActivity(userId, {
+          type: "notes_imported",
+          description: `Imported ${count} note${count === 1 ? "" : "s"} from a Markdown vault`,
+          metadata: { created: result.created, updated: result.updated },
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      sendServerError(res, "Failed to import notes", error);
     }
   });
 
   app.get("/api/notes/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const note = await storage.getNote(req.params.id);
+      const note = await storage.getNote(userId, req.params.id);
       if (!note) {
-        return res.status(404).json({ error: "Note not found" });
+        return sendError(res, 404, "Note not found");
       }
       res.json(note);
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch note" });
+      sendServerError(res, "Failed to fetch note", error);
     }
   });
 
   app.post("/api/notes", async (req, res) => {
+    const userId = req.user!.id;
+    const result = insertNoteSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid note data", result.error);
+    }
     try {
-      const data = insertNoteSchema.parse(req.body);
-      const note = await storage.createNote(data);
+      const note = await storage.createNote(userId, result.data);
 
       // Log activity
-      await storage.createActivity({
+      await storage.createActivity(userId, {
         type: "note_created",
         description: `Created note: ${note.title}`,
+        entityType: "note",
+        entityId: note.id,
+        metadata: { tags: note.tags?.length ?? 0 },
       });
 
       res.json(note);
     } catch (error) {
-      res.status(400).json({ error: "Invalid note data" });
+      sendServerError(res, "Failed to create note", error);
+    }
+  });
+
+  // Notes that link to this one with [[its title]]
+  app.get("/api/notes/:id/backlinks", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const note = await storage.getNote(userId, req.params.id);
+      if (!note) {
+        return sendError(res, 404, "Note not found");
+      }
+      res.json(await storage.getBacklinks(userId, note.id));
+    } catch (error) {
+      sendServerError(res, "Failed to fetch backlinks", error);
     }
   });
 
   app.patch("/api/notes/:id", async (req, res) => {
+    const userId = req.user!.id;
+    const result = updateNoteSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid note data", result.error);
+    }
     try {
-      const note = await storage.updateNote(req.params.id, req.body);
+      const existingNote = await storage.getNote(userId, req.params.id);
+      if (!existingNote) {
+        return sendError(res, 404, "Note not found");
+      }
+      // Looked up before the title changes, so that a rename can update them
+      const linking = await storage.getBacklinks(userId, existingNote.id);
+
+      const note = await storage.updateNote(userId, req.params.id, result.data);
       if (!note) {
-        return res.status(404).json({ error: "Note not found" });
+        return sendError(res, 404, "Note not found");
       }
+      await propagateRename(storage, userId, existingNote.title, note, linking);
 
       // Log activity
-      await storage.createActivity({
+      await storage.createActivity(userId, {
         type: "note_updated",
         description: `Updated note: ${note.title}`,
+        entityType: "note",
+        entityId: note.id,
+        metadata: existingNote.title === note.title ? null : { oldTitle: existingNote.title },
       });
 
       res.json(note);
     } catch (error) {
-      res.status(500).json({ error: "Failed to update note" });
+      sendServerError(res, "Failed to update note", error);
+    }
+  });
+
+  // Earlier versions of a note, newest first
+  app.get("/api/notes/:id/revisions", async (req, res) => {
+    const userId = req.user!.id;
+    try {
+      const note = await storage.getNote(userId, req.params.id);
+      if (!note) {
+        return sendError(res, 404, "Note not found");
+      }
+      res.json(await storage.getNoteRevisions(userId, note.id));
+    } catch (error) {
+      sendServerError(res, "Failed to fetch revisions", error);
+    }
+  });
+
+  // Brings back an earlier version; the current one becomes a revision in turn
+  app.post("/api/notes/:id/revisions/:rev/restore", async (req, res) => {
+    const userId = req.user!.id;
+    const rev = Number(req.params.rev);
+    if (!Number.isInteger(rev) || rev < 1) {
+      return sendError(res, 400, "Invalid revision number");
+    }
+
+    try {
+      const existingNote = await storage.getNote(userId, req.params.id);
+      if (!existingNote) {
+        return sendError(res, 404, "Note not found");
+      }
+      const revision = await storage.getNoteRevision(userId, existingNote.id, rev);
+      if (!revision) {
+        return sendError(res, 404, "Revision not found");
+      }
+      const linking = await storage.getBacklinks(userId, existingNote.id);
+
+      const note = await storage.updateNote(userId, existingNote.id, {
+        title: revision.title,
+        content: revision.content,
+        tags: revision.tags,
+      });
+      if (!note) {
+        return sendError(res, 404, "Note not found");
+      }
+      await propagateRename(storage, userId, existingNote.title, note, linking);
+
+      // Log activity
+      await storage.createActivity(userId, {
+        type: "note_updated",
+        description: `Restored revision ${rev} of note: ${note.title}`,
+        entityType: "note",
+        entityId: note.id,
+        metadata: { restoredRevision: rev },
+      });
+
+      res.json(note);
+    } catch (error) {
+      sendServerError(res, "Failed to restore revision", error);
     }
   });
 
   app.delete("/api/notes/:id", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const success = await storage.deleteNote(req.params.id);
+      const success = await storage.deleteNote(userId, req.params.id);
       if (!success) {
-        return res.status(404).json({ error: "Note not found" });
+        return sendError(res, 404, "Note not found");
       }
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete note" });
+      sendServerError(res, "Failed to delete note", error);
+    }
+  });
+
+  // Search
+  // Every word of ?q= must match; ?types=note,goal,message narrows the result types
+  app.get("/api/search", async (req, res) => {
+    const userId = req.user!.id;
+    const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_SEARCH_LIMIT;
+    const types = typeof req.query.types === "string" ? req.query.types.split(",") : undefined;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return sendError(res, 400, `limit must be between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+    if (types?.some((type) => !searchResultTypes.includes(type as SearchResultType))) {
+      return sendError(res, 400, `types must be among ${searchResultTypes.join(", ")}`);
+    }
+    if (!query) return res.json([]);
+
+    try {
+      const results = await storage.search(userId, query, { limit, types: types as SearchResultType[] | undefined });
+      res.json(results);
+    } catch (error) {
+      sendServerError(res, "Failed to search", error);
     }
   });
 
   // Activities
-  app.get("/api/activities", async (_req, res) => {
+  // Lists like conversations, also filtered by ?type= (comma-separated)
+  app.get("/api/activities", async (req, res) => {
+    const userId = req.user!.id;
+    const options = parseListQuery(activityListQuery, req.query);
+    if (typeof options === "string") {
+      return sendError(res, 400, options);
+    }
     try {
-      const activities = await storage.getActivities();
-      res.json(activities);
+      sendPage(res, await storage.listActivities(userId, options));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch activities" });
+      sendServerError(res, "Failed to fetch activities", error);
     }
   });
 
-  app.post("/api/activities", async (req, res) => {
+  // Time-bucketed counts and a day heatmap from the activity log; see server/analytics.ts
+  app.get("/api/analytics", async (req, res) => {
+    const result = analyticsQuery.safeParse(req.query);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid analytics query", result.error);
+    }
+    const range = analyticsRange(result.data, req.user!);
+    if (typeof range === "string") {
+      return sendError(res, 400, range);
+    }
     try {
-      const data = insertActivitySchema.parse(req.body);
-      const activity = await storage.createActivity(data);
-      res.json(activity);
+      res.json(await getAnalytics(storage, req.user!, range));
     } catch (error) {
-      res.status(400).json({ error: "Invalid activity data" });
+      sendServerError(res, "Failed to compute analytics", error);
     }
   });
 
-  // Daily Summary
-  app.get("/api/summary/daily", async (_req, res) => {
+  // Backup and restore of the whole workspace; see server/backup.ts
+  app.get("/api/backup", async (req, res) => {
+    const userId = req.user!.id;
     try {
-      const activities = await storage.getActivities();
-      const today = format(new Date(), "yyyy-MM-dd");
+      const backup = createBackup(await storage.getWorkspace(userId));
+      res.attachment(`astramind-backup-${format(new Date(), "yyyy-MM-dd")}.json`);
+      res.send(JSON.stringify(backup));
+    } catch (error) {
+      sendServerError(res, "Failed to create backup", error);
+    }
+  });
 
-      // Filter today's activities
-      const todayActivities = activities.filter(
-        (a) => format(new Date(a.createdAt), "yyyy-MM-dd") === today
-      );
+  // The body is a backup file; ?mode=merge (default) or replace
+  app.post("/api/restore", async (req, res) => {
+    const userId = req.user!.id;
+    const mode = (req.query.mode ?? "merge") as RestoreMode;
+    if (!restoreModes.includes(mode)) {
+      return sendError(res, 400, `mode must be one of: ${restoreModes.join(", ")}`);
+    }
+    const data = parseBackup(req.body);
+    if (typeof data === "string") {
+      return sendError(res, 400, data);
+    }
 
-      const totalChats = todayActivities.filter((a) => a.type === "chat").length;
-      const goalsCompleted = todayActivities.filter((a) => a.type === "goal_completed").length;
-      const notesCreated = todayActivities.filter((a) => a.type === "note_created").length;
+    try {
+      const result = await storage.restoreWorkspace(userId, data, mode);
+      const restored = Object.values(result.counts).reduce((sum, c) => sum + c.restored, 0);
+      await storage.createActivity(userId, {
+        type: "workspace_restored",
+        description: `Restored ${restored} records from a backup (${mode})`,
+        metadata: { mode, restored },
+      });
+      res.json(result);
+    } catch (error) {
+      sendServerError(res, "Failed to restore backup", error);
+    }
+  });
 
-      const insights = await generateDailySummary(totalChats, goalsCompleted, notesCreated);
+  // Daily Summary
+  // AI reviews of a day, week or month, kept once written; see server/summaries.ts
+  app.get("/api/summaries", async (req, res) => {
+    const period = req.query.period as SummaryPeriod | undefined;
+    if (period !== undefined && !summaryPeriods.includes(period)) {
+      return sendError(res, 400, `period must be one of: ${summaryPeriods.join(", ")}`);
+    }
+    try {
+      res.json(await storage.getSummaries(req.user!.id, period));
+    } catch (error) {
+      sendServerError(res, "Failed to fetch summaries", error);
+    }
+  });
+
+  app.get("/api/summaries/:period/:date", async (req, res) => {
+    const target = summaryTarget(req.params, req.user!);
+    if (typeof target === "string") {
+      return sendError(res, 400, target);
+    }
+    try {
+      res.json(await getSummary(storage, req.user!, target.period, target.date));
+    } catch (error) {
+      sendServerError(res, "Failed to generate summary", error);
+    }
+  });
 
+  app.post("/api/summaries/:period/:date/regenerate", async (req, res) => {
+    const target = summaryTarget(req.params, req.user!);
+    if (typeof target === "string") {
+      return sendError(res, 400, target);
+    }
+    try {
+      res.json(await getSummary(storage, req.user!, target.period, target.date, { regenerate: true }));
+    } catch (error) {
+      sendServerError(res, "Failed to generate summary", error);
+    }
+  });
+
+  // Today's review in the older daily summary shape
+  app.get("/api/summary/daily", async (req, res) => {
+    try {
+      const review = await getSummary(storage, req.user!, "day", localDate(req.user!.timezone));
       const summary: DailySummary = {
-        date: today,
-        totalChats,
-        goalsCompleted,
-        notesCreated,
-        insights,
+        date: review.start,
+        totalChats: review.stats.chats,
+        goalsCompleted: review.stats.completions,
+        notesCreated: review.stats.notes,
+        insights: [review.headline, ...review.highlights],
       };
-
       res.json(summary);
     } catch (error) {
-      console.error("Daily summary error:", error);
-      res.status(500).json({ error: "Failed to generate daily summary" });
+      sendServerError(res, "Failed to generate daily summary", error);
+    }
+  });
+
+  // Background jobs, for admins; see server/jobs.ts
+  app.use("/api/admin", requireAdmin);
+
+  app.get("/api/admin/jobs", async (_req, res) => {
+    try {
+      res.json(await storage.getJobs());
+    } catch (error) {
+      sendServerError(res, "Failed to fetch jobs", error);
+    }
+  });
+
+  app.get("/api/admin/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+      res.json(job);
+    } catch (error) {
+      sendServerError(res, "Failed to fetch job", error);
+    }
+  });
+
+  app.post("/api/admin/jobs", async (req, res) => {
+    const result = insertJobSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid job data", result.error);
+    }
+    const payload = parseJobPayload(result.data.kind, result.data.payload);
+    if (!payload.success) {
+      return sendValidationError(res, "Invalid job data", payload.error);
+    }
+
+    try {
+      const jobs = await storage.getJobs();
+      if (jobs.some((job) => job.name === result.data.name)) {
+        return sendError(res, 409, `A job named ${result.data.name} already exists`);
+      }
+      const job = await storage.createJob(newJob(result.data, payload.data.payload));
+      scheduler.wake();
+      res.status(201).json(job);
+    } catch (error) {
+      sendServerError(res, "Failed to create job", error);
+    }
+  });
+
+  app.patch("/api/admin/jobs/:id", async (req, res) => {
+    const result = updateJobSchema.safeParse(req.body);
+    if (!result.success) {
+      return sendValidationError(res, "Invalid job data", result.error);
+    }
+
+    try {
+      const jobs = await storage.getJobs();
+      const existingJob = jobs.find((job) => job.id === req.params.id);
+      if (!existingJob) {
+        return sendError(res, 404, "Job not found");
+      }
+      if (existingJob.status === "running") {
+        return sendError(res, 409, "The job is running; try again when it has finished");
+      }
+
+      const data = { ...result.data };
+      const schedule = data.schedule !== undefined ? data.schedule : existingJob.schedule;
+      const runAt = data.runAt !== undefined ? data.runAt : existingJob.runAt;
+      if (!schedule === !runAt) {
+        return sendValidationError(res, "Invalid job data", { schedule: ["Give either a schedule or a runAt"] });
+      }
+      if (data.payload !== undefined) {
+        const payload = parseJobPayload(existingJob.kind, data.payload);
+        if (!payload.success) {
+          return sendValidationError(res, "Invalid job data", payload.error);
+        }
+        data.payload = payload.data.payload;
+      }
+      if (data.name && jobs.some((job) => job.name === data.name && job.id !== existingJob.id)) {
+        return sendError(res, 409, `A job named ${data.name} already exists`);
+      }
+
+      const job = await storage.updateJob(existingJob.id, jobChanges(existingJob, data));
+      if (!job) {
+        return sendError(res, 404, "Job not found");
+      }
+      scheduler.wake();
+      res.json(job);
+    } catch (error) {
+      sendServerError(res, "Failed to update job", error);
+    }
+  });
+
+  app.delete("/api/admin/jobs/:id", async (req, res) => {
+    try {
+      const success = await storage.deleteJob(req.params.id);
+      if (!success) {
+        return sendError(res, 404, "Job not found");
+      }
+      res.json({ success: true });
+    } catch (error) {
+      sendServerError(res, "Failed to delete job", error);
+    }
+  });
+
+  // Runs the job as soon as the scheduler is free rather than at its next
+  // time; answers before it runs
+  app.post("/api/admin/jobs/:id/run", async (req, res) => {
+    try {
+      const existingJob = await storage.getJob(req.params.id);
+      if (!existingJob) {
+        return sendError(res, 404, "Job not found");
+      }
+      if (!existingJob.enabled) {
+        return sendError(res, 409, "The job is disabled");
+      }
+      if (existingJob.status === "running") {
+        return sendError(res, 409, "The job is already running");
+      }
+      const job = await storage.updateJob(existingJob.id, { nextRunAt: new Date() });
+      scheduler.wake();
+      res.status(202).json(job);
+    } catch (error) {
+      sendServerError(res, "Failed to run job", error);
     }
   });
 
   const httpServer = createServer(app);
+  attachLiveUpdates(httpServer);
 
   return httpServer;
 }
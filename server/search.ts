@@ -0,0 +1,210 @@
+import type { SearchResultType, SearchSnippetPart } from "@shared/schema";
+
+// Full-text search helpers. DbStorage searches with Postgres tsvectors and
+// ts_headline; MemStorage keeps a SearchIndex up to date as records change.
+// Both return snippets as SearchSnippetPart runs so the client never renders
+// markup from the server.
+
+export type SearchOptions = {
+  limit?: number;
+  types?: SearchResultType[];
+};
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+const SNIPPET_LENGTH = 200;
+// Characters of context kept before the first hit in a snippet
+const SNIPPET_LEAD = 60;
+
+const stopwords = new Set(
+  (
+    "a an and are as at be but by can could did do does for from had has have how i if in into is it its " +
+    "me my of on or our so that the their them then there these they this to was we were what when where " +
+    "which who why will with would you your"
+  ).split(" ")
+);
+
+// Runs of letters and digits in any script (built with RegExp because the
+// tsconfig target predates the `u` flag)
+const wordPattern = new RegExp("[\\p{L}\\p{N}]+", "gu");
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(wordPattern) ?? []).filter(
+    (token) => token.length > 1 && !stopwords.has(token)
+  );
+}
+
+// A query term matches a word it starts, so "run" finds "running"
+function matchesTerm(word: string, terms: string[]) {
+  const lower = word.toLowerCase();
+  return terms.some((term) => lower.startsWith(term));
+}
+
+// Up to SNIPPET_LENGTH characters of `text` around the first word matching
+// `terms`, split into runs with the matching words marked
+export function highlight(text: string, terms: string[]): SearchSnippetPart[] {
+  const words = Array.from(text.matchAll(wordPattern));
+  const first = words.find((word) => matchesTerm(word[0], terms));
+
+  let start = first ? Math.max(0, first.index! - SNIPPET_LEAD) : 0;
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space >= 0 && space < first!.index! ? space + 1 : first!.index!;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const parts: SearchSnippetPart[] = [];
+  const push = (chunk: string, match: boolean) => {
+    if (!chunk) return;
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) last.text += chunk;
+    else parts.push({ text: chunk, match });
+  };
+
+  push(start > 0 ? "…" : "", false);
+  let cursor = start;
+  for (const word of words) {
+    const wordStart = word.index!;
+    const wordEnd = wordStart + word[0].length;
+    if (wordStart < start || wordEnd > end) continue;
+    if (!matchesTerm(word[0], terms)) continue;
+    push(text.slice(cursor, wordStart), false);
+    push(word[0], true);
+    cursor = wordEnd;
+  }
+  push(text.slice(cursor, end), false);
+  push(end < text.length ? "…" : "", false);
+  return parts;
+}
+
+// ts_headline markers around hits; control characters never appear in user text
+export const HEADLINE_START = "\u0002";
+export const HEADLINE_STOP = "\u0003";
+export const HEADLINE_OPTIONS =
+  `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, ` +
+  `MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "`;
+
+// Splits a ts_headline result into snippet runs
+export function parseHeadline(headline: string): SearchSnippetPart[] {
+  const parts: SearchSnippetPart[] = [];
+  const [lead, ...chunks] = headline.split(HEADLINE_START);
+  if (lead) parts.push({ text: lead, match: false });
+  for (const chunk of chunks) {
+    const [hit, rest = ""] = chunk.split(HEADLINE_STOP);
+    if (hit) parts.push({ text: hit, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+export type SearchDocument = {
+  userId: string;
+  type: SearchResultType;
+  id: string;
+  title: string;
+  // Snippets come from the body
+  body: string;
+  // Searchable but never shown, e.g. a note's tags
+  keywords?: string;
+};
+
+export type SearchHit = { document: SearchDocument; score: number };
+
+const TITLE_WEIGHT = 2;
+// Score multiplier for a prefix match, relative to an exact one
+const PREFIX_MATCH = 0.5;
+
+// In-process inverted index, kept current by MemStorage. Ranks with BM25 over
+// title (counted twice), body and keywords; every query term must match.
+export class SearchIndex {
+  private documents = new Map<string, SearchDocument & { length: number }>();
+  // term -> document key -> weighted term frequency
+  private postings = new Map<string, Map<string, number>>();
+  private totalLength = 0;
+
+  constructor(private k1 = 1.2, private b = 0.75) {}
+
+  private key(type: SearchResultType, id: string) {
+    return `${type}:${id}`;
+  }
+
+  put(document: SearchDocument) {
+    const key = this.key(document.type, document.id);
+    this.remove(document.type, document.id);
+
+    const counts = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const token of tokenize(text)) counts.set(token, (counts.get(token) ?? 0) + weight);
+    };
+    add(document.title, TITLE_WEIGHT);
+    add(document.body, 1);
+    add(document.keywords ?? "", 1);
+
+    let length = 0;
+    counts.forEach((count, term) => {
+      length += count;
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(key, count);
+    });
+    this.documents.set(key, { ...document, length });
+    this.totalLength += length;
+  }
+
+  remove(type: SearchResultType, id: string) {
+    const key = this.key(type, id);
+    const document = this.documents.get(key);
+    if (!document) return;
+
+    const terms = new Set(tokenize(`${document.title} ${document.body} ${document.keywords ?? ""}`));
+    terms.forEach((term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(key);
+      if (posting?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(key);
+    this.totalLength -= document.length;
+  }
+
+  search(userId: string, query: string, types?: SearchResultType[]): SearchHit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const total = this.documents.size;
+    const averageLength = this.totalLength / (total || 1);
+    const scores = new Map<string, number>();
+
+    terms.forEach((term, i) => {
+      // Best score per document among the index terms this query term matches
+      const termScores = new Map<string, number>();
+      this.postings.forEach((posting, indexTerm) => {
+        if (!indexTerm.startsWith(term)) return;
+        const idf = Math.log(1 + (total - posting.size + 0.5) / (posting.size + 0.5));
+        const factor = indexTerm === term ? 1 : PREFIX_MATCH;
+
+        posting.forEach((tf, key) => {
+          const document = this.documents.get(key)!;
+          if (document.userId !== userId || (types && !types.includes(document.type))) return;
+          if (i > 0 && !scores.has(key)) return;
+          const norm = 1 - this.b + (this.b * document.length) / (averageLength || 1);
+          const score = (factor * idf * tf * (this.k1 + 1)) / (tf + this.k1 * norm);
+          termScores.set(key, Math.max(termScores.get(key) ?? 0, score));
+        });
+      });
+
+      if (i === 0) {
+        termScores.forEach((score, key) => scores.set(key, score));
+      } else {
+        // Drop documents this term missed
+        scores.forEach((score, key) => {
+          if (termScores.has(key)) scores.set(key, score + termScores.get(key)!);
+          else scores.delete(key);
+        });
+      }
+    });
+
+    return Array.from(scores.entries())
+      .map(([key, score]) => ({ document: this.documents.get(key)!, score }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
@@ -0,0 +1,288 @@
+import { before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+import { createTestDb } from "./test-db";
+import { goalListQuery, parseListQuery, sortValue, type ListOptions, type Page } from "./lists";
+
+// DbStorage runs against pg-mem, an in-memory Postgres, and has to list and
+// sort exactly as MemStorage does
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+// The same records, created in the same order a few milliseconds apart, then
+// some updated so that creation and update times sort differently
+async function seed(storage: IStorage) {
+  const { id: userId } = await storage.createUser({ username: "ada", password: "secret" });
+  const titles = ["Mango", "apple", "Zebra", "banana", "Cherry"];
+
+  const conversations = [];
+  for (const title of titles) {
+    conversations.push(await storage.createConversation(userId, { title }));
+    await tick();
+  }
+  for (const [index, title] of titles.entries()) {
+    await storage.createGoal(userId, { title, category: "fruit", progress: (index * 37) % 100 });
+    await tick();
+    await storage.createNote(userId, { title, content: `About ${title}`, tags: [] });
+    await tick();
+  }
+  for (const title of ["Zebra", "Mango"]) {
+    const conversation = conversations.find((c) => c.title === title)!;
+    await storage.updateConversation(userId, conversation.id, { title });
+    await tick();
+  }
+  for (const goal of (await storage.getGoals(userId)).filter((goal) => goal.title !== "Cherry")) {
+    await storage.updateGoal(userId, goal.id, { description: "ripe" });
+    await tick();
+  }
+  for (const note of (await storage.getNotes(userId)).filter((note) => note.title.length > 5)) {
+    await storage.updateNote(userId, note.id, { content: `More about ${note.title}` });
+    await tick();
+  }
+  for (const title of titles) {
+    await storage.createActivity(userId, { type: "chat", description: title });
+    await tick();
+  }
+
+  const conversation = conversations[0];
+  for (const content of ["first", "second", "third"]) {
+    await storage.createMessage(userId, { conversationId: conversation.id, role: "user", content });
+    await tick();
+  }
+  for (const [period, start, end] of [
+    ["day", "2025-03-04", "2025-03-04"],
+    ["month", "2025-03-01", "2025-03-31"],
+    ["week", "2025-03-03", "2025-03-09"],
+    ["day", "2025-03-05", "2025-03-05"],
+  ] as const) {
+    await storage.saveSummary(userId, {
+      period,
+      start,
+      end,
+      headline: `${period} ${start}`,
+      highlights: [],
+      suggestions: [],
+      stats: { chats: 0, completions: 0, progress: 0, notesUpdated: 0 },
+    });
+  }
+  return { userId, conversationId: conversation.id };
+}
+
+type Store = { storage: IStorage; userId: string; conversationId: string };
+type ListSort = schema.ConversationSort | schema.GoalSort | schema.NoteSort;
+
+// Every item of a list, fetched two at a time by cursor
+async function allPages<T extends { id: string }>(
+  list: (options: ListOptions<ListSort>) => Promise<Page<T>>,
+  options: ListOptions<ListSort>
+): Promise<T[]> {
+  const items: T[] = [];
+  let page = await list({ ...options, limit: 2 });
+  items.push(...page.items);
+  while (page.nextCursor) {
+    const last = items[items.length - 1];
+    const after = { value: sortValue(last[options.sort as keyof T]), id: last.id };
+    page = await list({ ...options, limit: 2, after });
+    items.push(...page.items);
+  }
+  return items;
+}
+
+describe("DbStorage on pg-mem", () => {
+  let mem: Store;
+  let db: Store;
+
+  before(async () => {
+    const memStorage = new MemStorage();
+    mem = { storage: memStorage, ...(await seed(memStorage)) };
+    const dbStorage = new DbStorage(await createTestDb(), new session.MemoryStore());
+    db = { storage: dbStorage, ...(await seed(dbStorage)) };
+  });
+
+  // Titles of what a store returns, in order
+  async function titlesOf(read: (store: Store) => Promise<{ title: string }[]>) {
+    return [(await read(mem)).map((item) => item.title), (await read(db)).map((item) => item.title)];
+  }
+
+  const lists = {
+    conversations: { sorts: schema.conversationSorts, list: "listConversations" },
+    goals: { sorts: schema.goalSorts, list: "listGoals" },
+    notes: { sorts: schema.noteSorts, list: "listNotes" },
+  } as const;
+
+  for (const [name, { sorts, list }] of Object.entries(lists)) {
+    for (const sort of sorts) {
+      for (const order of schema.sortOrders) {
+        test(`lists ${name} by ${sort} ${order} in the same order`, async () => {
+          const read = ({ storage, userId }: Store, options: ListOptions) =>
+            (storage[list] as (userId: string, options: ListOptions) => Promise<Page<{ id: string; title: string }>>).call(
+              storage,
+              userId,
+              options
+            );
+          const [memTitles, dbTitles] = await titlesOf(async (store) => (await read(store, { sort, order })).items);
+          assert.deepEqual(dbTitles, memTitles);
+          assert.equal(new Set(memTitles).size, 5);
+
+          const [memPaged, dbPaged] = await titlesOf((store) =>
+            allPages((options) => read(store, options), { sort, order })
+          );
+          assert.deepEqual(memPaged, memTitles);
+          assert.deepEqual(dbPaged, memTitles);
+        });
+      }
+    }
+  }
+
+  test("pages through goals tied on the sort value by cursor, with a steady total", async () => {
+    for (const { storage } of [mem, db]) {
+      const { id: userId } = await storage.createUser({ username: "grace", password: "secret" });
+      for (const [title, progress] of [["High", 80], ["A", 50], ["B", 50], ["C", 50], ["D", 50], ["Low", 10]] as const) {
+        await storage.createGoal(userId, { title, category: "ties", progress });
+      }
+      const everything = (await storage.listGoals(userId, { sort: "progress", order: "desc" })).items;
+
+      // As the route reads each page, from the cursor of the one before
+      const pages: Page<schema.Goal>[] = [];
+      let cursor: string | undefined;
+      do {
+        const options = parseListQuery(goalListQuery, { sort: "progress", limit: "2", cursor });
+        assert.ok(typeof options !== "string", String(options));
+        pages.push(await storage.listGoals(userId, options));
+        cursor = pages[pages.length - 1].nextCursor ?? undefined;
+      } while (cursor);
+
+      assert.deepEqual(
+        pages.flatMap((page) => page.items.map((goal) => goal.id)),
+        everything.map((goal) => goal.id)
+      );
+      assert.equal(everything[0].title, "High");
+      assert.equal(everything[5].title, "Low");
+      assert.deepEqual(
+        pages.map((page) => page.total),
+        [6, 6, 6]
+      );
+    }
+  });
+
+  test("lists activities by creation time in the same order", async () => {
+    for (const order of schema.sortOrders) {
+      const read = async ({ storage, userId }: Store) =>
+        (await storage.listActivities(userId, { sort: "createdAt", order })).items.map((a) => a.description);
+      assert.deepEqual(await read(db), await read(mem));
+    }
+  });
+
+  test("gets conversations, messages and summaries in the same order", async () => {
+    const [memConversations, dbConversations] = await titlesOf(({ storage, userId }) =>
+      storage.getConversations(userId)
+    );
+    assert.deepEqual(dbConversations, memConversations);
+
+    const contents = async ({ storage, userId, conversationId }: Store) =>
+      (await storage.getMessages(userId, conversationId)).map((message) => message.content);
+    assert.deepEqual(await contents(mem), ["first", "second", "third"]);
+    assert.deepEqual(await contents(db), ["first", "second", "third"]);
+
+    const headlines = async ({ storage, userId }: Store) =>
+      (await storage.getSummaries(userId)).map((summary) => summary.headline);
+    assert.deepEqual(await headlines(db), await headlines(mem));
+  });
+
+  test("numbers each note revision after the last", async () => {
+    for (const { storage, userId } of [mem, db]) {
+      const note = await storage.createNote(userId, { title: "Draft", content: "v0", tags: [] });
+      for (const content of ["v1", "v2", "v3"]) await storage.updateNote(userId, note.id, { content });
+
+      const revisions = await storage.getNoteRevisions(userId, note.id);
+      assert.deepEqual(
+        revisions.map(({ revision, content }) => [revision, content]),
+        [
+          [3, "v2"],
+          [2, "v1"],
+          [1, "v0"],
+        ]
+      );
+      assert.equal((await storage.getNote(userId, note.id))?.content, "v3");
+    }
+  });
+
+  test("deletes a conversation's messages with it", async () => {
+    for (const { storage, userId, conversationId } of [mem, db]) {
+      assert.equal(await storage.deleteConversation(userId, conversationId), true);
+      assert.equal(await storage.getConversation(userId, conversationId), undefined);
+      assert.deepEqual(await storage.getMessages(userId, conversationId), []);
+      assert.equal(
+        (await storage.getAllMessages(userId)).some((message) => message.conversationId === conversationId),
+        false
+      );
+      assert.equal(await storage.deleteConversation(userId, conversationId), false);
+    }
+  });
+
+  test("imports a conversation with its messages", async () => {
+    for (const { storage, userId } of [mem, db]) {
+      const now = new Date();
+      const conversation = {
+        id: randomUUID(),
+        userId,
+        title: "Imported",
+        activeMessageId: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      const message = (content: string, createdAt: Date): schema.Message => ({
+        id: randomUUID(),
+        userId,
+        conversationId: conversation.id,
+        parentId: null,
+        role: "user",
+        content,
+        actions: null,
+        citations: null,
+        createdAt,
+      });
+      const messages = [message("one", new Date(now.getTime() - 2)), message("two", new Date(now.getTime() - 1))];
+
+      const imported = await storage.importConversation(userId, conversation, messages);
+      assert.equal(imported.title, "Imported");
+      assert.deepEqual(
+        (await storage.getMessages(userId, conversation.id)).map((m) => m.content),
+        ["one", "two"]
+      );
+    }
+  });
+
+  test("deletes a goal's tasks and check-ins with it", async () => {
+    for (const { storage, userId } of [mem, db]) {
+      const goal = await storage.createGoal(userId, { title: "Stretch", category: "health", kind: "habit" });
+      await storage.createGoalTask(userId, goal.id, { title: "Mat" });
+      await storage.createHabitCheckin(userId, goal.id, "2025-03-04");
+
+      assert.equal(await storage.deleteGoal(userId, goal.id), true);
+      assert.equal(await storage.getGoal(userId, goal.id), undefined);
+      assert.deepEqual(await storage.getGoalTasks(userId, goal.id), []);
+      assert.deepEqual(await storage.getHabitCheckins(userId, goal.id), []);
+      assert.equal(await storage.deleteGoal(userId, goal.id), false);
+    }
+  });
+
+  test("deletes a note's revisions and links with it", async () => {
+    for (const { storage, userId } of [mem, db]) {
+      const target = await storage.createNote(userId, { title: "Target", content: "", tags: [] });
+      const note = await storage.createNote(userId, { title: "Source", content: "See [[Target]]", tags: [] });
+      await storage.updateNote(userId, note.id, { content: "See [[Target]] again" });
+      assert.equal((await storage.getBacklinks(userId, target.id)).length, 1);
+
+      assert.equal(await storage.deleteNote(userId, note.id), true);
+      assert.equal(await storage.getNote(userId, note.id), undefined);
+      assert.deepEqual(await storage.getNoteRevisions(userId, note.id), []);
+      assert.equal((await storage.getWorkspace(userId)).noteRevisions.some((r) => r.noteId === note.id), false);
+      assert.deepEqual(await storage.getBacklinks(userId, target.id), []);
+      assert.equal(await storage.deleteNote(userId, note.id), false);
+    }
+  });
+});
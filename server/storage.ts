@@ -1,82 +1,343 @@
 import {
+  users,
+  conversations,
+  messages,
+  goals,
+  goalTasks,
+  habitCheckins,
+  notes,
+  noteRevisions,
+  noteLinks,
+  activities,
+  summaries,
+  jobs,
+  type User,
+  type InsertUser,
   type Conversation,
   type InsertConversation,
   type Message,
   type InsertMessage,
   type Goal,
   type InsertGoal,
+  type GoalTask,
+  type InsertGoalTask,
+  type HabitCheckin,
   type Note,
   type InsertNote,
+  type NoteRevision,
   type Activity,
   type InsertActivity,
+  type Summary,
+  type InsertSummary,
+  type SummaryPeriod,
+  type Job,
+  type NewJob,
+  type SearchResult,
+  type WorkspaceData,
+  type RestoreMode,
+  type RestoreResult,
+  searchResultTypes,
+  messageSearchVector,
+  goalSearchVector,
+  noteSearchVector,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, inArray, lt, lte, ne, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, createPool, type Database } from "./db";
+import {
+  SearchIndex,
+  tokenize,
+  highlight,
+  parseHeadline,
+  DEFAULT_SEARCH_LIMIT,
+  HEADLINE_OPTIONS,
+  type SearchOptions,
+} from "./search";
+import { planRestore, remappedId, workspaceKinds, type WorkspaceKind } from "./backup";
+import { linkedTitles, normalizeTitle } from "@shared/wiki-links";
+import {
+  inDateRange,
+  pageOf,
+  toPage,
+  type ActivityListOptions,
+  type ConversationListOptions,
+  type GoalListOptions,
+  type ListOptions,
+  type NoteListOptions,
+  type Page,
+} from "./lists";
+import { observeStorage } from "./changes";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+function withoutUserId<T extends { userId: string }>(records: T[]): Omit<T, "userId">[] {
+  return records.map(({ userId: _userId, ...record }) => record);
+}
+
+// Whether an update changes the title, content or tags, the parts of a note
+// its revisions keep
+function revisesNote(note: Note, data: Partial<Note>): boolean {
+  return (
+    (data.title !== undefined && data.title !== note.title) ||
+    (data.content !== undefined && data.content !== note.content) ||
+    (data.tags !== undefined && (data.tags ?? []).join("\n") !== (note.tags ?? []).join("\n"))
+  );
+}
+
+// The version of a note that an update replaces
+function revisionOf(note: Note) {
+  return {
+    userId: note.userId,
+    noteId: note.id,
+    title: note.title,
+    content: note.content,
+    tags: note.tags,
+    savedAt: note.updatedAt,
+  };
+}
+
+// note_links rows for the [[links]] in each note's content
+function noteLinkRows(linkedNotes: Note[]) {
+  return linkedNotes.flatMap((note) =>
+    linkedTitles(note.content).map((targetTitle) => ({ userId: note.userId, sourceId: note.id, targetTitle }))
+  );
+}
+
+// Splits rows to insert so each statement stays well under Postgres' bind
+// parameter limit
+function batches<T>(items: T[], size = 500): T[][] {
+  return Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+}
 
+// Every method except the user lookups and jobs is scoped to `userId`: records
+// owned by another user behave exactly as if they did not exist. The list* methods
+// sort, filter and page, see server/lists.ts.
 export interface IStorage {
+  sessionStore: session.Store;
+
+  // Users
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<User>): Promise<User | undefined>;
+  getUsers(): Promise<User[]>; // for background jobs
+
   // Conversations
-  getConversations(): Promise<Conversation[]>;
-  getConversation(id: string): Promise<Conversation | undefined>;
-  createConversation(conversation: InsertConversation): Promise<Conversation>;
-  updateConversation(id: string, data: Partial<Conversation>): Promise<Conversation | undefined>;
-  deleteConversation(id: string): Promise<boolean>;
+  getConversations(userId: string): Promise<Conversation[]>;
+  listConversations(userId: string, options: ConversationListOptions): Promise<Page<Conversation>>;
+  getConversation(userId: string, id: string): Promise<Conversation | undefined>;
+  createConversation(userId: string, conversation: InsertConversation): Promise<Conversation>;
+  updateConversation(userId: string, id: string, data: Partial<Conversation>): Promise<Conversation | undefined>;
+  deleteConversation(userId: string, id: string): Promise<boolean>; // also deletes its messages
+  // Adds a conversation with its messages, all or nothing. The rows are
+  // complete, ids included, as built by server/conversations.ts.
+  importConversation(userId: string, conversation: Conversation, messages: Message[]): Promise<Conversation>;
 
   // Messages
-  getMessages(conversationId: string): Promise<Message[]>;
-  getMessage(id: string): Promise<Message | undefined>;
-  createMessage(message: InsertMessage): Promise<Message>;
-  deleteMessage(id: string): Promise<boolean>;
+  getMessages(userId: string, conversationId: string): Promise<Message[]>;
+  getAllMessages(userId: string): Promise<Message[]>; // across every conversation, oldest first
+  getMessage(userId: string, id: string): Promise<Message | undefined>;
+  createMessage(userId: string, message: InsertMessage): Promise<Message>;
+  updateMessage(userId: string, id: string, data: Partial<Message>): Promise<Message | undefined>;
+  deleteMessage(userId: string, id: string): Promise<boolean>;
 
   // Goals
-  getGoals(): Promise<Goal[]>;
-  getGoal(id: string): Promise<Goal | undefined>;
-  createGoal(goal: InsertGoal): Promise<Goal>;
-  updateGoal(id: string, data: Partial<Goal>): Promise<Goal | undefined>;
-  deleteGoal(id: string): Promise<boolean>;
+  getGoals(userId: string): Promise<Goal[]>;
+  listGoals(userId: string, options: GoalListOptions): Promise<Page<Goal>>;
+  getGoal(userId: string, id: string): Promise<Goal | undefined>;
+  createGoal(userId: string, goal: InsertGoal): Promise<Goal>;
+  updateGoal(userId: string, id: string, data: Partial<Goal>): Promise<Goal | undefined>;
+  deleteGoal(userId: string, id: string): Promise<boolean>; // also deletes its tasks and check-ins
+
+  // Goal tasks
+  getGoalTasks(userId: string, goalId: string): Promise<GoalTask[]>;
+  getGoalTask(userId: string, id: string): Promise<GoalTask | undefined>;
+  createGoalTask(userId: string, goalId: string, task: InsertGoalTask): Promise<GoalTask>;
+  updateGoalTask(userId: string, id: string, data: Partial<GoalTask>): Promise<GoalTask | undefined>;
+  deleteGoalTask(userId: string, id: string): Promise<boolean>;
+
+  // Habit check-ins, one per habit per local day
+  getHabitCheckins(userId: string, goalId: string): Promise<HabitCheckin[]>; // oldest first
+  createHabitCheckin(userId: string, goalId: string, date: string): Promise<HabitCheckin>; // idempotent
+  deleteHabitCheckin(userId: string, goalId: string, date: string): Promise<boolean>;
 
   // Notes
-  getNotes(): Promise<Note[]>;
-  getNote(id: string): Promise<Note | undefined>;
-  createNote(note: InsertNote): Promise<Note>;
-  updateNote(id: string, data: Partial<Note>): Promise<Note | undefined>;
-  deleteNote(id: string): Promise<boolean>;
+  getNotes(userId: string): Promise<Note[]>;
+  listNotes(userId: string, options: NoteListOptions): Promise<Page<Note>>;
+  getNote(userId: string, id: string): Promise<Note | undefined>;
+  createNote(userId: string, note: InsertNote): Promise<Note>;
+  updateNote(userId: string, id: string, data: Partial<Note>): Promise<Note | undefined>; // updatedAt defaults to now
+  deleteNote(userId: string, id: string): Promise<boolean>; // also deletes its revisions
+  getBacklinks(userId: string, noteId: string): Promise<Note[]>; // notes with a [[link]] to its title, recently updated first
+
+  // Note revisions, stored by updateNote
+  getNoteRevisions(userId: string, noteId: string): Promise<NoteRevision[]>; // newest first
+  getNoteRevision(userId: string, noteId: string, revision: number): Promise<NoteRevision | undefined>;
 
   // Activities
-  getActivities(): Promise<Activity[]>;
-  createActivity(activity: InsertActivity): Promise<Activity>;
+  getActivities(userId: string): Promise<Activity[]>;
+  listActivities(userId: string, options: ActivityListOptions): Promise<Page<Activity>>;
+  createActivity(userId: string, activity: InsertActivity): Promise<Activity>;
+  deleteActivitiesBefore(userId: string, before: Date): Promise<number>; // returns how many
+
+  // Summaries, see server/summaries.ts
+  getSummaries(userId: string, period?: SummaryPeriod): Promise<Summary[]>; // latest period first
+  getSummary(userId: string, period: SummaryPeriod, start: string): Promise<Summary | undefined>;
+  saveSummary(userId: string, summary: InsertSummary): Promise<Summary>; // replaces the period's summary
+
+  // Background jobs, see server/jobs.ts
+  getJobs(): Promise<Job[]>; // by name
+  getJob(id: string): Promise<Job | undefined>;
+  getDueJobs(now: Date): Promise<Job[]>; // enabled, with nextRunAt at or before now, soonest first
+  createJob(job: NewJob): Promise<Job>;
+  updateJob(id: string, data: Partial<Job>): Promise<Job | undefined>; // updatedAt defaults to now
+  deleteJob(id: string): Promise<boolean>;
+
+  // Search
+  search(userId: string, query: string, options?: SearchOptions): Promise<SearchResult[]>; // best first
+
+  // Backup and restore, see server/backup.ts
+  getWorkspace(userId: string): Promise<WorkspaceData>;
+  restoreWorkspace(userId: string, data: WorkspaceData, mode: RestoreMode): Promise<RestoreResult>; // all or nothing
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<string, User>;
   private conversations: Map<string, Conversation>;
   private messages: Map<string, Message>;
   private goals: Map<string, Goal>;
+  private goalTasks: Map<string, GoalTask>;
+  private habitCheckins: Map<string, HabitCheckin>;
   private notes: Map<string, Note>;
+  private noteRevisions: Map<string, NoteRevision>;
   private activities: Map<string, Activity>;
+  private summaries = new Map<string, Summary>();
+  private jobs = new Map<string, Job>();
+  private searchIndex = new SearchIndex();
+  private noteLinks = new Map<string, string[]>(); // note id -> normalized titles it links to
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions every 24h
+    });
+    this.users = new Map();
     this.conversations = new Map();
     this.messages = new Map();
     this.goals = new Map();
+    this.goalTasks = new Map();
+    this.habitCheckins = new Map();
     this.notes = new Map();
+    this.noteRevisions = new Map();
     this.activities = new Map();
   }
 
+  // Returns the record only if it belongs to the user
+  private owned<T extends { userId: string }>(map: Map<string, T>, userId: string, id: string): T | undefined {
+    const record = map.get(id);
+    return record?.userId === userId ? record : undefined;
+  }
+
+  private ownedValues<T extends { userId: string }>(map: Map<string, T>, userId: string): T[] {
+    return Array.from(map.values()).filter((record) => record.userId === userId);
+  }
+
+  // Searchable records are re-indexed whenever they are written
+  private indexNote(note: Note) {
+    this.noteLinks.set(note.id, linkedTitles(note.content));
+    this.searchIndex.put({
+      userId: note.userId,
+      type: "note",
+      id: note.id,
+      title: note.title,
+      body: note.content,
+      keywords: note.tags?.join(" "),
+    });
+  }
+
+  private indexGoal(goal: Goal) {
+    this.searchIndex.put({
+      userId: goal.userId,
+      type: "goal",
+      id: goal.id,
+      title: goal.title,
+      body: goal.description ?? "",
+      keywords: goal.category,
+    });
+  }
+
+  private indexMessage(message: Message) {
+    this.searchIndex.put({
+      userId: message.userId,
+      type: "message",
+      id: message.id,
+      title: "",
+      body: message.content,
+    });
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((u) => u.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = randomUUID();
+    const user: User = {
+      ...insertUser,
+      id,
+      timezone: insertUser.timezone ?? "UTC",
+      createdAt: new Date(),
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user, ...data, id };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   // Conversations
-  async getConversations(): Promise<Conversation[]> {
-    return Array.from(this.conversations.values()).sort(
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return this.ownedValues(this.conversations, userId).sort(
       (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
     );
   }
 
-  async getConversation(id: string): Promise<Conversation | undefined> {
-    return this.conversations.get(id);
+  async listConversations(userId: string, options: ConversationListOptions): Promise<Page<Conversation>> {
+    const matching = this.ownedValues(this.conversations, userId).filter((c) => inDateRange(c.createdAt, options));
+    return pageOf(matching, options);
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | undefined> {
+    return this.owned(this.conversations, userId, id);
   }
 
-  async createConversation(insertConversation: InsertConversation): Promise<Conversation> {
+  async createConversation(userId: string, insertConversation: InsertConversation): Promise<Conversation> {
     const id = randomUUID();
     const now = new Date();
     const conversation: Conversation = {
       ...insertConversation,
       id,
+      userId,
+      activeMessageId: null,
       createdAt: now,
       updatedAt: now,
     };
@@ -84,154 +345,1257 @@ export class MemStorage implements IStorage {
     return conversation;
   }
 
-  async updateConversation(id: string, data: Partial<Conversation>): Promise<Conversation | undefined> {
-    const conversation = this.conversations.get(id);
+  async updateConversation(userId: string, id: string, data: Partial<Conversation>): Promise<Conversation | undefined> {
+    const conversation = this.owned(this.conversations, userId, id);
     if (!conversation) return undefined;
 
     const updated: Conversation = {
       ...conversation,
       ...data,
       id: conversation.id,
+      userId,
       updatedAt: new Date(),
     };
     this.conversations.set(id, updated);
     return updated;
   }
 
-  async deleteConversation(id: string): Promise<boolean> {
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    if (!this.owned(this.conversations, userId, id)) return false;
+    this.messages.forEach((message, messageId) => {
+      if (message.conversationId !== id) return;
+      this.searchIndex.remove("message", messageId);
+      this.messages.delete(messageId);
+    });
     return this.conversations.delete(id);
   }
 
+  async importConversation(userId: string, conversation: Conversation, messages: Message[]): Promise<Conversation> {
+    const imported = { ...conversation, userId };
+    this.conversations.set(imported.id, imported);
+    messages.forEach((message) => {
+      const row = { ...message, userId, conversationId: imported.id };
+      this.messages.set(row.id, row);
+      this.indexMessage(row);
+    });
+    return imported;
+  }
+
   // Messages
-  async getMessages(conversationId: string): Promise<Message[]> {
-    return Array.from(this.messages.values())
+  async getMessages(userId: string, conversationId: string): Promise<Message[]> {
+    return this.ownedValues(this.messages, userId)
       .filter((m) => m.conversationId === conversationId)
       .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
   }
 
-  async getMessage(id: string): Promise<Message | undefined> {
-    return this.messages.get(id);
+  async getAllMessages(userId: string): Promise<Message[]> {
+    return this.ownedValues(this.messages, userId).sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }
+
+  async getMessage(userId: string, id: string): Promise<Message | undefined> {
+    return this.owned(this.messages, userId, id);
   }
 
-  async createMessage(insertMessage: InsertMessage): Promise<Message> {
+  async createMessage(userId: string, insertMessage: InsertMessage): Promise<Message> {
     const id = randomUUID();
     const message: Message = {
       ...insertMessage,
       id,
+      userId,
+      parentId: insertMessage.parentId ?? null,
+      actions: insertMessage.actions ?? null,
+      citations: insertMessage.citations ?? null,
       createdAt: new Date(),
     };
     this.messages.set(id, message);
+    this.indexMessage(message);
     return message;
   }
 
-  async deleteMessage(id: string): Promise<boolean> {
+  async updateMessage(userId: string, id: string, data: Partial<Message>): Promise<Message | undefined> {
+    const message = this.owned(this.messages, userId, id);
+    if (!message) return undefined;
+
+    const updated: Message = {
+      ...message,
+      ...data,
+      id: message.id,
+      userId,
+    };
+    this.messages.set(id, updated);
+    this.indexMessage(updated);
+    return updated;
+  }
+
+  async deleteMessage(userId: string, id: string): Promise<boolean> {
+    if (!this.owned(this.messages, userId, id)) return false;
+    this.searchIndex.remove("message", id);
     return this.messages.delete(id);
   }
 
   // Goals
-  async getGoals(): Promise<Goal[]> {
-    return Array.from(this.goals.values()).sort(
+  async getGoals(userId: string): Promise<Goal[]> {
+    return this.ownedValues(this.goals, userId).sort(
       (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
   }
 
-  async getGoal(id: string): Promise<Goal | undefined> {
-    return this.goals.get(id);
+  async listGoals(userId: string, options: GoalListOptions): Promise<Page<Goal>> {
+    const matching = this.ownedValues(this.goals, userId).filter(
+      (goal) =>
+        inDateRange(goal.createdAt, options) &&
+        (options.category === undefined || goal.category === options.category) &&
+        (options.completed === undefined || goal.completed === options.completed)
+    );
+    return pageOf(matching, options);
+  }
+
+  async getGoal(userId: string, id: string): Promise<Goal | undefined> {
+    return this.owned(this.goals, userId, id);
   }
 
-  async createGoal(insertGoal: InsertGoal): Promise<Goal> {
+  async createGoal(userId: string, insertGoal: InsertGoal): Promise<Goal> {
     const id = randomUUID();
     const now = new Date();
     const goal: Goal = {
       ...insertGoal,
       id,
+      userId,
+      description: insertGoal.description ?? null,
+      targetDate: insertGoal.targetDate ?? null,
       progress: insertGoal.progress ?? 0,
+      progressMode: insertGoal.progressMode ?? "manual",
+      kind: insertGoal.kind ?? "goal",
+      recurrence: insertGoal.recurrence ?? null,
       completed: insertGoal.completed ?? false,
       createdAt: now,
       updatedAt: now,
     };
     this.goals.set(id, goal);
+    this.indexGoal(goal);
     return goal;
   }
 
-  async updateGoal(id: string, data: Partial<Goal>): Promise<Goal | undefined> {
-    const goal = this.goals.get(id);
+  async updateGoal(userId: string, id: string, data: Partial<Goal>): Promise<Goal | undefined> {
+    const goal = this.owned(this.goals, userId, id);
     if (!goal) return undefined;
 
     const updated: Goal = {
       ...goal,
       ...data,
       id: goal.id,
+      userId,
       updatedAt: new Date(),
     };
     this.goals.set(id, updated);
+    this.indexGoal(updated);
     return updated;
   }
 
-  async deleteGoal(id: string): Promise<boolean> {
+  async deleteGoal(userId: string, id: string): Promise<boolean> {
+    if (!this.owned(this.goals, userId, id)) return false;
+    this.goalTasks.forEach((task, taskId) => {
+      if (task.goalId === id) this.goalTasks.delete(taskId);
+    });
+    this.habitCheckins.forEach((checkin, checkinId) => {
+      if (checkin.goalId === id) this.habitCheckins.delete(checkinId);
+    });
+    this.searchIndex.remove("goal", id);
     return this.goals.delete(id);
   }
 
+  // Goal tasks
+  async getGoalTasks(userId: string, goalId: string): Promise<GoalTask[]> {
+    return this.ownedValues(this.goalTasks, userId)
+      .filter((t) => t.goalId === goalId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getGoalTask(userId: string, id: string): Promise<GoalTask | undefined> {
+    return this.owned(this.goalTasks, userId, id);
+  }
+
+  async createGoalTask(userId: string, goalId: string, insertTask: InsertGoalTask): Promise<GoalTask> {
+    const id = randomUUID();
+    const now = new Date();
+    const task: GoalTask = {
+      ...insertTask,
+      id,
+      userId,
+      goalId,
+      weight: insertTask.weight ?? 1,
+      completed: insertTask.completed ?? false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.goalTasks.set(id, task);
+    return task;
+  }
+
+  async updateGoalTask(userId: string, id: string, data: Partial<GoalTask>): Promise<GoalTask | undefined> {
+    const task = this.owned(this.goalTasks, userId, id);
+    if (!task) return undefined;
+
+    const updated: GoalTask = {
+      ...task,
+      ...data,
+      id: task.id,
+      userId,
+      goalId: task.goalId,
+      updatedAt: new Date(),
+    };
+    this.goalTasks.set(id, updated);
+    return updated;
+  }
+
+  async deleteGoalTask(userId: string, id: string): Promise<boolean> {
+    if (!this.owned(this.goalTasks, userId, id)) return false;
+    return this.goalTasks.delete(id);
+  }
+
+  // Habit check-ins
+  async getHabitCheckins(userId: string, goalId: string): Promise<HabitCheckin[]> {
+    return this.ownedValues(this.habitCheckins, userId)
+      .filter((c) => c.goalId === goalId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createHabitCheckin(userId: string, goalId: string, date: string): Promise<HabitCheckin> {
+    const existing = this.ownedValues(this.habitCheckins, userId).find(
+      (c) => c.goalId === goalId && c.date === date
+    );
+    if (existing) return existing;
+
+    const id = randomUUID();
+    const checkin: HabitCheckin = { id, userId, goalId, date, createdAt: new Date() };
+    this.habitCheckins.set(id, checkin);
+    return checkin;
+  }
+
+  async deleteHabitCheckin(userId: string, goalId: string, date: string): Promise<boolean> {
+    const checkin = this.ownedValues(this.habitCheckins, userId).find(
+      (c) => c.goalId === goalId && c.date === date
+    );
+    return checkin ? this.habitCheckins.delete(checkin.id) : false;
+  }
+
   // Notes
-  async getNotes(): Promise<Note[]> {
-    return Array.from(this.notes.values()).sort(
+  async getNotes(userId: string): Promise<Note[]> {
+    return this.ownedValues(this.notes, userId).sort(
       (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
   }
 
-  async getNote(id: string): Promise<Note | undefined> {
-    return this.notes.get(id);
+  async listNotes(userId: string, options: NoteListOptions): Promise<Page<Note>> {
+    const matching = this.ownedValues(this.notes, userId).filter(
+      (note) =>
+        inDateRange(note.createdAt, options) && (options.tag === undefined || (note.tags ?? []).includes(options.tag))
+    );
+    return pageOf(matching, options);
+  }
+
+  async getNote(userId: string, id: string): Promise<Note | undefined> {
+    return this.owned(this.notes, userId, id);
   }
 
-  async createNote(insertNote: InsertNote): Promise<Note> {
+  async createNote(userId: string, insertNote: InsertNote): Promise<Note> {
     const id = randomUUID();
     const now = new Date();
     const note: Note = {
       ...insertNote,
       id,
+      userId,
       tags: insertNote.tags || [],
       createdAt: now,
       updatedAt: now,
     };
     this.notes.set(id, note);
+    this.indexNote(note);
     return note;
   }
 
-  async updateNote(id: string, data: Partial<Note>): Promise<Note | undefined> {
-    const note = this.notes.get(id);
+  async updateNote(userId: string, id: string, data: Partial<Note>): Promise<Note | undefined> {
+    const note = this.owned(this.notes, userId, id);
     if (!note) return undefined;
 
+    if (revisesNote(note, data)) {
+      const revisions = await this.getNoteRevisions(userId, id);
+      const revision: NoteRevision = {
+        ...revisionOf(note),
+        id: randomUUID(),
+        revision: (revisions[0]?.revision ?? 0) + 1,
+        createdAt: new Date(),
+      };
+      this.noteRevisions.set(revision.id, revision);
+    }
+
     const updated: Note = {
       ...note,
       ...data,
       id: note.id,
-      updatedAt: new Date(),
+      userId,
+      updatedAt: data.updatedAt ?? new Date(),
     };
     this.notes.set(id, updated);
+    this.indexNote(updated);
     return updated;
   }
 
-  async deleteNote(id: string): Promise<boolean> {
+  async deleteNote(userId: string, id: string): Promise<boolean> {
+    if (!this.owned(this.notes, userId, id)) return false;
+    this.noteRevisions.forEach((revision, revisionId) => {
+      if (revision.noteId === id && revision.userId === userId) this.noteRevisions.delete(revisionId);
+    });
+    this.searchIndex.remove("note", id);
+    this.noteLinks.delete(id);
     return this.notes.delete(id);
   }
 
+  async getBacklinks(userId: string, noteId: string): Promise<Note[]> {
+    const note = this.owned(this.notes, userId, noteId);
+    if (!note) return [];
+
+    const title = normalizeTitle(note.title);
+    return this.ownedValues(this.notes, userId)
+      .filter((n) => n.id !== noteId && this.noteLinks.get(n.id)?.includes(title))
+      .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }
+
+  // Note revisions
+  async getNoteRevisions(userId: string, noteId: string): Promise<NoteRevision[]> {
+    return this.ownedValues(this.noteRevisions, userId)
+      .filter((r) => r.noteId === noteId)
+      .sort((a, b) => b.revision - a.revision);
+  }
+
+  async getNoteRevision(userId: string, noteId: string, revision: number): Promise<NoteRevision | undefined> {
+    return this.ownedValues(this.noteRevisions, userId).find((r) => r.noteId === noteId && r.revision === revision);
+  }
+
   // Activities
-  async getActivities(): Promise<Activity[]> {
-    return Array.from(this.activities.values()).sort(
+  async getActivities(userId: string): Promise<Activity[]> {
+    return this.ownedValues(this.activities, userId).sort(
       (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
   }
 
-  async createActivity(insertActivity: InsertActivity): Promise<Activity> {
+  async listActivities(userId: string, options: ActivityListOptions): Promise<Page<Activity>> {
+    const types = options.type;
+    const matching = this.ownedValues(this.activities, userId).filter(
+      (activity) => inDateRange(activity.createdAt, options) && (!types || types.includes(activity.type))
+    );
+    return pageOf(matching, options);
+  }
+
+  async createActivity(userId: string, insertActivity: InsertActivity): Promise<Activity> {
     const id = randomUUID();
     const activity: Activity = {
       ...insertActivity,
+      entityType: insertActivity.entityType ?? null,
+      entityId: insertActivity.entityId ?? null,
+      metadata: insertActivity.metadata ?? null,
       id,
+      userId,
       createdAt: new Date(),
     };
     this.activities.set(id, activity);
     return activity;
   }
+
+  async deleteActivitiesBefore(userId: string, before: Date): Promise<number> {
+    const old = this.ownedValues(this.activities, userId).filter((a) => new Date(a.createdAt) < before);
+    old.forEach((activity) => this.activities.delete(activity.id));
+    return old.length;
+  }
+
+  // Summaries
+  async getSummaries(userId: string, period?: SummaryPeriod): Promise<Summary[]> {
+    return this.ownedValues(this.summaries, userId)
+      .filter((summary) => !period || summary.period === period)
+      .sort((a, b) => b.start.localeCompare(a.start) || a.period.localeCompare(b.period));
+  }
+
+  async getSummary(userId: string, period: SummaryPeriod, start: string): Promise<Summary | undefined> {
+    return this.ownedValues(this.summaries, userId).find((s) => s.period === period && s.start === start);
+  }
+
+  async saveSummary(userId: string, insertSummary: InsertSummary): Promise<Summary> {
+    const existing = await this.getSummary(userId, insertSummary.period, insertSummary.start);
+    const summary: Summary = {
+      ...insertSummary,
+      id: existing?.id ?? randomUUID(),
+      userId,
+      createdAt: new Date(),
+    };
+    this.summaries.set(summary.id, summary);
+    return summary;
+  }
+
+  // Jobs
+  async getJobs(): Promise<Job[]> {
+    return Array.from(this.jobs.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getDueJobs(now: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.enabled && job.nextRunAt && new Date(job.nextRunAt) <= now)
+      .sort((a, b) => new Date(a.nextRunAt!).getTime() - new Date(b.nextRunAt!).getTime());
+  }
+
+  async createJob(newJob: NewJob): Promise<Job> {
+    if (Array.from(this.jobs.values()).some((job) => job.name === newJob.name)) {
+      throw new Error(`A job named ${newJob.name} already exists`);
+    }
+    const now = new Date();
+    const job: Job = {
+      ...newJob,
+      id: randomUUID(),
+      status: "scheduled",
+      attempts: 0,
+      lastRunAt: null,
+      lastError: null,
+      lastResult: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async updateJob(id: string, data: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updated: Job = { ...job, updatedAt: new Date(), ...data, id, createdAt: job.createdAt };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    return this.jobs.delete(id);
+  }
+
+  // Backup and restore
+  private workspaceMaps(): Record<WorkspaceKind, Map<string, { userId: string }>> {
+    return {
+      conversations: this.conversations,
+      messages: this.messages,
+      goals: this.goals,
+      goalTasks: this.goalTasks,
+      habitCheckins: this.habitCheckins,
+      notes: this.notes,
+      noteRevisions: this.noteRevisions,
+      activities: this.activities,
+    };
+  }
+
+  async getWorkspace(userId: string): Promise<WorkspaceData> {
+    return {
+      conversations: withoutUserId(this.ownedValues(this.conversations, userId)),
+      messages: withoutUserId(this.ownedValues(this.messages, userId)),
+      goals: withoutUserId(this.ownedValues(this.goals, userId)),
+      goalTasks: withoutUserId(this.ownedValues(this.goalTasks, userId)),
+      habitCheckins: withoutUserId(this.ownedValues(this.habitCheckins, userId)),
+      notes: withoutUserId(this.ownedValues(this.notes, userId)),
+      noteRevisions: withoutUserId(this.ownedValues(this.noteRevisions, userId)),
+      activities: withoutUserId(this.ownedValues(this.activities, userId)),
+    };
+  }
+
+  async restoreWorkspace(userId: string, data: WorkspaceData, mode: RestoreMode): Promise<RestoreResult> {
+    const maps = this.workspaceMaps();
+    if (mode === "replace") {
+      this.ownedValues(this.messages, userId).forEach((m) => this.searchIndex.remove("message", m.id));
+      this.ownedValues(this.goals, userId).forEach((g) => this.searchIndex.remove("goal", g.id));
+      this.ownedValues(this.notes, userId).forEach((n) => {
+        this.searchIndex.remove("note", n.id);
+        this.noteLinks.delete(n.id);
+      });
+      workspaceKinds.forEach((kind) =>
+        maps[kind].forEach((record, id) => {
+          if (record.userId === userId) maps[kind].delete(id);
+        })
+      );
+      // Reviews describe the workspace being replaced
+      this.ownedValues(this.summaries, userId).forEach((summary) => this.summaries.delete(summary.id));
+    }
+
+    const { rows, result } = planRestore(userId, data, mode, {
+      owner: (kind, id) => maps[kind].get(id)?.userId,
+      hasCheckin: (goalId, date) =>
+        this.ownedValues(this.habitCheckins, userId).some((c) => c.goalId === goalId && c.date === date),
+      hasRevision: (noteId, revision) =>
+        this.ownedValues(this.noteRevisions, userId).some((r) => r.noteId === noteId && r.revision === revision),
+    });
+
+    rows.conversations.forEach((c) => this.conversations.set(c.id, c));
+    rows.messages.forEach((m) => {
+      this.messages.set(m.id, m);
+      this.indexMessage(m);
+    });
+    rows.goals.forEach((g) => {
+      this.goals.set(g.id, g);
+      this.indexGoal(g);
+    });
+    rows.goalTasks.forEach((t) => this.goalTasks.set(t.id, t));
+    rows.habitCheckins.forEach((c) => this.habitCheckins.set(c.id, c));
+    rows.notes.forEach((n) => {
+      this.notes.set(n.id, n);
+      this.indexNote(n);
+    });
+    rows.noteRevisions.forEach((r) => this.noteRevisions.set(r.id, r));
+    rows.activities.forEach((a) => this.activities.set(a.id, a));
+    return result;
+  }
+
+  // Search
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const terms = tokenize(query);
+    const results: SearchResult[] = [];
+
+    for (const { document, score } of this.searchIndex.search(userId, query, options.types)) {
+      if (results.length >= limit) break;
+      const snippet = highlight(document.body, terms);
+
+      if (document.type === "message") {
+        const message = this.messages.get(document.id)!;
+        const conversation = this.conversations.get(message.conversationId)!;
+        results.push({
+          type: "message",
+          id: message.id,
+          conversationId: conversation.id,
+          title: conversation.title,
+          snippet,
+          score,
+          createdAt: message.createdAt,
+        });
+      } else {
+        const record = document.type === "note" ? this.notes.get(document.id)! : this.goals.get(document.id)!;
+        results.push({ type: document.type, id: record.id, title: record.title, snippet, score, createdAt: record.createdAt });
+      }
+    }
+    return results;
+  }
+}
+
+export class DbStorage implements IStorage {
+  constructor(
+    private db: Database,
+    public sessionStore: session.Store,
+  ) {}
+
+  // A page of a list by keyset: rows after the cursor's position, in sort
+  // order with ids breaking ties, fetching one extra to tell whether more
+  // follow. Timestamps are compared to the millisecond, as cursors keep them.
+  private async listPage<T extends { id: string }>(
+    table: typeof conversations | typeof goals | typeof notes | typeof activities,
+    filters: SQL[],
+    options: ListOptions
+  ): Promise<Page<T>> {
+    const column = table[options.sort as keyof typeof table] as AnyColumn;
+    const isTime = column.dataType === "date";
+    const sortKey = isTime ? sql`date_trunc('milliseconds', ${column})` : sql`${column}`;
+    const direction = options.order === "asc" ? asc : desc;
+    const filtered = [...filters];
+    if (options.from) filtered.push(gte(table.createdAt, options.from));
+    if (options.to) filtered.push(lt(table.createdAt, options.to));
+
+    const positioned = [...filtered];
+    if (options.after) {
+      const { value, id } = options.after;
+      const beyond = options.order === "asc" ? gt : lt;
+      const sortValue = isTime ? sql`${new Date(value).toISOString()}::timestamp` : value;
+      positioned.push(or(beyond(sortKey, sortValue), and(eq(sortKey, sortValue), beyond(table.id, id)))!);
+    }
+
+    const query = this.db
+      .select()
+      .from(table as typeof notes)
+      .where(and(...positioned))
+      .orderBy(direction(sortKey), direction(table.id))
+      .$dynamic();
+    const [rows, [{ total }]] = await Promise.all([
+      options.limit ? query.limit(options.limit + 1) : query,
+      this.db
+        .select({ total: sql<number>`count(*)`.mapWith(Number) })
+        .from(table)
+        .where(and(...filtered)),
+    ]);
+    return toPage(rows as unknown as T[], total, options);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: string, data: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...rest } = data;
+    const [user] = await this.db.update(users).set(rest).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  // Conversations
+  async getConversations(userId: string): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.userId, userId))
+      .orderBy(desc(conversations.updatedAt));
+  }
+
+  async listConversations(userId: string, options: ConversationListOptions): Promise<Page<Conversation>> {
+    return this.listPage(conversations, [eq(conversations.userId, userId)], options);
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)));
+    return conversation;
+  }
+
+  async createConversation(userId: string, insertConversation: InsertConversation): Promise<Conversation> {
+    const [conversation] = await this.db
+      .insert(conversations)
+      .values({ ...insertConversation, userId })
+      .returning();
+    return conversation;
+  }
+
+  async updateConversation(userId: string, id: string, data: Partial<Conversation>): Promise<Conversation | undefined> {
+    const { id: _id, userId: _userId, ...rest } = data;
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ ...rest, updatedAt: new Date() })
+      .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+      .returning();
+    return conversation;
+  }
+
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(conversations)
+        .where(and(eq(conversations.id, id), eq(conversations.userId, userId)))
+        .returning({ id: conversations.id });
+      if (deleted.length === 0) return false;
+
+      await tx.delete(messages).where(and(eq(messages.conversationId, id), eq(messages.userId, userId)));
+      return true;
+    });
+  }
+
+  async importConversation(userId: string, conversation: Conversation, rows: Message[]): Promise<Conversation> {
+    return this.db.transaction(async (tx) => {
+      const [imported] = await tx
+        .insert(conversations)
+        .values({ ...conversation, userId })
+        .returning();
+      for (const batch of batches(rows)) {
+        await tx.insert(messages).values(batch.map((message) => ({ ...message, userId, conversationId: imported.id })));
+      }
+      return imported;
+    });
+  }
+
+  // Messages
+  async getMessages(userId: string, conversationId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.userId, userId)))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async getAllMessages(userId: string): Promise<Message[]> {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.userId, userId))
+      .orderBy(asc(messages.createdAt));
+  }
+
+  async getMessage(userId: string, id: string): Promise<Message | undefined> {
+    const [message] = await this.db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.id, id), eq(messages.userId, userId)));
+    return message;
+  }
+
+  async createMessage(userId: string, insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await this.db
+      .insert(messages)
+      .values({ ...insertMessage, userId })
+      .returning();
+    return message;
+  }
+
+  async updateMessage(userId: string, id: string, data: Partial<Message>): Promise<Message | undefined> {
+    const { id: _id, userId: _userId, ...rest } = data;
+    const [message] = await this.db
+      .update(messages)
+      .set(rest)
+      .where(and(eq(messages.id, id), eq(messages.userId, userId)))
+      .returning();
+    return message;
+  }
+
+  async deleteMessage(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(messages)
+      .where(and(eq(messages.id, id), eq(messages.userId, userId)))
+      .returning({ id: messages.id });
+    return deleted.length > 0;
+  }
+
+  // Goals
+  async getGoals(userId: string): Promise<Goal[]> {
+    return this.db
+      .select()
+      .from(goals)
+      .where(eq(goals.userId, userId))
+      .orderBy(desc(goals.createdAt));
+  }
+
+  async listGoals(userId: string, options: GoalListOptions): Promise<Page<Goal>> {
+    const filters = [eq(goals.userId, userId)];
+    if (options.category !== undefined) filters.push(eq(goals.category, options.category));
+    if (options.completed !== undefined) filters.push(eq(goals.completed, options.completed));
+    return this.listPage(goals, filters, options);
+  }
+
+  async getGoal(userId: string, id: string): Promise<Goal | undefined> {
+    const [goal] = await this.db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return goal;
+  }
+
+  async createGoal(userId: string, insertGoal: InsertGoal): Promise<Goal> {
+    const [goal] = await this.db
+      .insert(goals)
+      .values({ ...insertGoal, userId })
+      .returning();
+    return goal;
+  }
+
+  async updateGoal(userId: string, id: string, data: Partial<Goal>): Promise<Goal | undefined> {
+    const { id: _id, userId: _userId, ...rest } = data;
+    const [goal] = await this.db
+      .update(goals)
+      .set({ ...rest, updatedAt: new Date() })
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+      .returning();
+    return goal;
+  }
+
+  async deleteGoal(userId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(goals)
+        .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+        .returning({ id: goals.id });
+      if (deleted.length === 0) return false;
+
+      await tx.delete(goalTasks).where(and(eq(goalTasks.goalId, id), eq(goalTasks.userId, userId)));
+      await tx.delete(habitCheckins).where(and(eq(habitCheckins.goalId, id), eq(habitCheckins.userId, userId)));
+      return true;
+    });
+  }
+
+  // Goal tasks
+  async getGoalTasks(userId: string, goalId: string): Promise<GoalTask[]> {
+    return this.db
+      .select()
+      .from(goalTasks)
+      .where(and(eq(goalTasks.goalId, goalId), eq(goalTasks.userId, userId)))
+      .orderBy(asc(goalTasks.createdAt));
+  }
+
+  async getGoalTask(userId: string, id: string): Promise<GoalTask | undefined> {
+    const [task] = await this.db
+      .select()
+      .from(goalTasks)
+      .where(and(eq(goalTasks.id, id), eq(goalTasks.userId, userId)));
+    return task;
+  }
+
+  async createGoalTask(userId: string, goalId: string, insertTask: InsertGoalTask): Promise<GoalTask> {
+    const [task] = await this.db
+      .insert(goalTasks)
+      .values({ ...insertTask, userId, goalId })
+      .returning();
+    return task;
+  }
+
+  async updateGoalTask(userId: string, id: string, data: Partial<GoalTask>): Promise<GoalTask | undefined> {
+    const { id: _id, userId: _userId, goalId: _goalId, ...rest } = data;
+    const [task] = await this.db
+      .update(goalTasks)
+      .set({ ...rest, updatedAt: new Date() })
+      .where(and(eq(goalTasks.id, id), eq(goalTasks.userId, userId)))
+      .returning();
+    return task;
+  }
+
+  async deleteGoalTask(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(goalTasks)
+      .where(and(eq(goalTasks.id, id), eq(goalTasks.userId, userId)))
+      .returning({ id: goalTasks.id });
+    return deleted.length > 0;
+  }
+
+  // Habit check-ins
+  async getHabitCheckins(userId: string, goalId: string): Promise<HabitCheckin[]> {
+    return this.db
+      .select()
+      .from(habitCheckins)
+      .where(and(eq(habitCheckins.goalId, goalId), eq(habitCheckins.userId, userId)))
+      .orderBy(asc(habitCheckins.date));
+  }
+
+  async createHabitCheckin(userId: string, goalId: string, date: string): Promise<HabitCheckin> {
+    await this.db
+      .insert(habitCheckins)
+      .values({ userId, goalId, date })
+      .onConflictDoNothing({ target: [habitCheckins.goalId, habitCheckins.date] });
+    const [checkin] = await this.db
+      .select()
+      .from(habitCheckins)
+      .where(
+        and(
+          eq(habitCheckins.goalId, goalId),
+          eq(habitCheckins.userId, userId),
+          eq(habitCheckins.date, date)
+        )
+      );
+    return checkin;
+  }
+
+  async deleteHabitCheckin(userId: string, goalId: string, date: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(habitCheckins)
+      .where(
+        and(
+          eq(habitCheckins.goalId, goalId),
+          eq(habitCheckins.userId, userId),
+          eq(habitCheckins.date, date)
+        )
+      )
+      .returning({ id: habitCheckins.id });
+    return deleted.length > 0;
+  }
+
+  // Notes
+  async getNotes(userId: string): Promise<Note[]> {
+    return this.db
+      .select()
+      .from(notes)
+      .where(eq(notes.userId, userId))
+      .orderBy(desc(notes.createdAt));
+  }
+
+  async listNotes(userId: string, options: NoteListOptions): Promise<Page<Note>> {
+    const filters = [eq(notes.userId, userId)];
+    if (options.tag !== undefined) filters.push(sql`${options.tag} = any(${notes.tags})`);
+    return this.listPage(notes, filters, options);
+  }
+
+  async getNote(userId: string, id: string): Promise<Note | undefined> {
+    const [note] = await this.db
+      .select()
+      .from(notes)
+      .where(and(eq(notes.id, id), eq(notes.userId, userId)));
+    return note;
+  }
+
+  // Replaces a note's note_links rows with the links now in its content
+  private async linkNote(note: Note, db: Database = this.db) {
+    await db.delete(noteLinks).where(eq(noteLinks.sourceId, note.id));
+    const rows = noteLinkRows([note]);
+    if (rows.length > 0) await db.insert(noteLinks).values(rows);
+  }
+
+  async createNote(userId: string, insertNote: InsertNote): Promise<Note> {
+    const [note] = await this.db
+      .insert(notes)
+      .values({ ...insertNote, userId, tags: insertNote.tags || [] })
+      .returning();
+    await this.linkNote(note);
+    return note;
+  }
+
+  // The note row stays locked until the revision is stored, so concurrent
+  // edits each keep the version they replace under the next number
+  async updateNote(userId: string, id: string, data: Partial<Note>): Promise<Note | undefined> {
+    const { id: _id, userId: _userId, ...rest } = data;
+    return this.db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(notes)
+        .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+        .for("update");
+      if (!before) return undefined;
+
+      const [note] = await tx
+        .update(notes)
+        .set({ ...rest, updatedAt: rest.updatedAt ?? new Date() })
+        .where(eq(notes.id, id))
+        .returning();
+
+      if (revisesNote(before, rest)) {
+        const [{ latest }] = await tx
+          .select({ latest: sql<number>`coalesce(max(${noteRevisions.revision}), 0)`.mapWith(Number) })
+          .from(noteRevisions)
+          .where(eq(noteRevisions.noteId, id));
+        await tx.insert(noteRevisions).values({ ...revisionOf(before), revision: latest + 1 });
+      }
+      if (rest.content !== undefined) await this.linkNote(note, tx);
+      return note;
+    });
+  }
+
+  async deleteNote(userId: string, id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(notes)
+        .where(and(eq(notes.id, id), eq(notes.userId, userId)))
+        .returning({ id: notes.id });
+      if (deleted.length === 0) return false;
+
+      await tx.delete(noteRevisions).where(and(eq(noteRevisions.noteId, id), eq(noteRevisions.userId, userId)));
+      await tx.delete(noteLinks).where(and(eq(noteLinks.sourceId, id), eq(noteLinks.userId, userId)));
+      return true;
+    });
+  }
+
+  async getBacklinks(userId: string, noteId: string): Promise<Note[]> {
+    const note = await this.getNote(userId, noteId);
+    if (!note) return [];
+
+    const rows = await this.db
+      .select({ note: notes })
+      .from(notes)
+      .innerJoin(noteLinks, eq(noteLinks.sourceId, notes.id))
+      .where(
+        and(
+          eq(noteLinks.userId, userId),
+          eq(noteLinks.targetTitle, normalizeTitle(note.title)),
+          ne(notes.id, noteId)
+        )
+      )
+      .orderBy(desc(notes.updatedAt));
+    return rows.map((row) => row.note);
+  }
+
+  // Note revisions
+  async getNoteRevisions(userId: string, noteId: string): Promise<NoteRevision[]> {
+    return this.db
+      .select()
+      .from(noteRevisions)
+      .where(and(eq(noteRevisions.noteId, noteId), eq(noteRevisions.userId, userId)))
+      .orderBy(desc(noteRevisions.revision));
+  }
+
+  async getNoteRevision(userId: string, noteId: string, revision: number): Promise<NoteRevision | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(noteRevisions)
+      .where(
+        and(
+          eq(noteRevisions.noteId, noteId),
+          eq(noteRevisions.revision, revision),
+          eq(noteRevisions.userId, userId)
+        )
+      );
+    return row;
+  }
+
+  // Activities
+  async getActivities(userId: string): Promise<Activity[]> {
+    return this.db
+      .select()
+      .from(activities)
+      .where(eq(activities.userId, userId))
+      .orderBy(desc(activities.createdAt));
+  }
+
+  async listActivities(userId: string, options: ActivityListOptions): Promise<Page<Activity>> {
+    const filters = [eq(activities.userId, userId)];
+    if (options.type) filters.push(options.type.length ? inArray(activities.type, options.type) : sql`false`);
+    return this.listPage(activities, filters, options);
+  }
+
+  async createActivity(userId: string, insertActivity: InsertActivity): Promise<Activity> {
+    const [activity] = await this.db
+      .insert(activities)
+      .values({ ...insertActivity, userId })
+      .returning();
+    return activity;
+  }
+
+  async deleteActivitiesBefore(userId: string, before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(activities)
+      .where(and(eq(activities.userId, userId), lt(activities.createdAt, before)))
+      .returning({ id: activities.id });
+    return deleted.length;
+  }
+
+  // Summaries
+  async getSummaries(userId: string, period?: SummaryPeriod): Promise<Summary[]> {
+    return await this.db
+      .select()
+      .from(summaries)
+      .where(and(eq(summaries.userId, userId), period ? eq(summaries.period, period) : undefined))
+      .orderBy(desc(summaries.start), asc(summaries.period));
+  }
+
+  async getSummary(userId: string, period: SummaryPeriod, start: string): Promise<Summary | undefined> {
+    const [summary] = await this.db
+      .select()
+      .from(summaries)
+      .where(and(eq(summaries.userId, userId), eq(summaries.period, period), eq(summaries.start, start)));
+    return summary;
+  }
+
+  async saveSummary(userId: string, insertSummary: InsertSummary): Promise<Summary> {
+    const [summary] = await this.db
+      .insert(summaries)
+      .values({ ...insertSummary, userId })
+      .onConflictDoUpdate({
+        target: [summaries.userId, summaries.period, summaries.start],
+        set: { ...insertSummary, createdAt: new Date() },
+      })
+      .returning();
+    return summary;
+  }
+
+  // Jobs
+  async getJobs(): Promise<Job[]> {
+    return this.db.select().from(jobs).orderBy(asc(jobs.name));
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getDueJobs(now: Date): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.enabled, true), lte(jobs.nextRunAt, now))) // null never compares as due
+      .orderBy(asc(jobs.nextRunAt));
+  }
+
+  async createJob(newJob: NewJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(newJob).returning();
+    return job;
+  }
+
+  async updateJob(id: string, data: Partial<Job>): Promise<Job | undefined> {
+    const { id: _id, createdAt: _createdAt, ...rest } = data;
+    const [job] = await this.db
+      .update(jobs)
+      .set({ updatedAt: new Date(), ...rest })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async deleteJob(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(jobs).where(eq(jobs.id, id)).returning({ id: jobs.id });
+    return deleted.length > 0;
+  }
+
+  // Backup and restore
+  async getWorkspace(userId: string): Promise<WorkspaceData> {
+    const [conversationRows, messageRows, goalRows, taskRows, checkinRows, noteRows, revisionRows, activityRows] =
+      await Promise.all([
+        this.db.select().from(conversations).where(eq(conversations.userId, userId)),
+        this.db.select().from(messages).where(eq(messages.userId, userId)).orderBy(asc(messages.createdAt)),
+        this.db.select().from(goals).where(eq(goals.userId, userId)),
+        this.db.select().from(goalTasks).where(eq(goalTasks.userId, userId)),
+        this.db.select().from(habitCheckins).where(eq(habitCheckins.userId, userId)),
+        this.db.select().from(notes).where(eq(notes.userId, userId)),
+        this.db.select().from(noteRevisions).where(eq(noteRevisions.userId, userId)),
+        this.db.select().from(activities).where(eq(activities.userId, userId)),
+      ]);
+    return {
+      conversations: withoutUserId(conversationRows),
+      messages: withoutUserId(messageRows),
+      goals: withoutUserId(goalRows),
+      goalTasks: withoutUserId(taskRows),
+      habitCheckins: withoutUserId(checkinRows),
+      notes: withoutUserId(noteRows),
+      noteRevisions: withoutUserId(revisionRows),
+      activities: withoutUserId(activityRows),
+    };
+  }
+
+  async restoreWorkspace(userId: string, data: WorkspaceData, mode: RestoreMode): Promise<RestoreResult> {
+    const tables = { conversations, messages, goals, goalTasks, habitCheckins, notes, noteRevisions, activities };
+    return this.db.transaction(async (tx) => {
+      if (mode === "replace") {
+        for (const kind of workspaceKinds) {
+          await tx.delete(tables[kind]).where(eq(tables[kind].userId, userId));
+        }
+        await tx.delete(noteLinks).where(eq(noteLinks.userId, userId));
+        await tx.delete(summaries).where(eq(summaries.userId, userId));
+      }
+
+      const owners = {} as Record<WorkspaceKind, Map<string, string>>;
+      for (const kind of workspaceKinds) {
+        owners[kind] = new Map();
+        const candidates = data[kind].flatMap((record) => [record.id, remappedId(userId, record.id)]);
+        for (const ids of batches(candidates)) {
+          const taken = await tx
+            .select({ id: tables[kind].id, userId: tables[kind].userId })
+            .from(tables[kind])
+            .where(inArray(tables[kind].id, ids));
+          taken.forEach((record) => owners[kind].set(record.id, record.userId));
+        }
+      }
+      const checkins = await tx
+        .select({ goalId: habitCheckins.goalId, date: habitCheckins.date })
+        .from(habitCheckins)
+        .where(eq(habitCheckins.userId, userId));
+      const checkinDays = new Set(checkins.map((c) => `${c.goalId} ${c.date}`));
+      const revisions = await tx
+        .select({ noteId: noteRevisions.noteId, revision: noteRevisions.revision })
+        .from(noteRevisions)
+        .where(eq(noteRevisions.userId, userId));
+      const revisionNumbers = new Set(revisions.map((r) => `${r.noteId} ${r.revision}`));
+
+      const { rows, result } = planRestore(userId, data, mode, {
+        owner: (kind, id) => owners[kind].get(id),
+        hasCheckin: (goalId, date) => checkinDays.has(`${goalId} ${date}`),
+        hasRevision: (noteId, revision) => revisionNumbers.has(`${noteId} ${revision}`),
+      });
+
+      for (const batch of batches(rows.conversations)) await tx.insert(conversations).values(batch);
+      for (const batch of batches(rows.messages)) await tx.insert(messages).values(batch);
+      for (const batch of batches(rows.goals)) await tx.insert(goals).values(batch);
+      for (const batch of batches(rows.goalTasks)) await tx.insert(goalTasks).values(batch);
+      for (const batch of batches(rows.habitCheckins)) await tx.insert(habitCheckins).values(batch);
+      for (const batch of batches(rows.notes)) await tx.insert(notes).values(batch);
+      for (const batch of batches(rows.noteRevisions)) await tx.insert(noteRevisions).values(batch);
+      for (const batch of batches(noteLinkRows(rows.notes))) await tx.insert(noteLinks).values(batch);
+      for (const batch of batches(rows.activities)) await tx.insert(activities).values(batch);
+      return result;
+    });
+  }
+
+  // Search
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const types = options.types ?? searchResultTypes;
+    const tsquery = sql`websearch_to_tsquery('english', ${query})`;
+    // Tags can't be part of the index expression (array_to_string isn't immutable)
+    const noteVector = noteSearchVector(notes);
+    const tagsVector = sql`setweight(to_tsvector('english', array_to_string(coalesce(${notes.tags}, '{}'), ' ')), 'A')`;
+    const headline = (text: unknown) =>
+      sql<string>`ts_headline('english', ${text}, ${tsquery}, ${HEADLINE_OPTIONS})`;
+    const rank = (vector: unknown) => sql<number>`ts_rank(${vector}, ${tsquery})`.mapWith(Number);
+    const noteScore = rank(sql`${noteVector} || ${tagsVector}`);
+    const goalScore = rank(goalSearchVector(goals));
+    const messageScore = rank(messageSearchVector(messages));
+
+    const [noteHits, goalHits, messageHits] = await Promise.all([
+      types.includes("note")
+        ? this.db
+            .select({
+              id: notes.id,
+              title: notes.title,
+              createdAt: notes.createdAt,
+              headline: headline(notes.content),
+              score: noteScore,
+            })
+            .from(notes)
+            .where(and(eq(notes.userId, userId), sql`(${noteVector} @@ ${tsquery} or ${tagsVector} @@ ${tsquery})`))
+            .orderBy(desc(noteScore))
+            .limit(limit)
+        : [],
+      types.includes("goal")
+        ? this.db
+            .select({
+              id: goals.id,
+              title: goals.title,
+              createdAt: goals.createdAt,
+              headline: headline(sql`coalesce(${goals.description}, '')`),
+              score: goalScore,
+            })
+            .from(goals)
+            .where(and(eq(goals.userId, userId), sql`${goalSearchVector(goals)} @@ ${tsquery}`))
+            .orderBy(desc(goalScore))
+            .limit(limit)
+        : [],
+      types.includes("message")
+        ? this.db
+            .select({
+              id: messages.id,
+              conversationId: messages.conversationId,
+              title: conversations.title,
+              createdAt: messages.createdAt,
+              headline: headline(messages.content),
+              score: messageScore,
+            })
+            .from(messages)
+            .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+            .where(and(eq(messages.userId, userId), sql`${messageSearchVector(messages)} @@ ${tsquery}`))
+            .orderBy(desc(messageScore))
+            .limit(limit)
+        : [],
+    ]);
+
+    const results: SearchResult[] = [
+      ...noteHits.map(({ headline, ...hit }) => ({ ...hit, type: "note" as const, snippet: parseHeadline(headline) })),
+      ...goalHits.map(({ headline, ...hit }) => ({ ...hit, type: "goal" as const, snippet: parseHeadline(headline) })),
+      ...messageHits.map(({ headline, ...hit }) => ({
+        ...hit,
+        type: "message" as const,
+        snippet: parseHeadline(headline),
+      })),
+    ];
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
+
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+function createStorage(): IStorage {
+  if (!process.env.DATABASE_URL) return new MemStorage();
+
+  const pool = createPool(process.env.DATABASE_URL);
+  return new DbStorage(createDb(pool), new PostgresSessionStore({ pool, createTableIfMissing: true }));
 }
 
-export const storage = new MemStorage();
+// Mutations publish change events for live updates; see server/changes.ts
+export const storage: IStorage = observeStorage(createStorage());
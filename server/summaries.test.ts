@@ -0,0 +1,64 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { User } from "@shared/schema";
+import { addDays, localDate } from "@shared/recurrence";
+import { setAIProvider } from "./ai";
+import { LocalProvider } from "./local-ai";
+import { MemStorage } from "./storage";
+import { getSummary } from "./summaries";
+
+// Reviews written by the local provider, which leaves the fallback review
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("stored reviews", () => {
+  let storage: MemStorage;
+  let user: User;
+
+  beforeEach(async () => {
+    setAIProvider(new LocalProvider());
+    storage = new MemStorage();
+    user = await storage.createUser({ username: "ada", password: "secret" });
+  });
+
+  test("are returned again while nothing has happened in the period", async () => {
+    const today = localDate(user.timezone);
+    await storage.createActivity(user.id, { type: "chat", description: "Chatted" });
+    const written = await getSummary(storage, user, "day", today);
+    await tick();
+
+    const again = await getSummary(storage, user, "day", today);
+    assert.equal(again.createdAt.getTime(), written.createdAt.getTime());
+  });
+
+  test("are written again once an activity lands in their period", async () => {
+    const today = localDate(user.timezone);
+    await storage.createActivity(user.id, { type: "chat", description: "Chatted" });
+    const written = await getSummary(storage, user, "day", today);
+    assert.equal(written.stats.activities, 1);
+    await tick();
+
+    await storage.createActivity(user.id, { type: "note_created", description: "Created note: Ideas" });
+    const week = await getSummary(storage, user, "week", today);
+    const day = await getSummary(storage, user, "day", today);
+    assert.equal(day.stats.activities, 2);
+    assert.ok(day.createdAt > written.createdAt);
+    assert.equal(week.stats.activities, 2);
+  });
+
+  test("of a period that was over when they were written are kept", async () => {
+    const yesterday = addDays(localDate(user.timezone), -1);
+    await storage.saveSummary(user.id, {
+      period: "day",
+      start: yesterday,
+      end: yesterday,
+      headline: "Kept",
+      highlights: [],
+      suggestions: [],
+      stats: { activities: 0, chats: 0, completions: 0, progress: 0, notes: 0, notesUpdated: 0, goalsActive: 0 },
+    });
+    await storage.createActivity(user.id, { type: "chat", description: "Chatted" });
+
+    assert.equal((await getSummary(storage, user, "day", yesterday)).headline, "Kept");
+  });
+});
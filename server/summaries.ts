@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { format, parseISO } from "date-fns";
+import {
+  summaryPeriods,
+  type Activity,
+  type Goal,
+  type Note,
+  type Summary,
+  type SummaryPeriod,
+  type SummaryStats,
+  type User,
+} from "@shared/schema";
+import { addDays, localDate } from "@shared/recurrence";
+import { generateReview, type Review } from "./ai";
+import { activitiesBetween, bucketStart, computeAnalytics, nextBucket } from "./analytics";
+import type { IStorage } from "./storage";
+
+// Reviews of a day, week or month. Each is written from what the user did in
+// the period and stored; asking again returns the stored one unless it is
+// regenerated, or activities have landed in the period since it was written.
+
+// How much of the period goes into the prompt
+const MAX_ACTIVITIES = 60;
+const MAX_GOALS = 20;
+const MAX_NOTES = 10;
+const NOTE_EXCERPT_LENGTH = 300;
+
+export type PeriodRange = { period: SummaryPeriod; start: string; end: string };
+
+// The period of kind `period` containing `date` (a local day)
+export function periodRange(period: SummaryPeriod, date: string): PeriodRange {
+  const start = bucketStart(date, period);
+  return { period, start, end: addDays(nextBucket(start, period), -1) };
+}
+
+// Reads the :period and :date of a summary route; the date is a local day
+// or "current" for today. Returns an error message when they are invalid.
+export function summaryTarget(
+  params: { period: string; date: string },
+  user: User
+): { period: SummaryPeriod; date: string } | string {
+  const period = params.period as SummaryPeriod;
+  if (!summaryPeriods.includes(period)) {
+    return `period must be one of: ${summaryPeriods.join(", ")}`;
+  }
+  const today = localDate(user.timezone);
+  const date = params.date === "current" ? today : params.date;
+  if (!z.string().date().safeParse(date).success) {
+    return "date must be YYYY-MM-DD or current";
+  }
+  if (periodRange(period, date).start > today) {
+    return "That period hasn't started yet";
+  }
+  return { period, date };
+}
+
+function describePeriod({ period, start, end }: PeriodRange): string {
+  const day = (date: string, pattern: string) => format(parseISO(date), pattern);
+  switch (period) {
+    case "day":
+      return day(start, "EEEE, MMMM d, yyyy");
+    case "week":
+      return `the week of ${day(start, "MMM d")} - ${day(end, "MMM d, yyyy")}`;
+    case "month":
+      return day(start, "MMMM yyyy");
+  }
+}
+
+function describeGoal(goal: Goal): string {
+  const state = goal.completed ? "completed" : goal.kind === "habit" ? "habit" : `${goal.progress}%`;
+  return `${goal.title} (${goal.category}, ${state})`;
+}
+
+function describeNote(note: Note): string {
+  const content = note.content.replace(/\s+/g, " ").trim();
+  const excerpt = content.length > NOTE_EXCERPT_LENGTH ? `${content.slice(0, NOTE_EXCERPT_LENGTH)}…` : content;
+  return `"${note.title}": ${excerpt}`;
+}
+
+// Used where the provider wrote nothing, e.g. the offline local provider
+function fallbackReview(stats: SummaryStats): Review {
+  if (stats.activities === 0) {
+    return {
+      headline: "A quiet period with no recorded activity.",
+      highlights: [],
+      suggestions: ["Pick one goal and take a small step on it.", "Jot down a note about what's on your mind."],
+    };
+  }
+  const highlights = [
+    stats.chats > 0 && `${stats.chats} conversation${stats.chats === 1 ? "" : "s"} with AstraMind`,
+    stats.completions > 0 && `${stats.completions} goal and task completion${stats.completions === 1 ? "" : "s"}`,
+    stats.progress > 0 && `${stats.progress} points of goal progress`,
+    stats.notesUpdated > 0 && `${stats.notesUpdated} note${stats.notesUpdated === 1 ? "" : "s"} written or edited`,
+  ].filter((line): line is string => !!line);
+  return {
+    headline: `${stats.activities} activit${stats.activities === 1 ? "y" : "ies"} recorded. Keep the momentum going!`,
+    highlights,
+    suggestions: ["Review your open goals and pick the next step for each."],
+  };
+}
+
+async function writeSummary(storage: IStorage, user: User, range: PeriodRange): Promise<Summary> {
+  const [activities, goals, notes] = await Promise.all([
+    activitiesBetween(storage, user, range.start, range.end),
+    storage.getGoals(user.id),
+    storage.getNotes(user.id),
+  ]);
+  const inPeriod = (instant: Date) => {
+    const day = localDate(user.timezone, new Date(instant));
+    return day >= range.start && day <= range.end;
+  };
+
+  const { totals } = computeAnalytics(activities, user, { from: range.start, to: range.end, bucket: range.period });
+  const openGoals = goals.filter((goal) => !goal.completed);
+  const periodGoals = goals.filter((goal) => !goal.completed || inPeriod(goal.updatedAt));
+  const periodNotes = notes
+    .filter((note) => inPeriod(note.updatedAt) || inPeriod(note.createdAt))
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  const stats: SummaryStats = { ...totals, goalsActive: openGoals.length, notesUpdated: periodNotes.length };
+
+  // When each activity happened, in the user's timezone
+  const when = new Intl.DateTimeFormat(
+    "en-US",
+    range.period === "day"
+      ? { timeZone: user.timezone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }
+      : { timeZone: user.timezone, weekday: "short", month: "short", day: "numeric" }
+  );
+  const time = (activity: Activity) => when.format(new Date(activity.createdAt));
+  const review = await generateReview({
+    period: describePeriod(range),
+    stats: [
+      `Activities: ${stats.activities}`,
+      `Chats: ${stats.chats}`,
+      `Goals and tasks completed: ${stats.completions}`,
+      `Goal progress gained: ${stats.progress} percentage points`,
+      `Notes created: ${stats.notes}, written or edited: ${stats.notesUpdated}`,
+      `Open goals and habits: ${stats.goalsActive}`,
+    ],
+    activities: activities.slice(-MAX_ACTIVITIES).map((activity) => `${time(activity)}: ${activity.description}`),
+    goals: periodGoals.slice(0, MAX_GOALS).map(describeGoal),
+    notes: periodNotes.slice(0, MAX_NOTES).map(describeNote),
+  });
+
+  const fallback = fallbackReview(stats);
+  return storage.saveSummary(user.id, {
+    ...range,
+    headline: review.headline || fallback.headline,
+    highlights: review.highlights.length > 0 ? review.highlights : fallback.highlights,
+    suggestions: review.suggestions.length > 0 ? review.suggestions : fallback.suggestions,
+    stats,
+  });
+}
+
+// A review written before its period was over is out of date once an
+// activity lands in the period after it
+async function isOutdated(storage: IStorage, user: User, summary: Summary): Promise<boolean> {
+  const written = new Date(summary.createdAt);
+  if (localDate(user.timezone, written) > summary.end) return false;
+  const activities = await activitiesBetween(storage, user, summary.start, summary.end);
+  return activities.some((activity) => new Date(activity.createdAt) > written);
+}
+
+// The review of the period containing `date`, written on first request and
+// again when it is outdated. `regenerate` writes it again regardless.
+export async function getSummary(
+  storage: IStorage,
+  user: User,
+  period: SummaryPeriod,
+  date: string,
+  { regenerate = false }: { regenerate?: boolean } = {}
+): Promise<Summary> {
+  const range = periodRange(period, date);
+  if (!regenerate) {
+    const stored = await storage.getSummary(user.id, period, range.start);
+    if (stored && !(await isOutdated(storage, user, stored))) return stored;
+  }
+  return writeSummary(storage, user, range);
+}
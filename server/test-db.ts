@@ -0,0 +1,65 @@
+import { createRequire } from "module";
+import { randomUUID } from "crypto";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { DataType, newDb } from "pg-mem";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+
+// pg-mem, an in-memory Postgres, behind drizzle for the DbStorage tests
+
+// drizzle-kit's API is CommonJS only
+const require = createRequire(import.meta.url);
+const { generateDrizzleJson, generateMigration } = require("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// A database with the tables of shared/schema.ts, or with only the tables
+// the given statements create
+export async function createTestDb(statements?: string[]): Promise<Database> {
+  const mem = newDb();
+  mem.public.registerFunction({
+    name: "gen_random_uuid",
+    returns: DataType.uuid,
+    implementation: randomUUID,
+    impure: true,
+  });
+  // Timestamps in pg-mem are already to the millisecond
+  mem.public.registerFunction({
+    name: "date_trunc",
+    args: [DataType.text, DataType.timestamp],
+    returns: DataType.timestamp,
+    implementation: (_unit: string, time: Date) => time,
+  });
+  mem.public.registerFunction({
+    name: "to_regclass",
+    args: [DataType.text],
+    returns: DataType.text,
+    implementation: (name: string) => (mem.public.getTable(name, true) ? name : null),
+    impure: true,
+  });
+
+  // pg-mem has no full-text search, so the search indexes are left out
+  for (const statement of statements ?? (await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema)))) {
+    if (!statement.includes("USING gin")) mem.public.none(statement);
+  }
+
+  // pg-mem takes neither node-postgres's type parsers nor its array row mode,
+  // and hands back Date objects, so rows are reshaped here: arrays when asked
+  // for, with timestamps as text the way Postgres sends them
+  const { Pool } = mem.adapters.createPg();
+  const pool = new Pool();
+  const query = pool.query.bind(pool);
+  const asText = (value: unknown) =>
+    value instanceof Date ? value.toISOString().replace("T", " ").replace("Z", "") : value;
+  pool.query = async (
+    { types: _types, rowMode, ...config }: { types?: unknown; rowMode?: string },
+    params?: unknown[]
+  ) => {
+    const result = await query(config, params);
+    const rows = result.rows.map((row: Record<string, unknown>) =>
+      rowMode === "array"
+        ? Object.values(row).map(asText)
+        : Object.fromEntries(Object.entries(row).map(([key, value]) => [key, asText(value)]))
+    );
+    return { ...result, rows };
+  };
+  return drizzle({ client: pool, schema });
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createChatTools, undoChatAction } from "./tools";
+import { syncGoalProgress } from "./goals";
+import { MemStorage } from "./storage";
+
+describe("undoing chat actions", () => {
+  let storage: MemStorage;
+  let userId: string;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    ({ id: userId } = await storage.createUser({ username: "ada", password: "secret" }));
+  });
+
+  async function call(name: string, args: Record<string, unknown>) {
+    const { action } = await createChatTools(storage, userId).execute({ id: "call-1", name, args });
+    assert.ok(action);
+    return action;
+  }
+
+  test("puts a manual goal's progress back", async () => {
+    const goal = await storage.createGoal(userId, { title: "Read more", category: "learning", progress: 30 });
+    const action = await call("update_goal_progress", { goalId: goal.id, progress: 80 });
+
+    assert.equal(await undoChatAction(storage, userId, action), true);
+    assert.equal((await storage.getGoal(userId, goal.id))?.progress, 30);
+  });
+
+  test("recomputes a tasks-mode goal's progress from its tasks", async () => {
+    const goal = await storage.createGoal(userId, { title: "Move house", category: "personal", progressMode: "tasks" });
+    await storage.createGoalTask(userId, goal.id, { title: "Pack", completed: true });
+    const task = await storage.createGoalTask(userId, goal.id, { title: "Clean" });
+    assert.equal((await syncGoalProgress(storage, userId, goal)).progress, 50);
+
+    const action = await call("complete_goal", { goalId: goal.id });
+    // The last task is done after the goal was completed
+    await storage.updateGoalTask(userId, task.id, { completed: true });
+    await syncGoalProgress(storage, userId, (await storage.getGoal(userId, goal.id))!);
+
+    assert.equal(await undoChatAction(storage, userId, action), true);
+    const undone = await storage.getGoal(userId, goal.id);
+    assert.equal(undone?.completed, false);
+    assert.equal(undone?.progress, 100);
+  });
+
+  test("reports a goal that is gone", async () => {
+    const goal = await storage.createGoal(userId, { title: "Learn Go", category: "learning" });
+    const action = await call("complete_goal", { goalId: goal.id });
+    await storage.deleteGoal(userId, goal.id);
+
+    assert.equal(await undoChatAction(storage, userId, action), false);
+  });
+});
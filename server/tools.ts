@@ -0,0 +1,336 @@
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import type { ChatAction, Goal } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { syncGoalProgress } from "./goals";
+import type { AIJsonSchema, AIToolCall, AIToolSet } from "./ai";
+
+type ToolOutcome = {
+  // Sent back to the model
+  result: unknown;
+  // Shown in the transcript as an action card
+  action?: Omit<ChatAction, "id" | "tool" | "undone">;
+};
+
+type ToolDefinition<TArgs> = {
+  name: string;
+  description: string;
+  parameters: AIJsonSchema;
+  args: z.ZodType<TArgs>;
+  execute(args: TArgs, storage: IStorage, userId: string): Promise<ToolOutcome>;
+};
+
+// Keeps the argument type of each tool tied to its zod schema
+function defineTool<TArgs>(tool: ToolDefinition<TArgs>): ToolDefinition<TArgs> {
+  return tool;
+}
+
+// Compact goal shape for the model
+function describeGoal(goal: Goal) {
+  return {
+    id: goal.id,
+    title: goal.title,
+    category: goal.category,
+    progress: goal.progress,
+    progressMode: goal.progressMode,
+    completed: goal.completed,
+    kind: goal.kind,
+    recurrence: goal.recurrence,
+    targetDate: goal.targetDate,
+  };
+}
+
+const goalCategories = ["productivity", "learning", "health", "finance", "personal", "career"];
+
+const tools = [
+  defineTool({
+    name: "create_goal",
+    description: "Create a new goal for the user.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Short goal title" },
+        description: { type: "string", description: "Optional details" },
+        category: { type: "string", description: `One of: ${goalCategories.join(", ")}` },
+        targetDate: { type: "string", description: "Optional due date as YYYY-MM-DD" },
+      },
+      required: ["title", "category"],
+    },
+    args: z.object({
+      title: z.string().min(1),
+      description: z.string().optional(),
+      category: z.string().min(1),
+      targetDate: z.string().date().optional(),
+    }),
+    async execute(args, storage, userId) {
+      const goal = await storage.createGoal(userId, {
+        title: args.title,
+        description: args.description,
+        category: args.category,
+        targetDate: args.targetDate ? new Date(args.targetDate) : undefined,
+      });
+      await storage.createActivity(userId, {
+        type: "goal_created",
+        description: `Created goal: ${goal.title}`,
+        entityType: "goal",
+        entityId: goal.id,
+        metadata: { category: goal.category, kind: goal.kind, source: "assistant" },
+      });
+      return {
+        result: describeGoal(goal),
+        action: {
+          summary: `Created goal: ${goal.title}`,
+          entityType: "goal",
+          entityId: goal.id,
+          undo: { op: "delete_goal" },
+        },
+      };
+    },
+  }),
+  defineTool({
+    name: "update_goal_progress",
+    description: "Set the progress of an existing goal, from 0 to 100 percent.",
+    parameters: {
+      type: "object",
+      properties: {
+        goalId: { type: "string", description: "Goal id from list_goals" },
+        progress: { type: "integer", description: "New progress percentage, 0-100" },
+      },
+      required: ["goalId", "progress"],
+    },
+    args: z.object({
+      goalId: z.string(),
+      progress: z.number().int().min(0).max(100),
+    }),
+    async execute(args, storage, userId) {
+      const existing = await storage.getGoal(userId, args.goalId);
+      if (!existing) return { result: { error: "Goal not found" } };
+      if (existing.progressMode === "tasks") {
+        return { result: { error: "This goal's progress is computed from its tasks" } };
+      }
+
+      const goal = (await storage.updateGoal(userId, existing.id, { progress: args.progress }))!;
+      await storage.createActivity(userId, {
+        type: "goal_updated",
+        description: `Updated goal: ${goal.title}`,
+        entityType: "goal",
+        entityId: goal.id,
+        metadata: { oldProgress: existing.progress, newProgress: goal.progress, source: "assistant" },
+      });
+      return {
+        result: describeGoal(goal),
+        action: {
+          summary: `Set "${goal.title}" to ${goal.progress}%`,
+          entityType: "goal",
+          entityId: goal.id,
+          undo: { op: "restore_goal", progress: existing.progress, completed: existing.completed },
+        },
+      };
+    },
+  }),
+  defineTool({
+    name: "complete_goal",
+    description: "Mark an existing goal as completed.",
+    parameters: {
+      type: "object",
+      properties: {
+        goalId: { type: "string", description: "Goal id from list_goals" },
+      },
+      required: ["goalId"],
+    },
+    args: z.object({
+      goalId: z.string(),
+    }),
+    async execute(args, storage, userId) {
+      const existing = await storage.getGoal(userId, args.goalId);
+      if (!existing) return { result: { error: "Goal not found" } };
+      if (existing.completed) return { result: { error: "Goal is already completed" } };
+
+      const goal = (await storage.updateGoal(
+        userId,
+        existing.id,
+        // Progress of a goal in "tasks" mode stays derived from its tasks
+        existing.progressMode === "tasks" ? { completed: true } : { completed: true, progress: 100 }
+      ))!;
+      await storage.createActivity(userId, {
+        type: "goal_completed",
+        description: `Completed goal: ${goal.title}`,
+        entityType: "goal",
+        entityId: goal.id,
+        metadata: { oldProgress: existing.progress, newProgress: goal.progress, source: "assistant" },
+      });
+      return {
+        result: describeGoal(goal),
+        action: {
+          summary: `Completed goal: ${goal.title}`,
+          entityType: "goal",
+          entityId: goal.id,
+          undo: { op: "restore_goal", progress: existing.progress, completed: existing.completed },
+        },
+      };
+    },
+  }),
+  defineTool({
+    name: "create_note",
+    description: "Save a new note for the user.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        content: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["title", "content"],
+    },
+    args: z.object({
+      title: z.string().min(1),
+      content: z.string(),
+      tags: z.array(z.string()).optional(),
+    }),
+    async execute(args, storage, userId) {
+      const note = await storage.createNote(userId, args);
+      await storage.createActivity(userId, {
+        type: "note_created",
+        description: `Created note: ${note.title}`,
+        entityType: "note",
+        entityId: note.id,
+        metadata: { tags: note.tags?.length ?? 0, source: "assistant" },
+      });
+      return {
+        result: { id: note.id, title: note.title, tags: note.tags },
+        action: {
+          summary: `Created note: ${note.title}`,
+          entityType: "note",
+          entityId: note.id,
+          undo: { op: "delete_note" },
+        },
+      };
+    },
+  }),
+  defineTool({
+    name: "search_notes",
+    description: "Find the user's notes whose title, content or tags contain the query.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+      },
+      required: ["query"],
+    },
+    args: z.object({
+      query: z.string(),
+    }),
+    async execute(args, storage, userId) {
+      const query = args.query.toLowerCase();
+      const matches = (await storage.getNotes(userId))
+        .filter(
+          (note) =>
+            note.title.toLowerCase().includes(query) ||
+            note.content.toLowerCase().includes(query) ||
+            note.tags?.some((tag) => tag.toLowerCase().includes(query))
+        )
+        .slice(0, 10);
+      return {
+        result: matches.map((note) => ({
+          id: note.id,
+          title: note.title,
+          content: note.content.slice(0, 500),
+          tags: note.tags,
+        })),
+        action: {
+          summary: `Searched notes for "${args.query}" (${matches.length} found)`,
+        },
+      };
+    },
+  }),
+  defineTool({
+    name: "list_goals",
+    description: "List the user's goals with their ids and progress.",
+    parameters: {
+      type: "object",
+      properties: {
+        includeCompleted: { type: "boolean", description: "Also list completed goals" },
+      },
+    },
+    args: z.object({
+      includeCompleted: z.boolean().optional(),
+    }),
+    async execute(args, storage, userId) {
+      const goals = (await storage.getGoals(userId)).filter(
+        (goal) => args.includeCompleted || !goal.completed
+      );
+      return {
+        result: goals.map(describeGoal),
+        action: {
+          summary: `Looked up ${goals.length} goal${goals.length === 1 ? "" : "s"}`,
+        },
+      };
+    },
+  }),
+];
+
+// Tool set handed to chatWithAI/streamChatWithAI for one chat turn of `userId`
+export function createChatTools(storage: IStorage, userId: string): AIToolSet {
+  return {
+    declarations: tools.map(({ name, description, parameters }) => ({ name, description, parameters })),
+
+    async execute(call: AIToolCall) {
+      const tool = tools.find((t) => t.name === call.name);
+      if (!tool) return { result: { error: `Unknown tool: ${call.name}` } };
+
+      const args = (tool.args as z.ZodType<unknown>).safeParse(call.args);
+      if (!args.success) {
+        return { result: { error: "Invalid arguments", issues: args.error.flatten().fieldErrors } };
+      }
+
+      try {
+        const outcome = await (tool as ToolDefinition<unknown>).execute(args.data, storage, userId);
+        return {
+          result: outcome.result,
+          action: outcome.action && {
+            ...outcome.action,
+            id: randomUUID(),
+            tool: tool.name,
+            undone: false,
+          },
+        };
+      } catch (error) {
+        console.error(`Tool ${call.name} failed:`, error);
+        return { result: { error: "Tool failed" } };
+      }
+    },
+  };
+}
+
+// Reverses an action. Returns false when the target no longer exists.
+export async function undoChatAction(
+  storage: IStorage,
+  userId: string,
+  action: ChatAction
+): Promise<boolean> {
+  if (!action.undo || !action.entityId) return false;
+
+  switch (action.undo.op) {
+    case "delete_goal":
+      return storage.deleteGoal(userId, action.entityId);
+    case "delete_note":
+      return storage.deleteNote(userId, action.entityId);
+    case "restore_goal": {
+      const existing = await storage.getGoal(userId, action.entityId);
+      if (!existing) return false;
+
+      // Progress of a goal in "tasks" mode follows its tasks, which may have
+      // changed since, rather than going back to the snapshot
+      const goal = await storage.updateGoal(
+        userId,
+        existing.id,
+        existing.progressMode === "tasks"
+          ? { completed: action.undo.completed }
+          : { completed: action.undo.completed, progress: action.undo.progress }
+      );
+      if (!goal) return false;
+      await syncGoalProgress(storage, userId, goal);
+      return true;
+    }
+  }
+}
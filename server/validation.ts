@@ -0,0 +1,29 @@
+import type { Response } from "express";
+import { ZodError } from "zod";
+import type { ValidationErrorDetails } from "@shared/schema";
+import { sendError } from "./errors";
+
+// The messages of a ZodError for each field, by dotted path
+export function fieldErrors(error: ZodError): Record<string, string[]> {
+  const fields: Record<string, string[]> = {};
+  error.issues.forEach((issue) => {
+    const path = issue.path.join(".");
+    (fields[path] ??= []).push(issue.message);
+  });
+  return fields;
+}
+
+// Answers 400 validation_failed with the invalid fields, which the client
+// forms show inline. The message names the first problem, so that a toast
+// of it alone still says what to fix.
+export function sendValidationError(
+  res: Response,
+  message: string,
+  errors: ZodError | Record<string, string[]>
+) {
+  const fields = errors instanceof ZodError ? fieldErrors(errors) : errors;
+  const details: ValidationErrorDetails = { fields };
+  const [path, messages] = Object.entries(fields)[0] ?? [];
+  const first = messages?.length ? (path ? `${path}: ${messages[0]}` : messages[0]) : undefined;
+  sendError(res, 400, first ? `${message} (${first})` : message, { code: "validation_failed", details });
+}
@@ -0,0 +1,34 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { strToU8, zipSync } from "fflate";
+import { MAX_TAGS, MAX_TITLE_LENGTH } from "@shared/schema";
+import { importVault, parseVault } from "./vault";
+import { MemStorage } from "./storage";
+
+test("skips vault files whose note breaks the note limits", async () => {
+  const storage = new MemStorage();
+  const { id: userId } = await storage.createUser({ username: "ada", password: "secret" });
+  const tags = Array.from({ length: MAX_TAGS + 1 }, (_, i) => `tag${i}`);
+  const zip = zipSync({
+    "Fine.md": strToU8("---\ntags: [a, b]\n---\nHello"),
+    "Long.md": strToU8(`---\ntitle: ${"x".repeat(MAX_TITLE_LENGTH + 1)}\n---\nToo long a title`),
+    "Tagged.md": strToU8(`---\ntags: [${tags.join(", ")}]\n---\nToo many tags`),
+  });
+
+  const vault = parseVault(zip);
+  assert.ok(typeof vault !== "string");
+  const result = await importVault(storage, userId, vault);
+
+  assert.equal(result.created, 1);
+  assert.deepEqual(
+    result.skipped.map(({ file, reason }) => [file, reason.split(":")[0]]),
+    [
+      ["Long.md", "title"],
+      ["Tagged.md", "tags"],
+    ]
+  );
+  assert.deepEqual(
+    (await storage.getNotes(userId)).map(({ title, tags }) => [title, tags]),
+    [["Fine", ["a", "b"]]]
+  );
+});
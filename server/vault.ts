@@ -0,0 +1,215 @@
+import { strToU8, unzipSync, zipSync, type Zippable } from "fflate";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import { insertNoteSchema, type Note, type VaultImportResult } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Notes as a Markdown vault (a folder of .md files, as Obsidian keeps them)
+// zipped up. Each file is one note: the file name is its title, and YAML
+// front-matter holds the rest:
+//
+//   ---
+//   id: 6f1c...          the note's id here, so importing the file again updates it
+//   title: What's next?  only when the file name can't be the exact title
+//   tags: [work, ideas]
+//   created: 2026-01-05T09:30:00.000Z
+//   updated: 2026-02-11T17:02:13.000Z
+//   ---
+//
+// Everything after the front-matter is the content, byte for byte, so notes
+// and their [[links]] round-trip unchanged.
+
+// Limits against zip bombs, uncompressed
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_VAULT_BYTES = 50 * 1024 * 1024;
+
+const FRONT_MATTER = /^---\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+// A file name for the title; characters that file systems or wiki links
+// don't allow become spaces
+function fileBase(title: string): string {
+  const base = title
+    .replace(/[\\/:*?"<>|#^\[\]\x00-\x1f]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^\.+/, "")
+    .slice(0, 120)
+    .trim();
+  return base || "Untitled";
+}
+
+function toMarkdown(note: Note, base: string): string {
+  const frontMatter: Record<string, unknown> = { id: note.id };
+  if (base !== note.title) frontMatter.title = note.title;
+  if (note.tags?.length) frontMatter.tags = note.tags;
+  frontMatter.created = new Date(note.createdAt).toISOString();
+  frontMatter.updated = new Date(note.updatedAt).toISOString();
+  return `---\n${stringifyYaml(frontMatter)}---\n${note.content}`;
+}
+
+// A zip with one .md file per note
+export function exportVault(notes: Note[]): Uint8Array {
+  const files: Zippable = {};
+  const taken = new Set<string>(); // lowercased, as some file systems ignore case
+  for (const note of notes) {
+    const title = fileBase(note.title);
+    let base = title;
+    for (let n = 2; taken.has(base.toLowerCase()); n++) base = `${title} (${n})`;
+    taken.add(base.toLowerCase());
+    files[`${base}.md`] = [strToU8(toMarkdown(note, base)), { mtime: new Date(note.updatedAt) }];
+  }
+  return zipSync(files);
+}
+
+export type VaultNote = {
+  file: string;
+  id?: string;
+  title: string;
+  content: string;
+  tags: string[];
+  created?: Date;
+  updated?: Date;
+};
+
+function readTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(/[,\s]+/) : [];
+  // Obsidian also accepts #tag
+  return Array.from(new Set(tags.map((tag) => tag.trim().replace(/^#/, "")).filter(Boolean)));
+}
+
+function readDate(value: unknown): Date | undefined {
+  if (!(value instanceof Date) && typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// One .md file; returns why it can't be imported otherwise
+function readNote(file: string, bytes: Uint8Array): VaultNote | string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes).replace(/^\uFEFF/, "");
+  } catch {
+    return "Not UTF-8 text";
+  }
+
+  const name = file.split("/").pop()!.replace(/\.md$/i, "");
+  const match = FRONT_MATTER.exec(text);
+  if (!match) return { file, title: name.trim() || "Untitled", content: text, tags: [] };
+
+  let meta: unknown;
+  try {
+    meta = parseYaml(match[1] ?? "");
+  } catch (error) {
+    return `Invalid front-matter: ${error instanceof Error ? error.message.split("\n")[0].replace(/:$/, "") : "can't be read"}`;
+  }
+  const fields = meta && typeof meta === "object" && !Array.isArray(meta) ? (meta as Record<string, unknown>) : {};
+  const title = typeof fields.title === "string" && fields.title.trim() ? fields.title : name.trim() || "Untitled";
+
+  return {
+    file,
+    id: typeof fields.id === "string" ? fields.id : undefined,
+    title,
+    content: text.slice(match[0].length),
+    tags: readTags(fields.tags),
+    created: readDate(fields.created),
+    updated: readDate(fields.updated),
+  };
+}
+
+// Reads the .md files of an uploaded zip, at any depth. Other files (images,
+// the .obsidian settings folder) are left out. Returns an error message when
+// the upload can't be read at all.
+export function parseVault(zip: Uint8Array): { notes: VaultNote[]; skipped: VaultImportResult["skipped"] } | string {
+  let total = 0;
+  let tooLarge: string | undefined;
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(zip, {
+      filter: (entry) => {
+        const parts = entry.name.split("/");
+        const wanted =
+          /\.md$/i.test(entry.name) && !parts.some((part) => part.startsWith(".") || part === "__MACOSX");
+        if (!wanted) return false;
+        total += entry.originalSize;
+        if (entry.originalSize > MAX_FILE_BYTES || total > MAX_VAULT_BYTES) tooLarge ??= entry.name;
+        return !tooLarge;
+      },
+    });
+  } catch {
+    return "Not a zip file";
+  }
+  if (tooLarge) return `The vault is too large to import (at ${tooLarge})`;
+
+  const notes: VaultNote[] = [];
+  const skipped: VaultImportResult["skipped"] = [];
+  Object.keys(files)
+    .sort()
+    .forEach((file) => {
+      const note = readNote(file, files[file]);
+      if (typeof note === "string") skipped.push({ file, reason: note });
+      else notes.push(note);
+    });
+  return { notes, skipped };
+}
+
+const sameTime = (a: Date, b: Date) => new Date(a).getTime() === new Date(b).getTime();
+
+// Creates a note per file, or updates the note a file was exported from when
+// its id is still in this workspace. Files whose note breaks the limits of the
+// notes API, such as a title over 200 characters, are skipped.
+export async function importVault(
+  storage: IStorage,
+  userId: string,
+  vault: { notes: VaultNote[]; skipped: VaultImportResult["skipped"] }
+): Promise<VaultImportResult> {
+  const result: VaultImportResult = { created: 0, updated: 0, unchanged: 0, skipped: [...vault.skipped] };
+  const existing = new Map((await storage.getNotes(userId)).map((note) => [note.id, note]));
+  const matched = new Set<string>(); // a copied file mustn't update the same note twice
+
+  for (const vaultNote of vault.notes) {
+    const parsed = insertNoteSchema.safeParse({
+      title: vaultNote.title,
+      content: vaultNote.content,
+      tags: vaultNote.tags,
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      result.skipped.push({ file: vaultNote.file, reason: `${issue.path.join(".")}: ${issue.message}` });
+      continue;
+    }
+    const file = { ...vaultNote, ...parsed.data, tags: parsed.data.tags ?? [] };
+    const note = file.id && !matched.has(file.id) ? existing.get(file.id) : undefined;
+
+    if (note) {
+      matched.add(note.id);
+      const changed =
+        file.title !== note.title ||
+        file.content !== note.content ||
+        file.tags.join("\n") !== (note.tags ?? []).join("\n") ||
+        (file.created !== undefined && !sameTime(file.created, note.createdAt)) ||
+        (file.updated !== undefined && !sameTime(file.updated, note.updatedAt));
+      if (!changed) {
+        result.unchanged++;
+        continue;
+      }
+      await storage.updateNote(userId, note.id, {
+        title: file.title,
+        content: file.content,
+        tags: file.tags,
+        createdAt: file.created ?? note.createdAt,
+        // Editors rarely touch `updated`, so an unchanged one means "edited now"
+        updatedAt: file.updated && !sameTime(file.updated, note.updatedAt) ? file.updated : undefined,
+      });
+      result.updated++;
+    } else {
+      const created = await storage.createNote(userId, { title: file.title, content: file.content, tags: file.tags });
+      if (file.created || file.updated) {
+        await storage.updateNote(userId, created.id, {
+          createdAt: file.created ?? created.createdAt,
+          updatedAt: file.updated ?? file.created,
+        });
+      }
+      result.created++;
+    }
+  }
+  return result;
+}
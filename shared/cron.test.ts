@@ -0,0 +1,115 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { isValidCron, nextCronTime, parseCron } from "./cron";
+
+const values = (set: Set<number> | undefined) => Array.from(set ?? []).sort((a, b) => a - b);
+
+// The next run after an ISO time, as an ISO time
+function next(expression: string, after: string): string | null {
+  return nextCronTime(expression, new Date(after))?.toISOString() ?? null;
+}
+
+describe("parseCron", () => {
+  test("reads *, values, lists, ranges and steps", () => {
+    const schedule = parseCron("*/15 10-12,18 1,15 * 1-5")!;
+    assert.deepEqual(values(schedule.minutes), [0, 15, 30, 45]);
+    assert.deepEqual(values(schedule.hours), [10, 11, 12, 18]);
+    assert.deepEqual(values(schedule.days), [1, 15]);
+    assert.equal(schedule.months.size, 12);
+    assert.deepEqual(values(schedule.weekdays), [1, 2, 3, 4, 5]);
+    assert.equal(schedule.anyDay, false);
+    assert.equal(schedule.anyWeekday, false);
+  });
+
+  test("steps a range, or from a start to the end of the field", () => {
+    assert.deepEqual(values(parseCron("10-50/10 * * * *")?.minutes), [10, 20, 30, 40, 50]);
+    assert.deepEqual(values(parseCron("5/20 * * * *")?.minutes), [5, 25, 45]);
+    assert.deepEqual(values(parseCron("0 */6 * * *")?.hours), [0, 6, 12, 18]);
+  });
+
+  test("takes month and weekday names in any case, and 7 for Sunday", () => {
+    assert.deepEqual(values(parseCron("0 0 * jan,JUN-Aug *")?.months), [1, 6, 7, 8]);
+    assert.deepEqual(values(parseCron("0 9 * * MON-FRI")?.weekdays), [1, 2, 3, 4, 5]);
+    assert.deepEqual(values(parseCron("0 9 * * sat,7")?.weekdays), [0, 6]);
+    assert.deepEqual(values(parseCron("0 9 * * 5-7")?.weekdays), [0, 5, 6]);
+  });
+
+  test("allows spaces around the fields", () => {
+    assert.ok(parseCron("  0   9 * * *  "));
+  });
+
+  test("rejects anything that isn't a valid expression", () => {
+    for (const expression of [
+      "",
+      "* * * *",
+      "* * * * * *",
+      "60 * * * *",
+      "* 24 * * *",
+      "* * 0 * *",
+      "* * 32 * *",
+      "* * * 13 *",
+      "* * * * 8",
+      "5-1 * * * *",
+      "*/0 * * * *",
+      "*/x * * * *",
+      "1/2/3 * * * *",
+      "1-2-3 * * * *",
+      "1,,2 * * * *",
+      "0 9 * * MONDAY",
+      "0 9 * FOO *",
+      "-1 * * * *",
+    ]) {
+      assert.equal(parseCron(expression), null, expression);
+      assert.equal(isValidCron(expression), false, expression);
+    }
+  });
+});
+
+describe("nextCronTime", () => {
+  test("runs at the next matching minute, strictly after the given time", () => {
+    assert.equal(next("*/15 * * * *", "2025-03-04T10:07:30Z"), "2025-03-04T10:15:00.000Z");
+    assert.equal(next("*/15 * * * *", "2025-03-04T10:15:00Z"), "2025-03-04T10:30:00.000Z");
+    assert.equal(next("* * * * *", "2025-03-04T10:15:59.999Z"), "2025-03-04T10:16:00.000Z");
+  });
+
+  test("rolls over into the next hour, day, month and year", () => {
+    assert.equal(next("0 * * * *", "2025-03-04T10:59:00Z"), "2025-03-04T11:00:00.000Z");
+    assert.equal(next("30 3 * * *", "2025-03-04T04:00:00Z"), "2025-03-05T03:30:00.000Z");
+    assert.equal(next("0 0 1 * *", "2025-01-31T12:00:00Z"), "2025-02-01T00:00:00.000Z");
+    assert.equal(next("0 0 1 1 *", "2025-06-01T00:00:00Z"), "2026-01-01T00:00:00.000Z");
+    assert.equal(next("59 23 31 12 *", "2025-12-31T23:59:00Z"), "2026-12-31T23:59:00.000Z");
+  });
+
+  test("skips months without the day", () => {
+    assert.equal(next("0 0 31 * *", "2025-04-01T00:00:00Z"), "2025-05-31T00:00:00.000Z");
+    assert.equal(next("0 0 29 2 *", "2025-03-01T00:00:00Z"), "2028-02-29T00:00:00.000Z");
+  });
+
+  test("returns null for a schedule that never runs or doesn't parse", () => {
+    assert.equal(next("0 0 31 2 *", "2025-01-01T00:00:00Z"), null);
+    assert.equal(next("0 0 30 2 *", "2025-01-01T00:00:00Z"), null);
+    assert.equal(next("not cron", "2025-01-01T00:00:00Z"), null);
+  });
+
+  test("runs on weekdays only when the day of the month is *", () => {
+    // 2025-06-06 is a Friday
+    assert.equal(next("0 9 * * MON-FRI", "2025-06-06T10:00:00Z"), "2025-06-09T09:00:00.000Z");
+    assert.equal(next("0 9 * * 0", "2025-06-06T10:00:00Z"), "2025-06-08T09:00:00.000Z");
+  });
+
+  test("runs on days of the month only when the day of the week is *", () => {
+    assert.equal(next("0 0 15 * *", "2025-06-06T10:00:00Z"), "2025-06-15T00:00:00.000Z");
+  });
+
+  test("runs on a day matching either the day of the month or of the week when both are set", () => {
+    // June 2025: Fridays are the 6th, 13th, 20th and 27th
+    assert.equal(next("0 9 10 * FRI", "2025-06-01T00:00:00Z"), "2025-06-06T09:00:00.000Z");
+    assert.equal(next("0 9 10 * FRI", "2025-06-07T00:00:00Z"), "2025-06-10T09:00:00.000Z");
+    assert.equal(next("0 9 10 * FRI", "2025-06-10T09:00:00Z"), "2025-06-13T09:00:00.000Z");
+  });
+
+  test("only runs in the listed months", () => {
+    assert.equal(next("0 0 1 MAR,SEP *", "2025-03-01T00:00:00Z"), "2025-09-01T00:00:00.000Z");
+    assert.equal(next("0 12 * 2 MON", "2025-03-01T00:00:00Z"), "2026-02-02T12:00:00.000Z");
+  });
+});
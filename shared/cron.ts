@@ -0,0 +1,115 @@
+// Cron schedules of background jobs, see server/jobs.ts. Five fields, in UTC:
+//
+//   minute hour day-of-month month day-of-week
+//   "*/15 * * * *"   every 15 minutes
+//   "30 3 * * *"     03:30 every day
+//   "0 9 * * MON-FRI" 09:00 on weekdays
+//
+// Each field is `*` or a comma-separated list of values, ranges (`1-5`) and
+// steps (`*/2`, `10-50/10`). Months and weekdays also take their English
+// abbreviations; Sunday is 0 or 7. As in classic cron, when both the day of
+// the month and the day of the week are restricted, a day matching either
+// one runs.
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>; // 1-12
+  weekdays: Set<number>; // 0 = Sunday
+  anyDay: boolean; // day of the month is *
+  anyWeekday: boolean; // day of the week is *
+};
+
+const monthNames = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const weekdayNames = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+// A schedule matching nothing within this many days never runs, e.g. "0 0 31 2 *"
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(text: string, names: string[] | undefined, offset: number): number {
+  const index = names?.indexOf(text.toUpperCase()) ?? -1;
+  if (index >= 0) return index + offset;
+  return /^\d+$/.test(text) ? Number(text) : NaN;
+}
+
+// Null when the field isn't valid for the range
+function parseField(field: string, min: number, max: number, names?: string[], offset = 0): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText, extra] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) return null;
+
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      const [first, last, rest] = range.split("-");
+      from = parseValue(first, names, offset);
+      to = last === undefined ? (stepText === undefined ? from : max) : parseValue(last, names, offset);
+      if (rest !== undefined) return null;
+    }
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) return null;
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+// Returns null for anything that isn't a valid expression
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseField(fields[0], 0, 59);
+  const hours = parseField(fields[1], 0, 23);
+  const days = parseField(fields[2], 1, 31);
+  const months = parseField(fields[3], 1, 12, monthNames, 1);
+  const weekdays = parseField(fields[4], 0, 7, weekdayNames);
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+  if (weekdays.delete(7)) weekdays.add(0);
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === "*", anyWeekday: fields[4] === "*" };
+}
+
+export function isValidCron(expression: string): boolean {
+  return parseCron(expression) !== null;
+}
+
+function matchesDay(schedule: CronSchedule, time: Date): boolean {
+  const day = schedule.days.has(time.getUTCDate());
+  const weekday = schedule.weekdays.has(time.getUTCDay());
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+// The first time after `after` that the schedule runs, to the minute; null
+// when it never does
+export function nextCronTime(expression: string, after: Date): Date | null {
+  const schedule = parseCron(expression);
+  if (!schedule) return null;
+
+  const time = new Date(after);
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  // Moves to the start of the next month, day or hour whenever the current
+  // one can't match
+  while (time.getTime() <= limit) {
+    if (!schedule.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  return null;
+}
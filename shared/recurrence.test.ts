@@ -0,0 +1,173 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { addDays, computeStreak, daysBetween, isScheduled, localDate, localHour, parseRecurrence } from "./recurrence";
+
+// March 2025 starts on a Saturday; the US moves its clocks forward on Sunday
+// the 9th and back on Sunday, November 2nd
+
+const rule = (value: string) => parseRecurrence(value)!;
+
+describe("local days", () => {
+  test("buckets an instant into the day of the timezone", () => {
+    assert.equal(localDate("UTC", new Date("2025-03-05T07:30:00Z")), "2025-03-05");
+    // 23:30 the evening before in Los Angeles (UTC-8)
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-03-05T07:30:00Z")), "2025-03-04");
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-03-05T08:00:00Z")), "2025-03-05");
+    // Already the next day in Tokyo (UTC+9) and Kolkata (UTC+5:30)
+    assert.equal(localDate("Asia/Tokyo", new Date("2025-03-04T14:59:00Z")), "2025-03-04");
+    assert.equal(localDate("Asia/Tokyo", new Date("2025-03-04T15:00:00Z")), "2025-03-05");
+    assert.equal(localDate("Asia/Kolkata", new Date("2025-03-04T18:29:00Z")), "2025-03-04");
+    assert.equal(localDate("Asia/Kolkata", new Date("2025-03-04T18:30:00Z")), "2025-03-05");
+  });
+
+  test("moves midnight with daylight saving time", () => {
+    // Midnight in Los Angeles is 08:00 UTC in winter and 07:00 UTC in summer
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-03-09T07:59:00Z")), "2025-03-08");
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-03-10T06:59:00Z")), "2025-03-09");
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-03-10T07:00:00Z")), "2025-03-10");
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-11-03T07:59:00Z")), "2025-11-02");
+    assert.equal(localDate("America/Los_Angeles", new Date("2025-11-03T08:00:00Z")), "2025-11-03");
+
+    assert.equal(localHour("America/Los_Angeles", new Date("2025-03-09T09:59:00Z")), 1);
+    assert.equal(localHour("America/Los_Angeles", new Date("2025-03-09T10:00:00Z")), 3);
+    assert.equal(localHour("Europe/London", new Date("2025-03-30T00:30:00Z")), 0);
+    assert.equal(localHour("Europe/London", new Date("2025-03-30T01:30:00Z")), 2);
+  });
+
+  test("counts days across daylight saving changes as whole days", () => {
+    assert.equal(addDays("2025-03-08", 1), "2025-03-09");
+    assert.equal(addDays("2025-03-09", 1), "2025-03-10");
+    assert.equal(addDays("2025-11-02", -1), "2025-11-01");
+    assert.equal(daysBetween("2025-03-01", "2025-04-01"), 31);
+    assert.equal(daysBetween("2025-11-03", "2025-10-27"), -7);
+  });
+});
+
+describe("isScheduled", () => {
+  test("never before the habit starts", () => {
+    assert.equal(isScheduled(rule("daily"), "2025-03-04", "2025-03-03"), false);
+    assert.equal(isScheduled(rule("weekly:3"), "2025-03-04", "2025-03-03"), false);
+  });
+
+  test("every few days, counted from the start", () => {
+    const everyOther = rule("RRULE:FREQ=DAILY;INTERVAL=2");
+    assert.deepEqual(
+      ["2025-03-03", "2025-03-04", "2025-03-05", "2025-03-06"].map((date) => isScheduled(everyOther, "2025-03-03", date)),
+      [true, false, true, false]
+    );
+  });
+
+  test("on the listed weekdays of every few weeks, counted from the week of the start", () => {
+    // Started on Wednesday the 5th: Mondays and Thursdays of every other week
+    const mondaysAndThursdays = rule("RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH");
+    const scheduled = (date: string) => isScheduled(mondaysAndThursdays, "2025-03-05", date);
+    assert.equal(scheduled("2025-03-03"), false);
+    assert.equal(scheduled("2025-03-06"), true);
+    assert.equal(scheduled("2025-03-07"), false);
+    assert.equal(scheduled("2025-03-10"), false);
+    assert.equal(scheduled("2025-03-13"), false);
+    assert.equal(scheduled("2025-03-17"), true);
+    assert.equal(scheduled("2025-03-20"), true);
+  });
+
+  test("weekdays skip the weekend, and times-per-week habits can be done any day", () => {
+    assert.equal(isScheduled(rule("weekdays"), "2025-03-03", "2025-03-07"), true);
+    assert.equal(isScheduled(rule("weekdays"), "2025-03-03", "2025-03-08"), false);
+    assert.equal(isScheduled(rule("weekdays"), "2025-03-03", "2025-03-09"), false);
+    assert.equal(isScheduled(rule("weekly:2"), "2025-03-03", "2025-03-09"), true);
+  });
+});
+
+describe("computeStreak", () => {
+  const days = (from: string, count: number) => Array.from({ length: count }, (_, i) => addDays(from, i));
+
+  test("counts consecutive days up to today", () => {
+    assert.deepEqual(computeStreak("daily", "2025-03-01", days("2025-03-01", 5), "2025-03-05"), {
+      current: 5,
+      longest: 5,
+      unit: "days",
+    });
+  });
+
+  test("doesn't break the streak while today is still open", () => {
+    const streak = computeStreak("daily", "2025-03-01", days("2025-03-01", 4), "2025-03-05");
+    assert.deepEqual([streak.current, streak.longest], [4, 4]);
+  });
+
+  test("restarts after a missed day, keeping the longest run", () => {
+    const streak = computeStreak(
+      "daily",
+      "2025-03-01",
+      ["2025-03-01", "2025-03-02", "2025-03-03", "2025-03-05", "2025-03-06"],
+      "2025-03-06"
+    );
+    assert.deepEqual([streak.current, streak.longest], [2, 3]);
+  });
+
+  test("carries over days the habit isn't scheduled on", () => {
+    // Monday the 3rd to Monday the 10th, over a weekend off, with today open
+    const weekdays = computeStreak("weekdays", "2025-03-03", [...days("2025-03-03", 5), "2025-03-10"], "2025-03-11");
+    assert.deepEqual([weekdays.current, weekdays.longest], [6, 6]);
+
+    // Check-ins on an unscheduled Wednesday neither add to nor break the streak
+    const mondaysAndThursdays = computeStreak(
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,TH",
+      "2025-03-03",
+      ["2025-03-03", "2025-03-05", "2025-03-06", "2025-03-10", "2025-03-12"],
+      "2025-03-12"
+    );
+    assert.deepEqual([mondaysAndThursdays.current, mondaysAndThursdays.longest], [3, 3]);
+
+    const missedThursday = computeStreak(
+      "RRULE:FREQ=WEEKLY;BYDAY=MO,TH",
+      "2025-03-03",
+      ["2025-03-03", "2025-03-05", "2025-03-10"],
+      "2025-03-12"
+    );
+    assert.deepEqual([missedThursday.current, missedThursday.longest], [1, 1]);
+  });
+
+  test("counts weeks that reached the target for times-per-week habits", () => {
+    const checkins = [...days("2025-03-03", 3), ...days("2025-03-10", 3), "2025-03-17"];
+    assert.deepEqual(computeStreak("weekly:3", "2025-03-03", checkins, "2025-03-18"), {
+      current: 2,
+      longest: 2,
+      unit: "weeks",
+    });
+    // A week short of the target breaks it once the week is over
+    const short = computeStreak("weekly:3", "2025-03-03", [...days("2025-03-03", 3), "2025-03-10"], "2025-03-18");
+    assert.deepEqual([short.current, short.longest], [0, 1]);
+  });
+
+  test("counts check-ins just before midnight in Los Angeles on the local day", () => {
+    // 22:30, 23:45 and 23:55 local on the 8th, 9th (after the clocks moved
+    // forward) and 10th, all already the next day in UTC
+    const instants = [
+      new Date("2025-03-09T06:30:00Z"),
+      new Date("2025-03-10T06:45:00Z"),
+      new Date("2025-03-11T06:55:00Z"),
+    ];
+    const checkins = instants.map((instant) => localDate("America/Los_Angeles", instant));
+    assert.deepEqual(checkins, ["2025-03-08", "2025-03-09", "2025-03-10"]);
+
+    // Half past midnight on the 11th, with nothing done yet today
+    const today = localDate("America/Los_Angeles", new Date("2025-03-11T07:30:00Z"));
+    assert.equal(today, "2025-03-11");
+    const streak = computeStreak("daily", "2025-03-08", checkins, today);
+    assert.deepEqual([streak.current, streak.longest], [3, 3]);
+
+    // In UTC, the last of them would already fall on today
+    assert.deepEqual(
+      instants.map((instant) => localDate("UTC", instant)),
+      ["2025-03-09", "2025-03-10", "2025-03-11"]
+    );
+  });
+
+  test("has no streak for a rule it doesn't understand", () => {
+    assert.deepEqual(computeStreak("sometimes", "2025-03-01", ["2025-03-01"], "2025-03-01"), {
+      current: 0,
+      longest: 0,
+      unit: "days",
+    });
+  });
+});
@@ -0,0 +1,215 @@
+// Habit schedules and streaks. Shared by the server (streaks in /api/habits)
+// and the client (labels and the habit grid).
+//
+// A habit's `recurrence` is one of:
+//   "daily"                          every day
+//   "weekdays"                       Monday to Friday
+//   "weekly:N"                       any N days per week (1-7)
+//   "RRULE:FREQ=DAILY;INTERVAL=2"    an RRULE subset: FREQ=DAILY or WEEKLY,
+//   "RRULE:FREQ=WEEKLY;BYDAY=MO,TH"  optional INTERVAL, and BYDAY for WEEKLY
+//
+// Dates are local calendar days in the user's timezone, as "YYYY-MM-DD".
+
+export type Recurrence =
+  // Every `interval` days, counted from the habit's start
+  | { type: "daily"; interval: number }
+  // On `days` (0 = Sunday) of every `interval`-th week, counted from the habit's start
+  | { type: "weekly"; interval: number; days: number[] }
+  // Any `count` days of each Monday-based week
+  | { type: "times_per_week"; count: number };
+
+export type HabitStreak = {
+  current: number;
+  longest: number;
+  // "weeks" for times-per-week habits, where a streak counts successful weeks
+  unit: "days" | "weeks";
+};
+
+const weekdayCodes = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const weekdayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Returns null for anything that isn't a supported rule
+export function parseRecurrence(rule: string): Recurrence | null {
+  const value = rule.trim();
+  if (value === "daily") return { type: "daily", interval: 1 };
+  if (value === "weekdays") return { type: "weekly", interval: 1, days: [1, 2, 3, 4, 5] };
+
+  const perWeek = value.match(/^weekly:(\d)$/);
+  if (perWeek) {
+    const count = Number(perWeek[1]);
+    return count >= 1 && count <= 7 ? { type: "times_per_week", count } : null;
+  }
+
+  const rrule = value.match(/^(?:RRULE:)?(FREQ=.*)$/i);
+  if (!rrule) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of rrule[1].split(";")) {
+    const [key, val] = part.split("=");
+    if (!key || !val || parts.has(key.toUpperCase())) return null;
+    parts.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return null;
+  const allowed = parts.get("FREQ") === "WEEKLY" ? ["FREQ", "INTERVAL", "BYDAY"] : ["FREQ", "INTERVAL"];
+  if (Array.from(parts.keys()).some((key) => !allowed.includes(key))) return null;
+
+  switch (parts.get("FREQ")) {
+    case "DAILY":
+      return { type: "daily", interval };
+    case "WEEKLY": {
+      const codes = (parts.get("BYDAY") ?? "").split(",").filter(Boolean);
+      const days = codes.map((code) => weekdayCodes.indexOf(code));
+      if (days.length === 0 || days.some((day) => day < 0)) return null;
+      return { type: "weekly", interval, days: Array.from(new Set(days)).sort() };
+    }
+    default:
+      return null;
+  }
+}
+
+export function isValidRecurrence(rule: string): boolean {
+  return parseRecurrence(rule) !== null;
+}
+
+export function describeRecurrence(rule: string): string {
+  const recurrence = parseRecurrence(rule);
+  if (!recurrence) return rule;
+
+  switch (recurrence.type) {
+    case "daily":
+      return recurrence.interval === 1 ? "Every day" : `Every ${recurrence.interval} days`;
+    case "weekly": {
+      const days =
+        recurrence.days.join() === "1,2,3,4,5"
+          ? "Weekdays"
+          : recurrence.days.length === 7
+            ? "Every day"
+            : recurrence.days.map((day) => weekdayNames[day]).join(", ");
+      return recurrence.interval === 1 ? days : `${days}, every ${recurrence.interval} weeks`;
+    }
+    case "times_per_week":
+      return `${recurrence.count}× per week`;
+  }
+}
+
+// Calendar day in `timeZone` for an instant, as "YYYY-MM-DD"
+export function localDate(timeZone: string, instant: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+// The hour (0-23) of `instant` in the timezone
+export function localHour(timeZone: string, instant: Date = new Date()): number {
+  const hour = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" }).format(instant);
+  return Number(hour);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Day arithmetic on "YYYY-MM-DD" strings, done in UTC so DST never shifts a day
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  return fromDayNumber(toDayNumber(date) + days);
+}
+
+// Days from `from` to `to`; negative when `to` is earlier
+export function daysBetween(from: string, to: string): number {
+  return toDayNumber(to) - toDayNumber(from);
+}
+
+// 0 = Sunday
+export function weekday(date: string): number {
+  return (toDayNumber(date) + 4) % 7; // 1970-01-01 was a Thursday
+}
+
+// Monday of the week containing `date`
+export function startOfWeek(date: string): string {
+  return addDays(date, -((weekday(date) + 6) % 7));
+}
+
+// Whether a day-based habit started on `start` is scheduled on `date`.
+// Times-per-week habits can be done on any day.
+export function isScheduled(recurrence: Recurrence, start: string, date: string): boolean {
+  if (toDayNumber(date) < toDayNumber(start)) return false;
+
+  switch (recurrence.type) {
+    case "daily":
+      return (toDayNumber(date) - toDayNumber(start)) % recurrence.interval === 0;
+    case "weekly": {
+      const weeks = (toDayNumber(startOfWeek(date)) - toDayNumber(startOfWeek(start))) / 7;
+      return weeks % recurrence.interval === 0 && recurrence.days.includes(weekday(date));
+    }
+    case "times_per_week":
+      return true;
+  }
+}
+
+// Current and longest streaks for a habit started on `start`, given its
+// check-in dates (none before `start`) and today's date. Today, or this week,
+// still being open never breaks a streak; check-ins on unscheduled days
+// neither help nor hurt.
+export function computeStreak(rule: string, start: string, checkins: string[], today: string): HabitStreak {
+  const recurrence = parseRecurrence(rule);
+  if (!recurrence) return { current: 0, longest: 0, unit: "days" };
+
+  const done = new Set(checkins);
+
+  if (recurrence.type === "times_per_week") {
+    // One entry per week from the first week to this one: did it reach `count`?
+    const weeks: boolean[] = [];
+    for (let week = startOfWeek(start); week <= today; week = addDays(week, 7)) {
+      let count = 0;
+      for (let i = 0; i < 7; i++) if (done.has(addDays(week, i))) count++;
+      weeks.push(count >= recurrence.count);
+    }
+    return { ...runs(weeks, true), unit: "weeks" };
+  }
+
+  const days: boolean[] = [];
+  for (let date = start; date <= today; date = addDays(date, 1)) {
+    if (isScheduled(recurrence, start, date)) days.push(done.has(date));
+  }
+  return { ...runs(days, isScheduled(recurrence, start, today)), unit: "days" };
+}
+
+// Longest run of successes, and the run ending at the last period. When
+// `lastIsOpen`, a last period without success yet is skipped instead of
+// ending the run.
+function runs(periods: boolean[], lastIsOpen: boolean): { current: number; longest: number } {
+  let longest = 0;
+  let run = 0;
+  for (const success of periods) {
+    run = success ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  const closed = lastIsOpen && !periods[periods.length - 1] ? periods.slice(0, -1) : periods;
+  let current = 0;
+  for (let i = closed.length - 1; i >= 0 && closed[i]; i--) current++;
+
+  return { current, longest };
+}
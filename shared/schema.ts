@@ -1,34 +1,106 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  varchar,
+  timestamp,
+  integer,
+  boolean,
+  jsonb,
+  date,
+  unique,
+  index,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidRecurrence, isValidTimeZone, type HabitStreak } from "./recurrence";
+import { isValidCron } from "./cron";
+
+// Users table - accounts; every other table is scoped to a user
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(), // scrypt hash, see server/auth.ts
+  timezone: text("timezone").notNull().default("UTC"), // IANA name; habit days are local to it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
 
 // Conversations table - stores chat sessions
 export const conversations = pgTable("conversations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
   title: text("title").notNull(),
+  // Last message of the selected branch; null means the newest message
+  activeMessageId: varchar("active_message_id"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Full-text search vectors, weighted title > body > keywords. Each table's GIN
+// index and DbStorage.search use the same expression so the index applies.
+export const messageSearchVector = (table: { content: AnyPgColumn }) =>
+  sql`to_tsvector('english', ${table.content})`;
+
+export const goalSearchVector = (table: { title: AnyPgColumn; description: AnyPgColumn; category: AnyPgColumn }) =>
+  sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B') || setweight(to_tsvector('english', ${table.category}), 'C'))`;
+
+export const noteSearchVector = (table: { title: AnyPgColumn; content: AnyPgColumn }) =>
+  sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', ${table.content}), 'B'))`;
+
 // Messages table - stores individual messages in conversations
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
   conversationId: varchar("conversation_id").notNull(),
+  // The message this one follows; edits and regenerated replies are siblings
+  // sharing a parent, so a conversation is a tree. Null for a first message.
+  parentId: varchar("parent_id"),
   role: text("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
+  actions: jsonb("actions").$type<ChatAction[]>(), // tool calls the assistant made while replying
+  citations: jsonb("citations").$type<MemoryCitation[]>(), // memories the reply was given, see server/memory.ts
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [index("messages_search_idx").using("gin", messageSearchVector(table))]);
 
 // Goals table - tracks user goals and progress
 export const goals = pgTable("goals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
   title: text("title").notNull(),
   description: text("description"),
   category: text("category").notNull(), // 'productivity', 'learning', 'health', etc.
-  progress: integer("progress").notNull().default(0), // 0-100
+  progress: integer("progress").notNull().default(0), // 0-100; derived from tasks when progressMode is 'tasks'
+  progressMode: text("progress_mode").notNull().default("manual"), // 'manual' or 'tasks'
   targetDate: timestamp("target_date"),
   completed: boolean("completed").notNull().default(false),
+  kind: text("kind").notNull().default("goal"), // 'goal' or 'habit'
+  recurrence: text("recurrence"), // habit schedule, see shared/recurrence.ts
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [index("goals_search_idx").using("gin", goalSearchVector(table))]);
+
+// Habit check-ins table - one row per habit per local day it was done
+export const habitCheckins = pgTable(
+  "habit_checkins",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    goalId: varchar("goal_id").notNull(),
+    date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD in the user's timezone
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.goalId, table.date)]
+);
+
+// Goal tasks table - milestones/checklist items of a goal
+export const goalTasks = pgTable("goal_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  goalId: varchar("goal_id").notNull(),
+  title: text("title").notNull(),
+  weight: integer("weight").notNull().default(1), // share of the goal's derived progress
+  completed: boolean("completed").notNull().default(false),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -36,72 +108,603 @@ export const goals = pgTable("goals", {
 // Notes table - stores user notes and insights
 export const notes = pgTable("notes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  tags: text("tags").array(),
+  tags: text("tags").array(), // searchable too, matched outside the index
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+}, (table) => [index("notes_search_idx").using("gin", noteSearchVector(table))]);
+
+// Note revisions table - earlier versions of a note. Every update that
+// changes its title, content or tags first stores the version it replaces,
+// numbered from 1 per note.
+export const noteRevisions = pgTable(
+  "note_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    noteId: varchar("note_id").notNull(),
+    revision: integer("revision").notNull(),
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    tags: text("tags").array(),
+    savedAt: timestamp("saved_at").notNull(), // when this version was written
+    createdAt: timestamp("created_at").notNull().defaultNow(), // when it was replaced
+  },
+  (table) => [unique().on(table.noteId, table.revision)]
+);
+
+// Note links table - the [[Title]] links in each note's content, kept in step
+// with it by storage. Targets are titles, see shared/wiki-links.ts.
+export const noteLinks = pgTable(
+  "note_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    sourceId: varchar("source_id").notNull(), // the note containing the link
+    targetTitle: text("target_title").notNull(), // normalized
+  },
+  (table) => [
+    unique().on(table.sourceId, table.targetTitle),
+    index("note_links_target_idx").on(table.userId, table.targetTitle),
+  ]
+);
+
+// What an activity records
+export const activityTypes = [
+  "chat",
+  "chat_action_undone",
+  "conversations_imported",
+  "goal_created",
+  "goal_updated",
+  "goal_completed",
+  "task_completed",
+  "habit_checkin",
+  "note_created",
+  "note_updated",
+  "notes_imported",
+  "workspace_restored",
+  "goal_reminder",
+] as const;
+export type ActivityType = (typeof activityTypes)[number];
+
+// The record an activity is about, which the timeline links to. Imports and
+// restores touch many records and have none.
+export const activityEntityTypes = ["conversation", "goal", "note"] as const;
+export type ActivityEntityType = (typeof activityEntityTypes)[number];
+
+// Details of an activity, e.g. a goal's old and new progress; flat so that
+// it can be shown or counted without knowing the type
+export type ActivityMetadata = Record<string, string | number | boolean | null>;
 
 // Activity table - logs user activity for productivity tracking
 export const activities = pgTable("activities", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  type: text("type").notNull(), // 'chat', 'goal_created', 'note_created', etc.
+  userId: varchar("user_id").notNull(),
+  type: text("type").$type<ActivityType>().notNull(),
   description: text("description").notNull(),
+  entityType: text("entity_type").$type<ActivityEntityType>(),
+  entityId: varchar("entity_id"),
+  metadata: jsonb("metadata").$type<ActivityMetadata>(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const summaryPeriods = ["day", "week", "month"] as const;
+export type SummaryPeriod = (typeof summaryPeriods)[number];
+
+// Summaries table - AI reviews of a day, week (from Monday) or month, one per
+// period. Generated from the period's activities, goals and notes the first
+// time it is asked for and kept, so that looking again costs no AI call; see
+// server/summaries.ts.
+export const summaries = pgTable(
+  "summaries",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    period: text("period").$type<SummaryPeriod>().notNull(),
+    start: date("start", { mode: "string" }).notNull(), // first local day of the period
+    end: date("end", { mode: "string" }).notNull(), // last local day, included
+    headline: text("headline").notNull(),
+    highlights: jsonb("highlights").$type<string[]>().notNull(),
+    suggestions: jsonb("suggestions").$type<string[]>().notNull(),
+    stats: jsonb("stats").$type<SummaryStats>().notNull(), // as of generation
+    createdAt: timestamp("created_at").notNull().defaultNow(), // when generated
+  },
+  (table) => [unique().on(table.userId, table.period, table.start)]
+);
+
+// What each background job does, see server/jobs.ts
+export const jobKinds = ["daily_summaries", "goal_reminders", "purge_activities"] as const;
+export type JobKind = (typeof jobKinds)[number];
+
+// scheduled: waiting for its next run. retrying: the last attempt failed and
+// another is due. failed: every attempt failed; a cron job still runs at its
+// next time. completed: a one-off job that has run.
+export const jobStatuses = ["scheduled", "running", "retrying", "failed", "completed"] as const;
+export type JobStatus = (typeof jobStatuses)[number];
+
+// A job's settings, and what its last run reports
+export type JobData = Record<string, string | number | boolean | null>;
+
+// Jobs table - background work run by the scheduler in server/jobs.ts, on a
+// cron `schedule` or once at `runAt`. Not owned by a user; admins manage them
+// through /api/admin/jobs.
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: text("name").notNull().unique(),
+    kind: text("kind").$type<JobKind>().notNull(),
+    schedule: text("schedule"), // cron expression in UTC, see shared/cron.ts; null for a one-off job
+    runAt: timestamp("run_at"), // when a one-off job runs
+    payload: jsonb("payload").$type<JobData>().notNull(), // settings for its kind
+    enabled: boolean("enabled").notNull().default(true),
+    status: text("status").$type<JobStatus>().notNull().default("scheduled"),
+    attempts: integer("attempts").notNull().default(0), // failed attempts at the current run
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    nextRunAt: timestamp("next_run_at"), // null when nothing is due
+    lastRunAt: timestamp("last_run_at"),
+    lastError: text("last_error"),
+    lastResult: jsonb("last_result").$type<JobData>(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [index("jobs_next_run_idx").on(table.nextRunAt)]
+);
+
+// Limits on user input, checked by the forms and the API alike
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 5000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_PASSWORD_LENGTH = 128; // bounds the scrypt work of a sign-up or sign-in
+
+// Field limits shared by the insert schemas below and by restoring a backup
+// (server/backup.ts), so that a backup can't bring in what the API refuses
+export const titleField = z
+  .string()
+  .trim()
+  .min(1, "Title is required")
+  .max(MAX_TITLE_LENGTH, `Title must be at most ${MAX_TITLE_LENGTH} characters`);
+export const goalDescriptionField = z
+  .string()
+  .max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+export const goalCategoryField = z.string().trim().min(1, "Category is required").max(50);
+export const goalProgressField = z.number().int().min(0, "Progress must be 0-100").max(100, "Progress must be 0-100");
+export const goalRecurrenceField = z.string().refine(isValidRecurrence, "Invalid recurrence rule");
+export const taskTitleField = z.string().trim().min(1, "Title is required");
+export const taskWeightField = z.number().int().min(1).max(100);
+export const noteTagsField = z
+  .array(z.string().trim().min(1, "Tags can't be empty").max(MAX_TAG_LENGTH, `Tags must be at most ${MAX_TAG_LENGTH} characters`))
+  .max(MAX_TAGS, `At most ${MAX_TAGS} tags`);
+
 // Insert schemas
-export const insertConversationSchema = createInsertSchema(conversations).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.trim().min(3, "Username must be at least 3 characters").max(50),
+  password: (schema) =>
+    schema
+      .min(8, "Password must be at least 8 characters")
+      .max(MAX_PASSWORD_LENGTH, `Password must be at most ${MAX_PASSWORD_LENGTH} characters`),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+}).pick({
+  username: true,
+  password: true,
+  timezone: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations, {
+  title: titleField,
+}).omit({
   id: true,
+  userId: true,
+  activeMessageId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages)
+  .omit({
+    id: true,
+    userId: true,
+    createdAt: true,
+  })
+  .extend({
+    actions: z.custom<ChatAction[]>().nullish(),
+    citations: z.custom<MemoryCitation[]>().nullish(),
+  });
+
+export const goalProgressModes = ["manual", "tasks"] as const;
+export const goalKinds = ["goal", "habit"] as const;
+
+export const insertGoalSchema = createInsertSchema(goals, {
+  title: titleField,
+  description: goalDescriptionField.nullish(),
+  category: goalCategoryField,
+  progress: goalProgressField.optional(),
+  // Dates arrive as JSON strings
+  targetDate: z.coerce.date().nullish(),
+  progressMode: z.enum(goalProgressModes).optional(),
+  kind: z.enum(goalKinds).optional(),
+  recurrence: goalRecurrenceField.nullish(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
+  updatedAt: true,
 });
 
-export const insertGoalSchema = createInsertSchema(goals).omit({
+export const insertGoalTaskSchema = createInsertSchema(goalTasks, {
+  title: taskTitleField,
+  weight: taskWeightField.optional(),
+}).omit({
   id: true,
+  userId: true,
+  goalId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertNoteSchema = createInsertSchema(notes).omit({
+export const insertNoteSchema = createInsertSchema(notes, {
+  title: titleField,
+  tags: noteTagsField.nullish(),
+}).omit({
   id: true,
+  userId: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertActivitySchema = createInsertSchema(activities).omit({
-  id: true,
-  createdAt: true,
+export const activityMetadataSchema = z.record(z.union([z.string(), z.number(), z.boolean(), z.null()]));
+
+export const insertActivitySchema = createInsertSchema(activities, {
+  type: z.enum(activityTypes),
+  entityType: z.enum(activityEntityTypes).nullish(),
+  entityId: z.string().nullish(),
+  metadata: activityMetadataSchema.nullish(),
+})
+  .omit({
+    id: true,
+    userId: true,
+    createdAt: true,
+  })
+  .refine((activity) => !activity.entityType === !activity.entityId, {
+    message: "entityType and entityId go together",
+    path: ["entityId"],
+  });
+
+export const MAX_JOB_ATTEMPTS = 10;
+
+const jobFieldsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(100)
+    .regex(/^[\w.-]+$/, "Name may only use letters, digits, '-', '_' and '.'"),
+  kind: z.enum(jobKinds),
+  schedule: z.string().trim().refine(isValidCron, "Invalid cron schedule").nullish(),
+  runAt: z.coerce.date().nullish(),
+  payload: activityMetadataSchema.optional(),
+  enabled: z.boolean().optional(),
+  maxAttempts: z.number().int().min(1).max(MAX_JOB_ATTEMPTS).optional(),
 });
 
+// Admins create jobs; each has either a schedule or a runAt
+export const insertJobSchema = jobFieldsSchema.refine((job) => !job.schedule !== !job.runAt, {
+  message: "Give either a schedule or a runAt",
+  path: ["schedule"],
+});
+
+// PATCH bodies: any of the insert fields. Other keys, such as ids and
+// timestamps, are dropped rather than stored.
+export const updateConversationSchema = insertConversationSchema.partial();
+export const updateGoalSchema = insertGoalSchema.partial();
+export const updateNoteSchema = insertNoteSchema.partial();
+// Its kind is fixed; the route checks the job still has a schedule or a runAt
+export const updateJobSchema = jobFieldsSchema.omit({ kind: true }).partial();
+
 // Types
+export type User = typeof users.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+// What the API returns for the signed-in user; never includes the password hash
+export type PublicUser = Omit<User, "password">;
+
 export type Conversation = typeof conversations.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type UpdateConversation = z.infer<typeof updateConversationSchema>;
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+// A message on a conversation's selected branch, from
+// /api/conversations/:id/messages. `siblingIds` are the alternatives to it
+// (itself included, oldest first): other edits of a user message or other
+// replies to it.
+export type BranchMessage = Message & { siblingIds: string[] };
+
 export type Goal = typeof goals.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type UpdateGoal = z.infer<typeof updateGoalSchema>;
+
+export type GoalProgressMode = (typeof goalProgressModes)[number];
+export type GoalKind = (typeof goalKinds)[number];
+
+export type HabitCheckin = typeof habitCheckins.$inferSelect;
+
+export type GoalTask = typeof goalTasks.$inferSelect;
+export type InsertGoalTask = z.infer<typeof insertGoalTaskSchema>;
 
 export type Note = typeof notes.$inferSelect;
 export type InsertNote = z.infer<typeof insertNoteSchema>;
+export type UpdateNote = z.infer<typeof updateNoteSchema>;
+
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+
+export type NoteLink = typeof noteLinks.$inferSelect;
 
 export type Activity = typeof activities.$inferSelect;
+
+export type Summary = typeof summaries.$inferSelect;
+export type InsertSummary = Omit<Summary, "id" | "userId" | "createdAt">;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type UpdateJob = z.infer<typeof updateJobSchema>;
+// What storage creates a job from, with the defaults and first run filled in
+export type NewJob = Pick<Job, "name" | "kind" | "schedule" | "runAt" | "payload" | "enabled" | "maxAttempts" | "nextRunAt">;
+
+// Something the assistant did through a tool while replying, rendered as an action card
+export type ChatAction = {
+  id: string;
+  tool: string;
+  summary: string;
+  entityType?: "goal" | "note";
+  entityId?: string;
+  undo?: ChatActionUndo; // absent for read-only tools
+  undone: boolean;
+};
+
+// How to reverse a ChatAction
+export type ChatActionUndo =
+  | { op: "delete_goal" }
+  | { op: "delete_note" }
+  | { op: "restore_goal"; progress: number; completed: boolean };
+
+// A note, goal or past conversation recalled from long-term memory and given
+// to the assistant for a reply
+export type MemoryCitation = {
+  type: "note" | "goal" | "conversation";
+  id: string;
+  title: string;
+};
+
+export const searchResultTypes = ["note", "goal", "message"] as const;
+export type SearchResultType = (typeof searchResultTypes)[number];
+
+// Sort fields of the list routes (/api/goals, /api/notes, /api/activities
+// and /api/conversations), which page with ?limit= and ?cursor=; see
+// server/lists.ts. The first field is the default.
+export const sortOrders = ["asc", "desc"] as const;
+export type SortOrder = (typeof sortOrders)[number];
+export const goalSorts = ["createdAt", "updatedAt", "title", "progress"] as const;
+export type GoalSort = (typeof goalSorts)[number];
+export const noteSorts = ["createdAt", "updatedAt", "title"] as const;
+export type NoteSort = (typeof noteSorts)[number];
+export const activitySorts = ["createdAt"] as const;
+export type ActivitySort = (typeof activitySorts)[number];
+export const conversationSorts = ["updatedAt", "createdAt", "title"] as const;
+export type ConversationSort = (typeof conversationSorts)[number];
+export const MAX_PAGE_SIZE = 100;
+
+// A run of snippet text; `match` runs are query hits to highlight
+export type SearchSnippetPart = { text: string; match: boolean };
+
+// A ranked hit from /api/search. For messages, `title` is the conversation's.
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  conversationId?: string;
+  title: string;
+  snippet: SearchSnippetPart[];
+  score: number;
+  createdAt: Date;
+};
+
 // API response types
+
+// The body of every error answer from the API; see server/errors.ts
+export const apiErrorCodes = [
+  "bad_request",
+  "validation_failed",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "conflict",
+  "payload_too_large",
+  "internal_error",
+] as const;
+export type ApiErrorCode = (typeof apiErrorCodes)[number];
+
+export type ApiErrorBody = {
+  code: ApiErrorCode;
+  message: string;
+  details?: unknown;
+  requestId: string;
+};
+
+// The details of a validation_failed error: the messages for each invalid
+// field, by its dotted path ("tags.2"; "" for the body itself)
+export type ValidationErrorDetails = {
+  fields: Record<string, string[]>;
+};
+
 export type ChatResponse = {
   message: Message;
   conversationId: string;
 };
 
+// Events sent over the /api/chat/stream Server-Sent Events response
+export type ChatStreamEvent =
+  | { type: "start"; streamId: string; conversationId: string; userMessage: Message }
+  | { type: "delta"; text: string }
+  | { type: "citations"; citations: MemoryCitation[] }
+  | { type: "action"; action: ChatAction }
+  | { type: "done"; message: Message; conversationId: string }
+  | { type: "error"; error: string };
+
+// Live updates: every change to a user's data is pushed over the /api/ws
+// WebSocket to each of their open tabs (see server/changes.ts and
+// server/live.ts). Messages belong to a conversation and tasks and check-ins
+// to a goal, which `parentId` names; check-ins, one per habit and day, are
+// identified by their date. `workspace` is a restore, which may change
+// anything.
+export const changeEntities = [
+  "conversation",
+  "message",
+  "goal",
+  "goal_task",
+  "habit_checkin",
+  "note",
+  "activity",
+  "summary",
+  "user",
+  "workspace",
+] as const;
+export type ChangeEntity = (typeof changeEntities)[number];
+
+export const changeOps = ["create", "update", "delete"] as const;
+export type ChangeOp = (typeof changeOps)[number];
+
+export type ChangeEvent = {
+  entity: ChangeEntity;
+  op: ChangeOp;
+  id: string;
+  parentId?: string;
+  data?: unknown; // the record as created or updated; never sent for users
+  origin?: string; // the X-Client-Id of the tab whose request made the change
+};
+
+export const conversationExportFormats = ["md", "json", "html"] as const;
+export type ConversationExportFormat = (typeof conversationExportFormats)[number];
+
+// A conversation as exported by /api/conversations/:id/export?format=json and
+// accepted by /api/conversations/import. Holds every branch; parentIds refer
+// to ids within the file.
+export type ConversationExport = {
+  format: "astramind.conversation";
+  version: 1;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  activeMessageId: string | null;
+  messages: {
+    id: string;
+    parentId: string | null;
+    role: "user" | "assistant";
+    content: string;
+    createdAt: string;
+  }[];
+};
+
+export type ConversationImportResult = {
+  conversations: Conversation[];
+  messages: number; // across all imported conversations
+};
+
+// The result of importing a zip of Markdown notes, see server/vault.ts
+export type VaultImportResult = {
+  created: number;
+  updated: number; // notes exported from here whose file changed since
+  unchanged: number;
+  skipped: { file: string; reason: string }[]; // Markdown files that couldn't be read or break note limits
+};
+
+// Every record a user owns, without the userId, as held in a backup
+export type WorkspaceData = {
+  conversations: Omit<Conversation, "userId">[];
+  messages: Omit<Message, "userId">[];
+  goals: Omit<Goal, "userId">[];
+  goalTasks: Omit<GoalTask, "userId">[];
+  habitCheckins: Omit<HabitCheckin, "userId">[];
+  notes: Omit<Note, "userId">[];
+  noteRevisions: Omit<NoteRevision, "userId">[];
+  activities: Omit<Activity, "userId">[];
+};
+
+// Bumped whenever WorkspaceData changes shape; older backups are migrated on
+// restore, see server/backup.ts
+export const BACKUP_VERSION = 3;
+
+// The file from /api/backup
+export type WorkspaceBackup = {
+  format: "astramind.backup";
+  version: number;
+  exportedAt: string;
+  data: WorkspaceData;
+};
+
+// merge keeps existing records and adds the backup's new ones; replace
+// deletes the workspace first
+export const restoreModes = ["merge", "replace"] as const;
+export type RestoreMode = (typeof restoreModes)[number];
+
+// Per record type: how many were written, how many were left out because
+// they already exist, and how many of the written ones got a new id because
+// the backup's id belongs to another account
+export type RestoreCounts = { restored: number; skipped: number; remapped: number };
+
+export type RestoreResult = {
+  mode: RestoreMode;
+  counts: Record<keyof WorkspaceData, RestoreCounts>;
+};
+
+// A habit's recent check-ins and streaks, from /api/habits
+export type HabitStatus = {
+  goalId: string;
+  start: string; // the habit's first local day
+  today: string; // in the user's timezone
+  checkins: string[]; // local days checked in, most recent HABIT_HISTORY_DAYS only
+  streak: HabitStreak;
+};
+
+export const HABIT_HISTORY_DAYS = 7 * 12;
+
+// Productivity analytics over a range of local days, see server/analytics.ts
+export const analyticsBuckets = ["day", "week", "month"] as const;
+export type AnalyticsBucket = (typeof analyticsBuckets)[number];
+
+export const DEFAULT_ANALYTICS_DAYS = 30;
+export const MAX_ANALYTICS_DAYS = 366;
+
+export type AnalyticsCounts = {
+  chats: number;
+  progress: number; // percentage points of goal progress gained
+  completions: number; // goals and tasks completed
+  notes: number; // notes created
+};
+
+export type AnalyticsPoint = AnalyticsCounts & {
+  start: string; // first day of the bucket; Monday for weeks
+};
+
+export type Analytics = {
+  from: string; // YYYY-MM-DD in the user's timezone, inclusive
+  to: string;
+  bucket: AnalyticsBucket;
+  series: AnalyticsPoint[]; // every bucket in the range, oldest first
+  heatmap: { date: string; count: number }[]; // activities per day, days with none left out
+  totals: AnalyticsCounts & { activities: number };
+};
+
+// The numbers a review is written from
+export type SummaryStats = AnalyticsCounts & {
+  activities: number;
+  goalsActive: number; // open goals and habits when it was generated
+  notesUpdated: number; // notes created or edited in the period
+};
+
 export type DailySummary = {
   date: string;
   totalChats: number;
@@ -0,0 +1,44 @@
+// [[Note Title]] links between notes, also written [[Note Title|shown text]].
+// A link targets whichever note has that title, compared case-insensitively,
+// so it can be written before the note exists.
+
+const WIKI_LINK_SOURCE = String.raw`\[\[([^\[\]|\n]+?)(?:\|([^\[\]\n]+?))?\]\]`;
+
+export type WikiLink = {
+  title: string;
+  label: string; // the text shown, the title unless an alias is given
+  index: number;
+  length: number;
+};
+
+export function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function findWikiLinks(content: string): WikiLink[] {
+  return Array.from(content.matchAll(new RegExp(WIKI_LINK_SOURCE, "g"))).map((match) => ({
+    title: match[1].trim(),
+    label: (match[2] ?? match[1]).trim(),
+    index: match.index ?? 0,
+    length: match[0].length,
+  }));
+}
+
+// Distinct normalized titles the content links to
+export function linkedTitles(content: string): string[] {
+  return Array.from(new Set(findWikiLinks(content).map((link) => normalizeTitle(link.title))));
+}
+
+// Points links to `from` at `to` instead, keeping any alias
+export function renameWikiLinks(content: string, from: string, to: string): string {
+  const target = normalizeTitle(from);
+  return content.replace(new RegExp(WIKI_LINK_SOURCE, "g"), (link, title: string, alias?: string) =>
+    normalizeTitle(title) === target ? `[[${to.trim()}${alias ? `|${alias}` : ""}]]` : link
+  );
+}
+
+// Where a link goes in the app; the notes page opens the note with that
+// title, or starts one
+export function wikiLinkHref(title: string): string {
+  return `/notes?title=${encodeURIComponent(title)}`;
+}